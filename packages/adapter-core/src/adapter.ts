@@ -1,4 +1,12 @@
-import type { ChannelAccountSnapshot, ChannelCapabilities, ChannelConfig, ChannelMeta, OutboundMessage, SendResult } from "./types.js";
+import type {
+  ChannelAccountSnapshot,
+  ChannelCapabilities,
+  ChannelConfig,
+  ChannelMeta,
+  ChatCommand,
+  OutboundMessage,
+  SendResult,
+} from "./types.js";
 import { TypedEventEmitter } from "./events.js";
 
 export abstract class ChannelAdapter extends TypedEventEmitter {
@@ -22,6 +30,31 @@ export abstract class ChannelAdapter extends TypedEventEmitter {
   abstract stop(): Promise<void>;
   abstract send(msg: OutboundMessage): Promise<SendResult>;
 
+  /**
+   * Replace the text of a previously sent message.
+   * Override in adapters whose capabilities include `edit`.
+   */
+  async editMessage(_chatId: string, _messageId: string, _text: string): Promise<SendResult> {
+    return { success: false, error: `${this.id} does not support editing messages`, timestamp: Date.now() };
+  }
+
+  /**
+   * Handle an inbound webhook request routed by the gateway HTTP server
+   * (POST /webhook/<channel>/<accountId>). Override in adapters that can
+   * receive updates by webhook; they are responsible for verifying the request.
+   */
+  async handleWebhook(_request: Request): Promise<Response> {
+    return new Response(`${this.id} does not accept webhooks`, { status: 404 });
+  }
+
+  /**
+   * Publish the gateway's chat commands to the platform's command menu
+   * (called after each connect). Override in adapters that have one.
+   */
+  async setCommands(_commands: ChatCommand[]): Promise<void> {
+    // no-op by default
+  }
+
   /** Send a typing indicator to the chat. Override in adapters that support it. */
   async sendTyping(_chatId: string): Promise<void> {
     // no-op by default
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { chunkMarkdown } from "./chunk.js";
+import { chunkMarkdown, PLATFORM_CHUNK_OPTIONS } from "./chunk.js";
 
 describe("chunkMarkdown", () => {
   it("returns single chunk when text is under limit", () => {
@@ -82,3 +82,50 @@ describe("chunkMarkdown", () => {
     expect(chunks[1].length).toBe(4000);
   });
 });
+
+describe("chunkMarkdown options", () => {
+  it("keeps fenced chunks within the limit including the closing fence", () => {
+    const code = Array.from({ length: 40 }, (_, i) => `line ${i}`).join("\n");
+    const text = `\`\`\`ts\n${code}\n\`\`\``;
+    const chunks = chunkMarkdown(text, { limit: 60 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(60);
+      expect(chunk).toMatch(/^```ts\n/);
+      expect(chunk).toMatch(/\n```$/);
+    }
+  });
+
+  it("handles tilde fences", () => {
+    const text = `~~~\n${"x\n".repeat(40).trim()}\n~~~`;
+    const chunks = chunkMarkdown(text, { limit: 30 });
+
+    expect(chunks[0]).toMatch(/~~~$/);
+    expect(chunks[1]).toMatch(/^~~~\n/);
+  });
+
+  it("leaves fences alone when fence handling is disabled", () => {
+    const text = `\`\`\`\n${"y\n".repeat(40).trim()}\n\`\`\``;
+    const chunks = chunkMarkdown(text, { limit: 30, fences: false });
+
+    expect(chunks[0].match(/```/g)).toHaveLength(1);
+  });
+
+  it("follows a custom split priority", () => {
+    const text = "alpha beta\ngamma delta epsilon";
+    const chunks = chunkMarkdown(text, { limit: 20, splitPriority: ["whitespace"] });
+
+    expect(chunks[0]).toBe("alpha beta\ngamma");
+  });
+
+  it("splits Discord messages at 2000 characters", () => {
+    const text = "Discord paragraph text. ".repeat(200);
+    const chunks = chunkMarkdown(text, PLATFORM_CHUNK_OPTIONS.discord);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(2000);
+    }
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Markdown-aware text chunking shared by all channel adapters.
+ *
+ * Splits long Markdown text into chunks that respect a platform's message
+ * length limit (Telegram 4096, Discord 2000, WhatsApp ~65k). When a split
+ * occurs inside a fenced code block, the fence is automatically closed in the
+ * current chunk and re-opened in the next, with room for the closing fence
+ * reserved so chunks never exceed the limit.
+ *
+ * Default split priority: paragraph boundary > line break > whitespace > hard cut.
+ */
+
+const DEFAULT_CHUNK_LIMIT = 4000;
+
+export type SplitBoundary = "paragraph" | "line" | "whitespace";
+
+export type ChunkOptions = {
+  /** Maximum characters per chunk */
+  limit?: number;
+  /** Close and re-open code fences that span a split (default: true) */
+  fences?: boolean;
+  /** Boundaries to try, in order, before falling back to a hard cut */
+  splitPriority?: SplitBoundary[];
+  /** A soft split must keep at least this fraction of the limit (default: 0.3) */
+  minSplitRatio?: number;
+};
+
+/** Per-platform chunking presets */
+export const PLATFORM_CHUNK_OPTIONS = {
+  // Leave 96-char headroom for HTML tags added by markdownToTelegramHtml
+  telegram: { limit: 4000 },
+  // Hard 2000-char message limit, Markdown rendered natively
+  discord: { limit: 2000 },
+  // Long messages are collapsed behind "Read more"; keep chunks readable
+  whatsapp: { limit: 4000 },
+} satisfies Record<string, ChunkOptions>;
+
+const DEFAULT_SPLIT_PRIORITY: SplitBoundary[] = ["paragraph", "line", "whitespace"];
+
+const BOUNDARY_TOKENS: Record<SplitBoundary, string> = {
+  paragraph: "\n\n",
+  line: "\n",
+  whitespace: " ",
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/**
+ * Split Markdown text into chunks of at most `limit` characters.
+ *
+ * Accepts a plain limit for backwards compatibility, or ChunkOptions
+ * (e.g. one of PLATFORM_CHUNK_OPTIONS).
+ */
+export function chunkMarkdown(
+  text: string,
+  options: number | ChunkOptions = DEFAULT_CHUNK_LIMIT,
+): string[] {
+  const opts = typeof options === "number" ? { limit: options } : options;
+  const limit = opts.limit ?? DEFAULT_CHUNK_LIMIT;
+  const fences = opts.fences ?? true;
+  const priority = opts.splitPriority ?? DEFAULT_SPLIT_PRIORITY;
+  const minRatio = opts.minSplitRatio ?? 0.3;
+
+  if (text.length <= limit) return [text];
+
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > 0) {
+    if (remaining.length <= limit) {
+      const trimmed = remaining.trim();
+      if (trimmed.length > 0) chunks.push(trimmed);
+      break;
+    }
+
+    let splitAt = findSplitPoint(remaining, limit, priority, minRatio);
+    let chunk = remaining.slice(0, splitAt);
+    let openFence = fences ? findUnclosedFence(chunk) : null;
+
+    // Reserve room for the closing fence so the chunk stays within the limit
+    if (openFence) {
+      const closing = "\n" + openFence.marker;
+      if (chunk.trimEnd().length + closing.length > limit) {
+        const reduced = Math.max(1, limit - closing.length);
+        splitAt = findSplitPoint(remaining, reduced, priority, minRatio);
+        chunk = remaining.slice(0, splitAt);
+        openFence = findUnclosedFence(chunk);
+      }
+    }
+
+    // Trim leading newlines from the next chunk
+    remaining = remaining.slice(splitAt).replace(/^\n+/, "");
+
+    if (openFence) {
+      // Close the fence in this chunk
+      chunk = chunk.trimEnd() + "\n" + openFence.marker;
+      // Re-open in the next chunk with the same language
+      remaining = openFence.marker + openFence.lang + "\n" + remaining;
+    }
+
+    const trimmed = chunk.trim();
+    if (trimmed.length > 0) {
+      chunks.push(trimmed);
+    }
+  }
+
+  return chunks;
+}
+
+// ─── Split Point Selection ──────────────────────────────────────────────────
+
+function findSplitPoint(
+  text: string,
+  limit: number,
+  priority: SplitBoundary[],
+  minRatio: number,
+): number {
+  for (const boundary of priority) {
+    const token = BOUNDARY_TOKENS[boundary];
+    const index = text.lastIndexOf(token, limit);
+    if (index > limit * minRatio) return index + token.length;
+  }
+
+  // Hard cut
+  return limit;
+}
+
+// ─── Code Fence Tracking ────────────────────────────────────────────────────
+
+/**
+ * Scan text for an unclosed fenced code block (``` or ~~~).
+ * Returns the fence marker and language tag, or null if all fences are closed.
+ */
+function findUnclosedFence(text: string): { marker: string; lang: string } | null {
+  const fenceRegex = /^(```|~~~)([\w+-]*)\s*$/gm;
+  let open: { marker: string; lang: string } | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = fenceRegex.exec(text)) !== null) {
+    if (open === null) {
+      // Opening fence
+      open = { marker: match[1], lang: match[2] };
+    } else if (match[1] === open.marker && match[2] === "") {
+      // Closing fence
+      open = null;
+    }
+  }
+
+  return open;
+}
@@ -4,7 +4,8 @@ import type { ChannelMessage, ChannelAccountSnapshot } from "./types.js";
 export type AdapterEvents = {
   message: [msg: ChannelMessage];
   connected: [snapshot: ChannelAccountSnapshot];
-  disconnected: [snapshot: ChannelAccountSnapshot, reason?: string];
+  /** retryable=false tells the supervisor not to restart (e.g. logged out) */
+  disconnected: [snapshot: ChannelAccountSnapshot, reason?: string, retryable?: boolean];
   error: [error: Error, context?: string];
   qr: [dataUrl: string];
   status: [snapshot: ChannelAccountSnapshot];
@@ -0,0 +1,421 @@
+import { describe, it, expect } from "vitest";
+import {
+  markdownToTelegramHtml,
+  markdownToWhatsApp,
+  markdownToDiscord,
+  markdownToPlainText,
+  escapeHtml,
+} from "./format.js";
+import { parseMarkdown } from "./markdown.js";
+
+describe("escapeHtml", () => {
+  it("escapes &, <, >", () => {
+    expect(escapeHtml('a & b < c > d')).toBe("a &amp; b &lt; c &gt; d");
+  });
+
+  it("leaves normal text unchanged", () => {
+    expect(escapeHtml("hello world")).toBe("hello world");
+  });
+});
+
+describe("markdownToTelegramHtml", () => {
+  // ── Code Blocks ──
+  describe("code blocks", () => {
+    it("converts fenced code block with language", () => {
+      const md = '```python\nprint("hello")\n```';
+      expect(markdownToTelegramHtml(md)).toBe(
+        '<pre><code class="language-python">print("hello")</code></pre>',
+      );
+    });
+
+    it("converts fenced code block without language", () => {
+      const md = "```\nsome code\n```";
+      expect(markdownToTelegramHtml(md)).toBe(
+        "<pre><code>some code</code></pre>",
+      );
+    });
+
+    it("escapes HTML inside code blocks", () => {
+      const md = "```\n<div>test</div>\n```";
+      expect(markdownToTelegramHtml(md)).toBe(
+        "<pre><code>&lt;div&gt;test&lt;/div&gt;</code></pre>",
+      );
+    });
+
+    it("handles multiline code blocks", () => {
+      const md = "```js\nconst a = 1;\nconst b = 2;\n```";
+      expect(markdownToTelegramHtml(md)).toBe(
+        '<pre><code class="language-js">const a = 1;\nconst b = 2;</code></pre>',
+      );
+    });
+
+    it("handles unclosed code block", () => {
+      const md = "```python\nprint('hi')";
+      expect(markdownToTelegramHtml(md)).toBe(
+        "<pre><code class=\"language-python\">print('hi')</code></pre>",
+      );
+    });
+
+    it("does not apply inline formatting inside code blocks", () => {
+      const md = "```\n**bold** and *italic*\n```";
+      expect(markdownToTelegramHtml(md)).toBe(
+        "<pre><code>**bold** and *italic*</code></pre>",
+      );
+    });
+  });
+
+  // ── Inline Code ──
+  describe("inline code", () => {
+    it("converts inline code", () => {
+      expect(markdownToTelegramHtml("use `npm install`")).toBe(
+        "use <code>npm install</code>",
+      );
+    });
+
+    it("escapes HTML inside inline code", () => {
+      expect(markdownToTelegramHtml("type `<string>`")).toBe(
+        "type <code>&lt;string&gt;</code>",
+      );
+    });
+
+    it("does not apply formatting inside inline code", () => {
+      expect(markdownToTelegramHtml("`**not bold**`")).toBe(
+        "<code>**not bold**</code>",
+      );
+    });
+  });
+
+  // ── Bold ──
+  describe("bold", () => {
+    it("converts **bold**", () => {
+      expect(markdownToTelegramHtml("**bold text**")).toBe("<b>bold text</b>");
+    });
+
+    it("converts __bold__", () => {
+      expect(markdownToTelegramHtml("__bold text__")).toBe("<b>bold text</b>");
+    });
+  });
+
+  // ── Italic ──
+  describe("italic", () => {
+    it("converts *italic*", () => {
+      expect(markdownToTelegramHtml("*italic text*")).toBe("<i>italic text</i>");
+    });
+
+    it("converts _italic_ (not surrounded by alnum)", () => {
+      expect(markdownToTelegramHtml("this is _italic_ text")).toBe(
+        "this is <i>italic</i> text",
+      );
+    });
+
+    it("does not convert underscores in identifiers", () => {
+      expect(markdownToTelegramHtml("file_name_here")).toBe("file_name_here");
+    });
+  });
+
+  // ── Strikethrough ──
+  describe("strikethrough", () => {
+    it("converts ~~text~~", () => {
+      expect(markdownToTelegramHtml("~~deleted~~")).toBe("<s>deleted</s>");
+    });
+  });
+
+  // ── Spoiler ──
+  describe("spoiler", () => {
+    it("converts ||text||", () => {
+      expect(markdownToTelegramHtml("||spoiler||")).toBe(
+        "<tg-spoiler>spoiler</tg-spoiler>",
+      );
+    });
+  });
+
+  // ── Links ──
+  describe("links", () => {
+    it("converts [text](url)", () => {
+      expect(markdownToTelegramHtml("[click](https://example.com)")).toBe(
+        '<a href="https://example.com">click</a>',
+      );
+    });
+
+    it("handles links with query params", () => {
+      const md = "[link](https://example.com?a=1&b=2)";
+      expect(markdownToTelegramHtml(md)).toBe(
+        '<a href="https://example.com?a=1&amp;b=2">link</a>',
+      );
+    });
+  });
+
+  // ── Blockquote ──
+  describe("blockquote", () => {
+    it("converts single-line blockquote", () => {
+      expect(markdownToTelegramHtml("> quoted text")).toBe(
+        "<blockquote>quoted text</blockquote>",
+      );
+    });
+
+    it("coalesces consecutive blockquote lines", () => {
+      const md = "> line 1\n> line 2\n> line 3";
+      expect(markdownToTelegramHtml(md)).toBe(
+        "<blockquote>line 1\nline 2\nline 3</blockquote>",
+      );
+    });
+
+    it("separates blockquote from regular text", () => {
+      const md = "> quote\nregular";
+      expect(markdownToTelegramHtml(md)).toBe(
+        "<blockquote>quote</blockquote>\nregular",
+      );
+    });
+  });
+
+  // ── Headers ──
+  describe("headers", () => {
+    it("converts # header to bold", () => {
+      expect(markdownToTelegramHtml("# Title")).toBe("<b>Title</b>");
+    });
+
+    it("converts ## header to bold", () => {
+      expect(markdownToTelegramHtml("## Subtitle")).toBe("<b>Subtitle</b>");
+    });
+
+    it("applies inline formatting inside headers", () => {
+      expect(markdownToTelegramHtml("## The `code` header")).toBe(
+        "<b>The <code>code</code> header</b>",
+      );
+    });
+  });
+
+  // ── Combined ──
+  describe("combined formatting", () => {
+    it("handles mixed text with code block", () => {
+      const md = "Here is code:\n\n```python\ndef hello():\n    pass\n```\n\nDone.";
+      const expected = [
+        "Here is code:",
+        "",
+        '<pre><code class="language-python">def hello():\n    pass</code></pre>',
+        "",
+        "Done.",
+      ].join("\n");
+      expect(markdownToTelegramHtml(md)).toBe(expected);
+    });
+
+    it("handles bold with inline code", () => {
+      expect(markdownToTelegramHtml("**run** `npm test`")).toBe(
+        "<b>run</b> <code>npm test</code>",
+      );
+    });
+
+    it("escapes HTML in regular text", () => {
+      expect(markdownToTelegramHtml("1 < 2 & 3 > 0")).toBe(
+        "1 &lt; 2 &amp; 3 &gt; 0",
+      );
+    });
+  });
+});
+
+// ─── Other Renderers ────────────────────────────────────────────────────────
+// Same inputs as the Telegram cases above, rendered for every other platform.
+
+type Case = { name: string; md: string; whatsapp: string; discord: string; plain: string };
+
+const CASES: Case[] = [
+  // Code blocks
+  {
+    name: "fenced code block with language",
+    md: '```python\nprint("hello")\n```',
+    whatsapp: '```\nprint("hello")\n```',
+    discord: '```python\nprint("hello")\n```',
+    plain: 'print("hello")',
+  },
+  {
+    name: "fenced code block without language",
+    md: "```\nsome code\n```",
+    whatsapp: "```\nsome code\n```",
+    discord: "```\nsome code\n```",
+    plain: "some code",
+  },
+  {
+    name: "HTML inside code blocks is left alone",
+    md: "```\n<div>test</div>\n```",
+    whatsapp: "```\n<div>test</div>\n```",
+    discord: "```\n<div>test</div>\n```",
+    plain: "<div>test</div>",
+  },
+  {
+    name: "multiline code block",
+    md: "```js\nconst a = 1;\nconst b = 2;\n```",
+    whatsapp: "```\nconst a = 1;\nconst b = 2;\n```",
+    discord: "```js\nconst a = 1;\nconst b = 2;\n```",
+    plain: "const a = 1;\nconst b = 2;",
+  },
+  {
+    name: "unclosed code block",
+    md: "```python\nprint('hi')",
+    whatsapp: "```\nprint('hi')\n```",
+    discord: "```python\nprint('hi')\n```",
+    plain: "print('hi')",
+  },
+  {
+    name: "no inline formatting inside code blocks",
+    md: "```\n**bold** and *italic*\n```",
+    whatsapp: "```\n**bold** and *italic*\n```",
+    discord: "```\n**bold** and *italic*\n```",
+    plain: "**bold** and *italic*",
+  },
+  // Inline code
+  {
+    name: "inline code",
+    md: "use `npm install`",
+    whatsapp: "use `npm install`",
+    discord: "use `npm install`",
+    plain: "use npm install",
+  },
+  {
+    name: "no formatting inside inline code",
+    md: "`**not bold**`",
+    whatsapp: "`**not bold**`",
+    discord: "`**not bold**`",
+    plain: "**not bold**",
+  },
+  // Emphasis
+  { name: "**bold**", md: "**bold text**", whatsapp: "*bold text*", discord: "**bold text**", plain: "bold text" },
+  { name: "__bold__", md: "__bold text__", whatsapp: "*bold text*", discord: "**bold text**", plain: "bold text" },
+  { name: "*italic*", md: "*italic text*", whatsapp: "_italic text_", discord: "*italic text*", plain: "italic text" },
+  {
+    name: "_italic_ not surrounded by alnum",
+    md: "this is _italic_ text",
+    whatsapp: "this is _italic_ text",
+    discord: "this is *italic* text",
+    plain: "this is italic text",
+  },
+  {
+    name: "underscores in identifiers",
+    md: "file_name_here",
+    whatsapp: "file_name_here",
+    discord: "file_name_here",
+    plain: "file_name_here",
+  },
+  { name: "~~strike~~", md: "~~deleted~~", whatsapp: "~deleted~", discord: "~~deleted~~", plain: "deleted" },
+  { name: "||spoiler||", md: "||spoiler||", whatsapp: "spoiler", discord: "||spoiler||", plain: "spoiler" },
+  // Links
+  {
+    name: "[text](url)",
+    md: "[click](https://example.com)",
+    whatsapp: "click (https://example.com)",
+    discord: "[click](https://example.com)",
+    plain: "click (https://example.com)",
+  },
+  {
+    name: "link with query params",
+    md: "[link](https://example.com?a=1&b=2)",
+    whatsapp: "link (https://example.com?a=1&b=2)",
+    discord: "[link](https://example.com?a=1&b=2)",
+    plain: "link (https://example.com?a=1&b=2)",
+  },
+  // Blockquotes
+  {
+    name: "single-line blockquote",
+    md: "> quoted text",
+    whatsapp: "> quoted text",
+    discord: "> quoted text",
+    plain: "quoted text",
+  },
+  {
+    name: "consecutive blockquote lines",
+    md: "> line 1\n> line 2\n> line 3",
+    whatsapp: "> line 1\n> line 2\n> line 3",
+    discord: "> line 1\n> line 2\n> line 3",
+    plain: "line 1\nline 2\nline 3",
+  },
+  {
+    name: "blockquote followed by regular text",
+    md: "> quote\nregular",
+    whatsapp: "> quote\nregular",
+    discord: "> quote\nregular",
+    plain: "quote\nregular",
+  },
+  // Headers
+  { name: "# header", md: "# Title", whatsapp: "*Title*", discord: "# Title", plain: "Title" },
+  { name: "## header", md: "## Subtitle", whatsapp: "*Subtitle*", discord: "## Subtitle", plain: "Subtitle" },
+  {
+    name: "inline formatting inside headers",
+    md: "## The `code` header",
+    whatsapp: "*The `code` header*",
+    discord: "## The `code` header",
+    plain: "The code header",
+  },
+  // Combined
+  {
+    name: "mixed text with code block",
+    md: "Here is code:\n\n```python\ndef hello():\n    pass\n```\n\nDone.",
+    whatsapp: "Here is code:\n\n```\ndef hello():\n    pass\n```\n\nDone.",
+    discord: "Here is code:\n\n```python\ndef hello():\n    pass\n```\n\nDone.",
+    plain: "Here is code:\n\ndef hello():\n    pass\n\nDone.",
+  },
+  {
+    name: "bold with inline code",
+    md: "**run** `npm test`",
+    whatsapp: "*run* `npm test`",
+    discord: "**run** `npm test`",
+    plain: "run npm test",
+  },
+  {
+    name: "HTML characters in regular text",
+    md: "1 < 2 & 3 > 0",
+    whatsapp: "1 < 2 & 3 > 0",
+    discord: "1 < 2 & 3 > 0",
+    plain: "1 < 2 & 3 > 0",
+  },
+];
+
+describe("markdownToWhatsApp", () => {
+  it.each(CASES)("$name", ({ md, whatsapp }) => {
+    expect(markdownToWhatsApp(md)).toBe(whatsapp);
+  });
+});
+
+describe("markdownToDiscord", () => {
+  it.each(CASES)("$name", ({ md, discord }) => {
+    expect(markdownToDiscord(md)).toBe(discord);
+  });
+
+  it("caps heading depth at Discord's ###", () => {
+    expect(markdownToDiscord("##### Deep")).toBe("### Deep");
+  });
+});
+
+describe("markdownToPlainText", () => {
+  it.each(CASES)("$name", ({ md, plain }) => {
+    expect(markdownToPlainText(md)).toBe(plain);
+  });
+
+  it("collapses links whose text is the url", () => {
+    expect(markdownToPlainText("[https://a.io](https://a.io)")).toBe("https://a.io");
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses nested inline formatting", () => {
+    expect(parseMarkdown("**bold _and italic_**")).toEqual([
+      {
+        type: "line",
+        children: [
+          {
+            type: "bold",
+            children: [
+              { type: "text", value: "bold " },
+              { type: "italic", children: [{ type: "text", value: "and italic" }] },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("treats unmatched delimiters as text", () => {
+    expect(parseMarkdown("2 * 3 = 6")).toEqual([
+      { type: "line", children: [{ type: "text", value: "2 * 3 = 6" }] },
+    ]);
+  });
+});
+
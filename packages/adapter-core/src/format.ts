@@ -0,0 +1,211 @@
+/**
+ * Per-platform renderers for the Markdown AST (see markdown.ts).
+ *
+ * - Telegram: Bot API HTML (<b>, <i>, <code>, <pre>, <blockquote>, <tg-spoiler>)
+ *   @see https://core.telegram.org/bots/api#html-style
+ * - WhatsApp: *bold*, _italic_, ~strike~, `code`, ``` blocks; links as "text (url)"
+ * - Discord: normalized Markdown (__bold__ would render as underline there)
+ * - Plain: all formatting stripped
+ */
+
+import { parseMarkdown, type BlockNode, type InlineNode } from "./markdown.js";
+
+export type FormatTarget = "telegram" | "whatsapp" | "discord" | "plain";
+
+type Renderer = {
+  inline: (node: InlineNode, render: (nodes: InlineNode[]) => string) => string;
+  block: (node: BlockNode, render: (nodes: InlineNode[]) => string) => string;
+};
+
+// ─── HTML Escaping ───────────────────────────────────────────────────────────
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function escapeHtmlAttr(text: string): string {
+  return escapeHtml(text).replace(/"/g, "&quot;");
+}
+
+/** Plain-text view of inline nodes (used where a platform has no markup) */
+function inlineText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => ("value" in node ? node.value : inlineText(node.children)))
+    .join("");
+}
+
+/** "text (url)", collapsing to just the url when they are the same */
+function linkWithUrl(text: string, url: string): string {
+  return text === url ? url : `${text} (${url})`;
+}
+
+// ─── Renderers ──────────────────────────────────────────────────────────────
+
+const telegramHtml: Renderer = {
+  inline(node, render) {
+    switch (node.type) {
+      case "text":
+        return escapeHtml(node.value);
+      case "code":
+        return `<code>${escapeHtml(node.value)}</code>`;
+      case "bold":
+        return `<b>${render(node.children)}</b>`;
+      case "italic":
+        return `<i>${render(node.children)}</i>`;
+      case "strike":
+        return `<s>${render(node.children)}</s>`;
+      case "spoiler":
+        return `<tg-spoiler>${render(node.children)}</tg-spoiler>`;
+      case "link":
+        return `<a href="${escapeHtmlAttr(node.url)}">${render(node.children)}</a>`;
+    }
+  },
+  block(node, render) {
+    switch (node.type) {
+      case "line":
+        return render(node.children);
+      case "heading":
+        return `<b>${render(node.children)}</b>`;
+      case "codeBlock": {
+        const langAttr = node.lang ? ` class="language-${escapeHtmlAttr(node.lang)}"` : "";
+        return `<pre><code${langAttr}>${escapeHtml(node.value)}</code></pre>`;
+      }
+      case "blockquote":
+        return `<blockquote>${node.lines.map(render).join("\n")}</blockquote>`;
+    }
+  },
+};
+
+const whatsapp: Renderer = {
+  inline(node, render) {
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "code":
+        return `\`${node.value}\``;
+      case "bold":
+        return `*${render(node.children)}*`;
+      case "italic":
+        return `_${render(node.children)}_`;
+      case "strike":
+        return `~${render(node.children)}~`;
+      case "spoiler":
+        // No spoiler markup on WhatsApp
+        return render(node.children);
+      case "link":
+        return linkWithUrl(render(node.children), node.url);
+    }
+  },
+  block(node, render) {
+    switch (node.type) {
+      case "line":
+        return render(node.children);
+      case "heading":
+        return `*${render(node.children)}*`;
+      case "codeBlock":
+        return "```\n" + node.value + "\n```";
+      case "blockquote":
+        return node.lines.map((line) => `> ${render(line)}`).join("\n");
+    }
+  },
+};
+
+const discord: Renderer = {
+  inline(node, render) {
+    switch (node.type) {
+      case "text":
+        return node.value;
+      case "code":
+        return `\`${node.value}\``;
+      case "bold":
+        return `**${render(node.children)}**`;
+      case "italic":
+        return `*${render(node.children)}*`;
+      case "strike":
+        return `~~${render(node.children)}~~`;
+      case "spoiler":
+        return `||${render(node.children)}||`;
+      case "link":
+        return `[${render(node.children)}](${node.url})`;
+    }
+  },
+  block(node, render) {
+    switch (node.type) {
+      case "line":
+        return render(node.children);
+      case "heading":
+        return `${"#".repeat(Math.min(node.level, 3))} ${render(node.children)}`;
+      case "codeBlock":
+        return "```" + node.lang + "\n" + node.value + "\n```";
+      case "blockquote":
+        return node.lines.map((line) => `> ${render(line)}`).join("\n");
+    }
+  },
+};
+
+const plain: Renderer = {
+  inline(node, render) {
+    switch (node.type) {
+      case "text":
+      case "code":
+        return node.value;
+      case "link":
+        return linkWithUrl(inlineText(node.children), node.url);
+      default:
+        return render(node.children);
+    }
+  },
+  block(node, render) {
+    switch (node.type) {
+      case "line":
+      case "heading":
+        return render(node.children);
+      case "codeBlock":
+        return node.value;
+      case "blockquote":
+        return node.lines.map(render).join("\n");
+    }
+  },
+};
+
+const RENDERERS: Record<FormatTarget, Renderer> = {
+  telegram: telegramHtml,
+  whatsapp,
+  discord,
+  plain,
+};
+
+// ─── Public API ─────────────────────────────────────────────────────────────
+
+/** Render parsed Markdown blocks for a platform */
+export function renderBlocks(blocks: BlockNode[], target: FormatTarget): string {
+  const renderer = RENDERERS[target];
+  const render = (nodes: InlineNode[]): string =>
+    nodes.map((node) => renderer.inline(node, render)).join("");
+
+  return blocks.map((block) => renderer.block(block, render)).join("\n");
+}
+
+/** Parse Markdown once and render it for a platform */
+export function formatMarkdown(markdown: string, target: FormatTarget): string {
+  return renderBlocks(parseMarkdown(markdown), target);
+}
+
+export function markdownToTelegramHtml(markdown: string): string {
+  return formatMarkdown(markdown, "telegram");
+}
+
+export function markdownToWhatsApp(markdown: string): string {
+  return formatMarkdown(markdown, "whatsapp");
+}
+
+export function markdownToDiscord(markdown: string): string {
+  return formatMarkdown(markdown, "discord");
+}
+
+export function markdownToPlainText(markdown: string): string {
+  return formatMarkdown(markdown, "plain");
+}
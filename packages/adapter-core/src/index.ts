@@ -1,3 +1,6 @@
 export * from "./types.js";
 export * from "./events.js";
 export * from "./adapter.js";
+export * from "./chunk.js";
+export * from "./markdown.js";
+export * from "./format.js";
@@ -0,0 +1,194 @@
+/**
+ * Markdown → intermediate AST.
+ *
+ * The agent writes Markdown; every platform wants something slightly
+ * different (Telegram HTML, WhatsApp markup, Discord Markdown, plain text).
+ * parseMarkdown() reads the text once into a small line-oriented AST that the
+ * renderers in format.ts walk, so each platform only has to decide how a node
+ * looks, not how to find it.
+ *
+ * Block level is a line-by-line state machine (code fences, blockquotes,
+ * headers, plain lines); inline level is a small recursive scanner for code,
+ * links, bold, italic, strikethrough and spoilers.
+ */
+
+// ─── AST ────────────────────────────────────────────────────────────────────
+
+export type InlineNode =
+  | { type: "text"; value: string }
+  | { type: "code"; value: string }
+  | { type: "bold" | "italic" | "strike" | "spoiler"; children: InlineNode[] }
+  | { type: "link"; url: string; children: InlineNode[] };
+
+export type BlockNode =
+  /** A regular line of text; an empty children array is a blank line */
+  | { type: "line"; children: InlineNode[] }
+  | { type: "heading"; level: number; children: InlineNode[] }
+  | { type: "codeBlock"; lang: string; value: string }
+  | { type: "blockquote"; lines: InlineNode[][] };
+
+// ─── Inline Parsing ─────────────────────────────────────────────────────────
+
+type Delimited = {
+  open: string;
+  close: string;
+  type: "bold" | "italic" | "strike" | "spoiler";
+  /** Underscore emphasis must not touch alphanumerics (file_name_here) */
+  wordBoundary?: boolean;
+};
+
+/** Tried in order at every position; longer delimiters first */
+const DELIMITED: Delimited[] = [
+  { open: "**", close: "**", type: "bold" },
+  { open: "__", close: "__", type: "bold", wordBoundary: true },
+  { open: "~~", close: "~~", type: "strike" },
+  { open: "||", close: "||", type: "spoiler" },
+  { open: "*", close: "*", type: "italic" },
+  { open: "_", close: "_", type: "italic", wordBoundary: true },
+];
+
+const ALNUM_RE = /[a-zA-Z0-9]/;
+const LINK_RE = /^\[([^\]]+)\]\(([^)]+)\)/;
+const INLINE_CODE_RE = /^`([^`\n]+)`/;
+
+function findClose(text: string, from: number, d: Delimited): number {
+  // Content must be at least one character long
+  let idx = text.indexOf(d.close, from + 1);
+  while (idx !== -1) {
+    const after = text[idx + d.close.length];
+    if (!d.wordBoundary || !after || !ALNUM_RE.test(after)) return idx;
+    idx = text.indexOf(d.close, idx + 1);
+  }
+  return -1;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let plain = "";
+  let i = 0;
+
+  const flushText = () => {
+    if (plain) {
+      nodes.push({ type: "text", value: plain });
+      plain = "";
+    }
+  };
+
+  outer: while (i < text.length) {
+    const rest = text.slice(i);
+
+    // Inline code: contents are never formatted
+    const code = rest.match(INLINE_CODE_RE);
+    if (code) {
+      flushText();
+      nodes.push({ type: "code", value: code[1] });
+      i += code[0].length;
+      continue;
+    }
+
+    // Links: [text](url)
+    const link = rest.match(LINK_RE);
+    if (link) {
+      flushText();
+      nodes.push({ type: "link", url: link[2], children: parseInline(link[1]) });
+      i += link[0].length;
+      continue;
+    }
+
+    for (const d of DELIMITED) {
+      if (!rest.startsWith(d.open)) continue;
+      if (d.wordBoundary && i > 0 && ALNUM_RE.test(text[i - 1])) continue;
+
+      const start = i + d.open.length;
+      const close = findClose(text, start, d);
+      if (close === -1) continue;
+
+      flushText();
+      nodes.push({ type: d.type, children: parseInline(text.slice(start, close)) });
+      i = close + d.close.length;
+      continue outer;
+    }
+
+    plain += text[i];
+    i++;
+  }
+
+  flushText();
+  return nodes;
+}
+
+// ─── Block Parsing ──────────────────────────────────────────────────────────
+
+/**
+ * Parse Markdown into block nodes. Every input line maps to one block (or
+ * to a line inside a code block / blockquote), so renderers that join blocks
+ * with "\n" preserve the original line structure.
+ */
+export function parseMarkdown(markdown: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+
+  let inCodeBlock = false;
+  let codeBlockLang = "";
+  let codeBlockLines: string[] = [];
+
+  // Blockquote accumulator
+  let blockquoteLines: InlineNode[][] = [];
+
+  const flushBlockquote = () => {
+    if (blockquoteLines.length > 0) {
+      blocks.push({ type: "blockquote", lines: blockquoteLines });
+      blockquoteLines = [];
+    }
+  };
+
+  for (const line of markdown.split("\n")) {
+    // ── Code fence detection ──
+    const fenceMatch = line.match(/^```([\w+-]*)\s*$/);
+
+    if (fenceMatch && !inCodeBlock) {
+      flushBlockquote();
+      inCodeBlock = true;
+      codeBlockLang = fenceMatch[1];
+      codeBlockLines = [];
+      continue;
+    }
+
+    if (inCodeBlock && /^```\s*$/.test(line)) {
+      inCodeBlock = false;
+      blocks.push({ type: "codeBlock", lang: codeBlockLang, value: codeBlockLines.join("\n") });
+      continue;
+    }
+
+    if (inCodeBlock) {
+      codeBlockLines.push(line);
+      continue;
+    }
+
+    // ── Blockquote: > text ──
+    const bqMatch = line.match(/^>\s?(.*)/);
+    if (bqMatch) {
+      blockquoteLines.push(parseInline(bqMatch[1]));
+      continue;
+    }
+    flushBlockquote();
+
+    // ── Header: # text ──
+    const headerMatch = line.match(/^(#{1,6})\s+(.+)/);
+    if (headerMatch) {
+      blocks.push({ type: "heading", level: headerMatch[1].length, children: parseInline(headerMatch[2]) });
+      continue;
+    }
+
+    // ── Regular line ──
+    blocks.push({ type: "line", children: parseInline(line) });
+  }
+
+  // Handle unclosed code block
+  if (inCodeBlock) {
+    blocks.push({ type: "codeBlock", lang: codeBlockLang, value: codeBlockLines.join("\n") });
+  }
+
+  flushBlockquote();
+
+  return blocks;
+}
@@ -40,6 +40,10 @@ export type ChannelMessage = {
   media?: MessageMedia[];
   replyToId?: string;
   threadId?: string;
+  /** The bot was @-mentioned (or addressed via /command@bot) */
+  mentionsSelf?: boolean;
+  /** The message replies to one of the bot's own messages */
+  repliesToSelf?: boolean;
   timestamp: number;
   raw?: unknown;
 };
@@ -51,6 +55,14 @@ export type MessageMedia = {
   mimeType?: string;
   fileName?: string;
   caption?: string;
+  /** Size in bytes as reported by the platform, if known */
+  size?: number;
+  /**
+   * Inbound only: fetch the content on demand. Adapters set this instead of
+   * downloading inside their update handler; the gateway calls it while
+   * persisting, under its size cap and timeout.
+   */
+  load?: (signal: AbortSignal) => Promise<Buffer>;
 };
 
 // Outbound message to send
@@ -70,6 +82,15 @@ export type SendResult = {
   timestamp: number;
 };
 
+// Chat command shown in the platform's command menu
+export type ChatCommand = {
+  /** Lowercase ASCII name without the slash */
+  name: string;
+  description: string;
+  /** Argument hint; adds a free-text argument where the platform needs one declared */
+  usage?: string;
+};
+
 // Channel configuration
 export type ChannelConfig = {
   enabled: boolean;
@@ -92,4 +113,8 @@ export type ChannelAccountSnapshot = {
   lastError?: string | null;
   lastStartAt?: number | null;
   lastStopAt?: number | null;
+  /** Consecutive automatic restart attempts since the last successful connect */
+  reconnectAttempts?: number;
+  /** When the supervisor will try the next restart (null = none scheduled) */
+  nextReconnectAt?: number | null;
 };
@@ -1,6 +1,8 @@
 import {
+  ApplicationCommandOptionType,
   Client,
   GatewayIntentBits,
+  type ChatInputCommandInteraction,
   type Message as DiscordMessage,
   type TextChannel,
 } from "discord.js";
@@ -10,8 +12,12 @@ import {
   type ChannelMeta,
   type ChannelCapabilities,
   type ChannelMessage,
+  type ChatCommand,
   type OutboundMessage,
   type SendResult,
+  chunkMarkdown,
+  markdownToDiscord,
+  PLATFORM_CHUNK_OPTIONS,
 } from "@open-claude-code/adapter-core";
 
 export class DiscordAdapter extends ChannelAdapter {
@@ -68,6 +74,12 @@ export class DiscordAdapter extends ChannelAdapter {
       console.log(`[discord] Bot ready as ${readyClient.user.tag}`);
     });
 
+    // discord.js resumes dropped shards itself; an invalidated session is final
+    this.client.on("invalidated", () => {
+      this.updateStatus({ connected: false, lastDisconnectedAt: Date.now() });
+      this.emit("disconnected", this.getStatus(), "session invalidated");
+    });
+
     // Message handler
     this.client.on("messageCreate", (discordMsg: DiscordMessage) => {
       // Ignore bot messages
@@ -92,6 +104,8 @@ export class DiscordAdapter extends ChannelAdapter {
         chatType,
         text: discordMsg.content || undefined,
         replyToId: discordMsg.reference?.messageId ?? undefined,
+        mentionsSelf: !!this.client?.user && discordMsg.mentions.users.has(this.client.user.id),
+        repliesToSelf: !!this.client?.user && discordMsg.mentions.repliedUser?.id === this.client.user.id,
         threadId: discordMsg.channel.isThread?.() ? discordMsg.channelId : undefined,
         timestamp: discordMsg.createdTimestamp,
         raw: {
@@ -116,6 +130,14 @@ export class DiscordAdapter extends ChannelAdapter {
       this.emit("message", msg);
     });
 
+    // Slash commands arrive as interactions; echo them and hand them on as chat text
+    this.client.on("interactionCreate", (interaction) => {
+      if (!interaction.isChatInputCommand()) return;
+      this.handleCommandInteraction(interaction, config.accountId).catch((err) => {
+        this.emit("error", err instanceof Error ? err : new Error(String(err)), "interaction");
+      });
+    });
+
     // Error handling
     this.client.on("error", (err) => {
       this.emit("error", err, "client");
@@ -143,6 +165,58 @@ export class DiscordAdapter extends ChannelAdapter {
     await this.client.login(token);
   }
 
+  /** Register the commands as global application commands (one optional free-text argument each) */
+  async setCommands(commands: ChatCommand[]): Promise<void> {
+    if (!this.client?.application) return;
+    await this.client.application.commands.set(
+      commands.map((command) => ({
+        name: command.name,
+        description: command.description,
+        options: command.usage
+          ? [{ type: ApplicationCommandOptionType.String, name: "args", description: command.usage, required: false }]
+          : [],
+      })),
+    );
+  }
+
+  /** Turn a slash-command interaction into a "/name args" chat message */
+  private async handleCommandInteraction(interaction: ChatInputCommandInteraction, accountId: string): Promise<void> {
+    const args = interaction.options.getString("args")?.trim();
+    const text = args ? `/${interaction.commandName} ${args}` : `/${interaction.commandName}`;
+
+    // Interactions must be answered within 3 seconds; the reply follows as a normal message
+    await interaction.reply({ content: text });
+
+    const isDm = !interaction.guildId;
+    const msg: ChannelMessage = {
+      id: interaction.id,
+      channel: "discord",
+      accountId,
+      from: {
+        id: interaction.user.id,
+        name: interaction.member && "displayName" in interaction.member
+          ? interaction.member.displayName
+          : interaction.user.displayName,
+        username: interaction.user.username,
+      },
+      to: {
+        id: interaction.channelId,
+        name: interaction.channel && "name" in interaction.channel ? (interaction.channel.name ?? undefined) : undefined,
+      },
+      chatType: isDm ? "dm" : (interaction.channel?.isThread() ? "channel" : "group"),
+      text,
+      // A slash command is always addressed to this bot
+      mentionsSelf: true,
+      threadId: interaction.channel?.isThread() ? interaction.channelId : undefined,
+      timestamp: interaction.createdTimestamp,
+      raw: {
+        guildId: interaction.guildId,
+        guildName: interaction.guild?.name,
+      },
+    };
+    this.emit("message", msg);
+  }
+
   async sendTyping(chatId: string): Promise<void> {
     if (!this.client) return;
     try {
@@ -177,20 +251,35 @@ export class DiscordAdapter extends ChannelAdapter {
 
       const textChannel = channel as TextChannel;
 
-      const options: Record<string, unknown> = {};
-      if (msg.replyToId) {
-        options.reply = { messageId: msg.replyToId };
-      }
+      // Attachments go out with the first chunk; their captions join the text
+      const files = (msg.media ?? []).flatMap((media) => {
+        const attachment = media.buffer ?? media.url;
+        return attachment ? [{ attachment, name: media.fileName }] : [];
+      });
+      const content = [msg.text, ...(msg.media ?? []).map((media) => media.caption)]
+        .filter((part): part is string => !!part)
+        .join("\n\n");
+
+      const chunks = content ? chunkMarkdown(markdownToDiscord(content), PLATFORM_CHUNK_OPTIONS.discord) : [];
+      if (chunks.length === 0 && files.length > 0) chunks.push("");
 
-      if (msg.text) {
-        const result = await textChannel.send({ content: msg.text, ...options });
-        return {
+      let lastResult: SendResult | null = null;
+      for (let i = 0; i < chunks.length; i++) {
+        const result = await textChannel.send({
+          ...(chunks[i] ? { content: chunks[i] } : {}),
+          ...(i === 0 && files.length > 0 ? { files } : {}),
+          // Only the first chunk is a reply
+          ...(i === 0 && msg.replyToId ? { reply: { messageReference: msg.replyToId } } : {}),
+        });
+        lastResult = {
           success: true,
           messageId: result.id,
           timestamp: result.createdTimestamp,
         };
       }
 
+      if (lastResult) return lastResult;
+
       return { success: false, error: "No content to send", timestamp: Date.now() };
     } catch (err) {
       return {
@@ -200,6 +289,32 @@ export class DiscordAdapter extends ChannelAdapter {
       };
     }
   }
+
+  async editMessage(chatId: string, messageId: string, text: string): Promise<SendResult> {
+    if (!this.client) {
+      return { success: false, error: "Client not started", timestamp: Date.now() };
+    }
+
+    try {
+      const channel = await this.client.channels.fetch(chatId);
+      if (!channel || !("messages" in channel)) {
+        return { success: false, error: `Channel ${chatId} not found or not a text channel`, timestamp: Date.now() };
+      }
+
+      const result = await (channel as TextChannel).messages.edit(messageId, { content: markdownToDiscord(text) });
+      return {
+        success: true,
+        messageId: result.id,
+        timestamp: result.editedTimestamp ?? Date.now(),
+      };
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: Date.now(),
+      };
+    }
+  }
 }
 
 export default DiscordAdapter;
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ChannelMessage } from "@open-claude-code/adapter-core";
+import { TelegramAdapter } from "./index.js";
+
+const mocks = vi.hoisted(() => ({
+  apiCalls: [] as Array<{ method: string; payload: unknown }>,
+}));
+
+const BOT_INFO = {
+  id: 777,
+  is_bot: true as const,
+  first_name: "Gateway",
+  username: "gateway_bot",
+  can_join_groups: true,
+  can_read_all_group_messages: false,
+  supports_inline_queries: false,
+  can_connect_to_business: false,
+  has_main_web_app: false,
+};
+
+// Bot API calls are answered locally; nothing goes to Telegram
+vi.mock("grammy", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("grammy")>();
+  class TestBot extends actual.Bot {
+    constructor(token: string) {
+      super(token, { botInfo: BOT_INFO });
+      this.api.config.use(async (_prev, method, payload) => {
+        mocks.apiCalls.push({ method, payload });
+        const result = method === "getMe" ? BOT_INFO : method === "getFile" ? { file_id: "f1", file_path: "photos/f1.jpg" } : true;
+        return { ok: true, result } as never;
+      });
+    }
+  }
+  return { ...actual, Bot: TestBot };
+});
+
+const WEBHOOK_CONFIG = {
+  accountId: "default",
+  enabled: true,
+  botToken: "123:abc",
+  mode: "webhook",
+  webhookUrl: "https://gateway.example.com/webhook/telegram",
+  webhookSecret: "s3cret",
+};
+
+function update(text: string) {
+  return {
+    update_id: 1,
+    message: {
+      message_id: 10,
+      date: 1_700_000_000,
+      chat: { id: 42, type: "private", first_name: "Alice" },
+      from: { id: 42, is_bot: false, first_name: "Alice" },
+      text,
+    },
+  };
+}
+
+function webhookRequest(body: unknown, secret?: string): Request {
+  return new Request("https://gateway.example.com/webhook/telegram", {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(secret ? { "x-telegram-bot-api-secret-token": secret } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("TelegramAdapter webhook mode", () => {
+  let adapter: TelegramAdapter;
+  let received: ChannelMessage[];
+
+  beforeEach(async () => {
+    mocks.apiCalls = [];
+    received = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    adapter = new TelegramAdapter();
+    adapter.on("message", (msg: ChannelMessage) => received.push(msg));
+    await adapter.start(WEBHOOK_CONFIG, new AbortController().signal);
+  });
+
+  afterEach(async () => {
+    await adapter.stop();
+    vi.restoreAllMocks();
+  });
+
+  it("registers the webhook with the secret token", () => {
+    expect(mocks.apiCalls).toContainEqual({
+      method: "setWebhook",
+      payload: expect.objectContaining({ url: WEBHOOK_CONFIG.webhookUrl, secret_token: "s3cret" }),
+    });
+  });
+
+  it("rejects requests without the secret token", async () => {
+    const res = await adapter.handleWebhook(webhookRequest(update("hi")));
+
+    expect(res.status).toBe(401);
+    expect(received).toEqual([]);
+  });
+
+  it("rejects requests with a wrong secret token", async () => {
+    const res = await adapter.handleWebhook(webhookRequest(update("hi"), "guess"));
+
+    expect(res.status).toBe(401);
+    expect(received).toEqual([]);
+  });
+
+  it("dispatches a valid update as a channel message", async () => {
+    const res = await adapter.handleWebhook(webhookRequest(update("hello bot"), "s3cret"));
+
+    expect(res.status).toBe(200);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      id: "10",
+      channel: "telegram",
+      from: { id: "42", name: "Alice" },
+      chatType: "dm",
+      text: "hello bot",
+    });
+  });
+
+  it("dispatches media messages without downloading in the update handler", async () => {
+    const body = update("");
+    const photoUpdate = {
+      ...body,
+      message: { ...body.message, text: undefined, caption: "look", photo: [{ file_id: "f1", file_unique_id: "u1", width: 90, height: 90, file_size: 2048 }] },
+    };
+
+    await adapter.handleWebhook(webhookRequest(photoUpdate, "s3cret"));
+
+    expect(received).toHaveLength(1);
+    expect(mocks.apiCalls.map((call) => call.method)).not.toContain("getFile");
+    const [media] = received[0].media!;
+    expect(media).toMatchObject({ type: "image", caption: "look", size: 2048 });
+
+    const fetchMock = vi.fn(async () => new Response("jpeg-bytes"));
+    vi.stubGlobal("fetch", fetchMock);
+    try {
+      const data = await media.load!(new AbortController().signal);
+      expect(data.toString()).toBe("jpeg-bytes");
+      expect(fetchMock).toHaveBeenCalledWith("https://api.telegram.org/file/bot123:abc/photos/f1.jpg", expect.anything());
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("deletes the webhook and stops accepting updates when stopped", async () => {
+    await adapter.stop();
+
+    expect(mocks.apiCalls.map((call) => call.method)).toContain("deleteWebhook");
+    const res = await adapter.handleWebhook(webhookRequest(update("late"), "s3cret"));
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("TelegramAdapter without webhook mode", () => {
+  it("answers webhook requests with 404", async () => {
+    const res = await new TelegramAdapter().handleWebhook(webhookRequest(update("hi"), "s3cret"));
+    expect(res.status).toBe(404);
+  });
+});
@@ -1,15 +1,19 @@
-import { Bot, type Context } from "grammy";
+import { Bot, InputFile, webhookCallback, type Context } from "grammy";
+import { randomBytes } from "node:crypto";
 import {
   ChannelAdapter,
   type ChannelConfig,
   type ChannelMeta,
   type ChannelCapabilities,
   type ChannelMessage,
+  type ChatCommand,
+  type MessageMedia,
   type OutboundMessage,
   type SendResult,
+  chunkMarkdown,
+  markdownToTelegramHtml,
+  PLATFORM_CHUNK_OPTIONS,
 } from "@open-claude-code/adapter-core";
-import { markdownToTelegramHtml } from "./format.js";
-import { chunkMarkdown } from "./chunk.js";
 
 export class TelegramAdapter extends ChannelAdapter {
   readonly id = "telegram";
@@ -31,6 +35,10 @@ export class TelegramAdapter extends ChannelAdapter {
   };
 
   private bot: Bot | null = null;
+  /** Bot identity from getMe, used to detect mentions and replies */
+  private self: { id: number; username: string } | null = null;
+  /** Set while running in webhook mode (config.mode === "webhook") */
+  private webhookHandler: ((request: Request) => Promise<Response>) | null = null;
 
   async start(config: ChannelConfig, signal: AbortSignal): Promise<void> {
     const token = config.botToken as string;
@@ -46,7 +54,7 @@ export class TelegramAdapter extends ChannelAdapter {
     };
 
     // Handle incoming messages
-    this.bot.on("message", (ctx: Context) => {
+    this.bot.on("message", async (ctx: Context) => {
       if (!ctx.message) return;
 
       const msg: ChannelMessage = {
@@ -65,31 +73,41 @@ export class TelegramAdapter extends ChannelAdapter {
         chatType: ctx.message.chat.type === "private" ? "dm" : "group",
         text: ctx.message.text ?? ctx.message.caption,
         replyToId: ctx.message.reply_to_message ? String(ctx.message.reply_to_message.message_id) : undefined,
+        mentionsSelf: this.mentionsSelf(ctx.message),
+        repliesToSelf: !!this.self && ctx.message.reply_to_message?.from?.id === this.self.id,
         timestamp: ctx.message.date * 1000,
         raw: ctx.message,
       };
 
-      // Handle media
+      // Handle media (fetched lazily by the gateway, so slow downloads don't hold up other updates)
       if (ctx.message.photo) {
         const largest = ctx.message.photo[ctx.message.photo.length - 1];
         msg.media = [{
           type: "image",
           mimeType: "image/jpeg",
           caption: ctx.message.caption,
+          size: largest.file_size,
+          load: (signal) => this.downloadFile(token, largest.file_id, signal),
         }];
       }
       if (ctx.message.document) {
+        const document = ctx.message.document;
         msg.media = [{
           type: "document",
-          fileName: ctx.message.document.file_name,
-          mimeType: ctx.message.document.mime_type,
+          fileName: document.file_name,
+          mimeType: document.mime_type,
           caption: ctx.message.caption,
+          size: document.file_size,
+          load: (signal) => this.downloadFile(token, document.file_id, signal),
         }];
       }
       if (ctx.message.voice) {
+        const voice = ctx.message.voice;
         msg.media = [{
           type: "audio",
-          mimeType: ctx.message.voice.mime_type ?? "audio/ogg",
+          mimeType: voice.mime_type ?? "audio/ogg",
+          size: voice.file_size,
+          load: (signal) => this.downloadFile(token, voice.file_id, signal),
         }];
       }
 
@@ -104,6 +122,7 @@ export class TelegramAdapter extends ChannelAdapter {
     // Emit connected once bot info is fetched
     try {
       const botInfo = await this.bot.api.getMe();
+      this.self = { id: botInfo.id, username: botInfo.username };
       this.updateStatus({
         connected: true,
         lastConnectedAt: Date.now(),
@@ -114,6 +133,11 @@ export class TelegramAdapter extends ChannelAdapter {
       this.emit("error", err instanceof Error ? err : new Error(String(err)), "getMe");
     }
 
+    if (config.mode === "webhook") {
+      await this.startWebhook(config);
+      return;
+    }
+
     // Start polling (long-running)
     this.bot.start({
       onStart: () => {
@@ -128,15 +152,59 @@ export class TelegramAdapter extends ChannelAdapter {
     });
   }
 
+  /**
+   * Webhook mode: register the public URL with Telegram and accept updates
+   * through handleWebhook() instead of long polling. The secret token is
+   * checked against the X-Telegram-Bot-Api-Secret-Token header.
+   */
+  private async startWebhook(config: ChannelConfig): Promise<void> {
+    const url = config.webhookUrl as string | undefined;
+    if (!url) throw new Error("Telegram webhookUrl is required in webhook mode");
+
+    // Without a configured secret, a fresh one is registered on every start
+    const secret = (config.webhookSecret as string | undefined) ?? randomBytes(32).toString("hex");
+
+    this.webhookHandler = webhookCallback(this.bot!, "std/http", {
+      secretToken: secret,
+      // Answer Telegram before a slow handler triggers a redelivery
+      onTimeout: "return",
+    });
+    await this.bot!.api.setWebhook(url, { secret_token: secret });
+    console.log(`[telegram] Webhook registered at ${url}`);
+  }
+
+  async handleWebhook(request: Request): Promise<Response> {
+    if (!this.webhookHandler) {
+      return new Response("Telegram webhook is not active", { status: 404 });
+    }
+    return this.webhookHandler(request);
+  }
+
   async stop(): Promise<void> {
     if (this.bot) {
-      await this.bot.stop();
+      if (this.webhookHandler) {
+        this.webhookHandler = null;
+        try {
+          await this.bot.api.deleteWebhook();
+        } catch (err) {
+          console.warn(`[telegram] Failed to delete webhook: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      } else {
+        await this.bot.stop();
+      }
       this.bot = null;
     }
     this.updateStatus({ running: false, connected: false, lastStopAt: Date.now() });
     this.emit("disconnected", this.getStatus(), "stopped");
   }
 
+  async setCommands(commands: ChatCommand[]): Promise<void> {
+    if (!this.bot) return;
+    await this.bot.api.setMyCommands(
+      commands.map((command) => ({ command: command.name, description: command.description })),
+    );
+  }
+
   async sendTyping(chatId: string): Promise<void> {
     if (!this.bot) return;
     try {
@@ -149,6 +217,12 @@ export class TelegramAdapter extends ChannelAdapter {
   /** Telegram HTML parse error pattern — triggers plain-text fallback */
   private static PARSE_ERR_RE = /can't parse entities|parse entities|find end of the entity/i;
 
+  /** Edit rejected because the text is unchanged — harmless for live edits */
+  private static NOT_MODIFIED_RE = /message is not modified/i;
+
+  /** Telegram caption length limit for media messages */
+  private static CAPTION_LIMIT = 1024;
+
   async send(msg: OutboundMessage): Promise<SendResult> {
     if (!this.bot) {
       return { success: false, error: "Bot not started", timestamp: Date.now() };
@@ -156,26 +230,38 @@ export class TelegramAdapter extends ChannelAdapter {
 
     try {
       const chatId = msg.to;
+      const replyParams = msg.replyToId
+        ? { reply_parameters: { message_id: parseInt(msg.replyToId, 10) } }
+        : {};
 
-      if (msg.text) {
-        const replyParams = msg.replyToId
-          ? { reply_parameters: { message_id: parseInt(msg.replyToId, 10) } }
-          : {};
+      let text = msg.text;
+      let lastResult: SendResult | null = null;
 
+      for (const [i, media] of (msg.media ?? []).entries()) {
+        // Short text rides along as the caption of the first attachment
+        let caption = media.caption;
+        if (i === 0 && !caption && text && text.length <= TelegramAdapter.CAPTION_LIMIT && media.type !== "sticker") {
+          caption = text;
+          text = undefined;
+        }
+        lastResult = await this.sendMedia(chatId, media, caption, i === 0 ? replyParams : {});
+        if (!lastResult.success) return lastResult;
+      }
+
+      if (text) {
         // Chunk markdown then convert each chunk to Telegram HTML
-        const chunks = chunkMarkdown(msg.text);
-        let lastResult: SendResult = { success: false, error: "No chunks", timestamp: Date.now() };
+        const chunks = chunkMarkdown(text, PLATFORM_CHUNK_OPTIONS.telegram);
 
         for (let i = 0; i < chunks.length; i++) {
-          // Only quote-reply the first chunk
-          const params = i === 0 ? replyParams : {};
+          // Only quote-reply the first message
+          const params = i === 0 && !lastResult ? replyParams : {};
           lastResult = await this.sendFormatted(chatId, chunks[i], params);
           if (!lastResult.success) return lastResult;
         }
-
-        return lastResult;
       }
 
+      if (lastResult) return lastResult;
+
       return { success: false, error: "No content to send", timestamp: Date.now() };
     } catch (err) {
       return {
@@ -186,6 +272,123 @@ export class TelegramAdapter extends ChannelAdapter {
     }
   }
 
+  async editMessage(chatId: string, messageId: string, text: string): Promise<SendResult> {
+    if (!this.bot) {
+      return { success: false, error: "Bot not started", timestamp: Date.now() };
+    }
+
+    const id = parseInt(messageId, 10);
+    const edited = (): SendResult => ({ success: true, messageId, timestamp: Date.now() });
+
+    try {
+      await this.bot.api.editMessageText(chatId, id, markdownToTelegramHtml(text), { parse_mode: "HTML" });
+      return edited();
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+      if (TelegramAdapter.NOT_MODIFIED_RE.test(errMsg)) return edited();
+
+      // Same plain-text fallback as sendFormatted()
+      if (TelegramAdapter.PARSE_ERR_RE.test(errMsg)) {
+        try {
+          await this.bot.api.editMessageText(chatId, id, text);
+          return edited();
+        } catch (fallbackErr) {
+          const fallbackMsg = fallbackErr instanceof Error ? fallbackErr.message : String(fallbackErr);
+          if (TelegramAdapter.NOT_MODIFIED_RE.test(fallbackMsg)) return edited();
+          return { success: false, error: fallbackMsg, timestamp: Date.now() };
+        }
+      }
+
+      return { success: false, error: errMsg, timestamp: Date.now() };
+    }
+  }
+
+  /** Whether a message @-mentions the bot or addresses a /command@bot to it */
+  private mentionsSelf(message: NonNullable<Context["message"]>): boolean {
+    if (!this.self) return false;
+    const text = message.text ?? message.caption ?? "";
+    const entities = message.entities ?? message.caption_entities ?? [];
+    const handle = `@${this.self.username}`.toLowerCase();
+
+    return entities.some((entity) => {
+      if (entity.type === "text_mention") return entity.user.id === this.self?.id;
+      if (entity.type !== "mention" && entity.type !== "bot_command") return false;
+      const value = text.slice(entity.offset, entity.offset + entity.length).toLowerCase();
+      return entity.type === "mention" ? value === handle : value.endsWith(handle);
+    });
+  }
+
+  /**
+   * Fetch an inbound file through the Bot API file endpoint.
+   * Returns undefined when the file is unavailable (e.g. over the 20 MB getFile limit).
+   */
+  private async downloadFile(token: string, fileId: string, signal: AbortSignal): Promise<Buffer> {
+    if (!this.bot) throw new Error("Bot not started");
+    const file = await this.bot.api.getFile(fileId);
+    if (!file.file_path) throw new Error(`File ${fileId} is not available for download`);
+
+    const res = await fetch(`https://api.telegram.org/file/bot${token}/${file.file_path}`, { signal });
+    if (!res.ok) throw new Error(`Download of file ${fileId} failed: HTTP ${res.status}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  /**
+   * Upload one attachment with an optional Markdown caption.
+   * Buffers are uploaded as files; URLs are passed for Telegram to fetch.
+   */
+  private async sendMedia(
+    chatId: string,
+    media: MessageMedia,
+    caption: string | undefined,
+    extraParams: Record<string, unknown>,
+  ): Promise<SendResult> {
+    const file = media.buffer ? new InputFile(media.buffer, media.fileName) : media.url;
+    if (!file) {
+      return { success: false, error: `No content for ${media.type} attachment`, timestamp: Date.now() };
+    }
+
+    const api = this.bot!.api;
+    const upload = (params: Record<string, unknown>) => {
+      switch (media.type) {
+        case "image":
+          return api.sendPhoto(chatId, file, params);
+        case "video":
+          return api.sendVideo(chatId, file, params);
+        case "audio":
+          return api.sendAudio(chatId, file, params);
+        case "sticker":
+          return api.sendSticker(chatId, file, extraParams);
+        default:
+          return api.sendDocument(chatId, file, params);
+      }
+    };
+
+    try {
+      const result = await upload(
+        caption ? { ...extraParams, caption: markdownToTelegramHtml(caption), parse_mode: "HTML" } : extraParams,
+      );
+      return { success: true, messageId: String(result.message_id), timestamp: result.date * 1000 };
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : String(err);
+
+      // Same plain-text fallback as sendFormatted(), applied to the caption
+      if (caption && TelegramAdapter.PARSE_ERR_RE.test(errMsg)) {
+        try {
+          const result = await upload({ ...extraParams, caption });
+          return { success: true, messageId: String(result.message_id), timestamp: result.date * 1000 };
+        } catch (fallbackErr) {
+          return {
+            success: false,
+            error: fallbackErr instanceof Error ? fallbackErr.message : String(fallbackErr),
+            timestamp: Date.now(),
+          };
+        }
+      }
+
+      return { success: false, error: errMsg, timestamp: Date.now() };
+    }
+  }
+
   /**
    * Send a single Markdown chunk as Telegram HTML, with plain-text fallback.
    */
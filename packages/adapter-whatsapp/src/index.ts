@@ -1,6 +1,7 @@
 import baileys from "@whiskeysockets/baileys";
-const { makeWASocket, useMultiFileAuthState, DisconnectReason } = baileys;
+const { makeWASocket, useMultiFileAuthState, DisconnectReason, downloadMediaMessage } = baileys;
 type WASocket = ReturnType<typeof makeWASocket>;
+import type { AnyMessageContent, WAMessage } from "@whiskeysockets/baileys";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import { mkdirSync } from "node:fs";
@@ -10,12 +11,27 @@ import {
   type ChannelMeta,
   type ChannelCapabilities,
   type ChannelMessage,
+  type MessageMedia,
   type OutboundMessage,
   type SendResult,
+  chunkMarkdown,
+  markdownToWhatsApp,
+  PLATFORM_CHUNK_OPTIONS,
 } from "@open-claude-code/adapter-core";
 
 const AUTH_DIR = join(homedir(), ".openclaudecode", "whatsapp-auth");
 
+/** Strip the device suffix: "8210...:12@s.whatsapp.net" → "8210...@s.whatsapp.net" */
+function normalizeJid(jid: string): string {
+  return jid.replace(/:\d+@/, "@");
+}
+
+/** Declared media size; protobuf delivers 64-bit lengths as Long */
+function mediaSize(length: number | { toNumber(): number } | null | undefined): number | undefined {
+  if (length === null || length === undefined) return undefined;
+  return typeof length === "number" ? length : length.toNumber();
+}
+
 export class WhatsAppAdapter extends ChannelAdapter {
   readonly id = "whatsapp";
   readonly meta: ChannelMeta = {
@@ -85,7 +101,7 @@ export class WhatsAppAdapter extends ChannelAdapter {
 
       if (connection === "close") {
         const statusCode = lastDisconnect?.error?.output?.statusCode;
-        const shouldReconnect = statusCode !== DisconnectReason.loggedOut;
+        const loggedOut = statusCode === DisconnectReason.loggedOut;
 
         this.updateStatus({
           connected: false,
@@ -93,24 +109,21 @@ export class WhatsAppAdapter extends ChannelAdapter {
           lastError: lastDisconnect?.error?.message ?? "disconnected",
         });
 
-        if (shouldReconnect && !signal.aborted) {
-          console.log(`[whatsapp] Reconnecting...`);
-          // Reconnect after a delay
-          setTimeout(() => {
-            if (!signal.aborted) {
-              this.start(config, signal).catch((err) => {
-                this.emit("error", err instanceof Error ? err : new Error(String(err)), "reconnect");
-              });
-            }
-          }, 3000);
-        } else {
-          this.emit("disconnected", this.getStatus(), "logged out or stopped");
+        // stop() reports its own disconnect; otherwise the ChannelManager
+        // supervisor restarts us with backoff (unless the session was logged out)
+        if (!signal.aborted) {
+          this.emit(
+            "disconnected",
+            this.getStatus(),
+            loggedOut ? "logged out" : (lastDisconnect?.error?.message ?? "connection closed"),
+            !loggedOut,
+          );
         }
       }
     });
 
     // Incoming messages
-    sock.ev.on("messages.upsert", ({ messages, type }: { messages: Array<Record<string, any>>; type: string }) => {
+    sock.ev.on("messages.upsert", async ({ messages, type }: { messages: WAMessage[]; type: string }) => {
       if (type !== "notify") return;
 
       for (const waMsg of messages) {
@@ -149,25 +162,32 @@ export class WhatsAppAdapter extends ChannelAdapter {
           raw: waMsg,
         };
 
-        // Handle media
-        if (waMsg.message.imageMessage) {
+        // Handle media (fetched lazily by the gateway, so slow downloads don't hold up other messages)
+        const { imageMessage, documentMessage, audioMessage } = waMsg.message;
+        if (imageMessage) {
           msg.media = [{
             type: "image",
-            mimeType: waMsg.message.imageMessage.mimetype ?? "image/jpeg",
-            caption: waMsg.message.imageMessage.caption ?? undefined,
+            mimeType: imageMessage.mimetype ?? "image/jpeg",
+            caption: imageMessage.caption ?? undefined,
+            size: mediaSize(imageMessage.fileLength),
+            load: () => this.downloadMedia(waMsg),
           }];
         }
-        if (waMsg.message.documentMessage) {
+        if (documentMessage) {
           msg.media = [{
             type: "document",
-            fileName: waMsg.message.documentMessage.fileName ?? undefined,
-            mimeType: waMsg.message.documentMessage.mimetype ?? undefined,
+            fileName: documentMessage.fileName ?? undefined,
+            mimeType: documentMessage.mimetype ?? undefined,
+            size: mediaSize(documentMessage.fileLength),
+            load: () => this.downloadMedia(waMsg),
           }];
         }
-        if (waMsg.message.audioMessage) {
+        if (audioMessage) {
           msg.media = [{
             type: "audio",
-            mimeType: waMsg.message.audioMessage.mimetype ?? "audio/ogg",
+            mimeType: audioMessage.mimetype ?? "audio/ogg",
+            size: mediaSize(audioMessage.fileLength),
+            load: () => this.downloadMedia(waMsg),
           }];
         }
 
@@ -175,6 +195,17 @@ export class WhatsAppAdapter extends ChannelAdapter {
           msg.replyToId = waMsg.message.extendedTextMessage.contextInfo.stanzaId ?? undefined;
         }
 
+        // Mentions and replies carry the bot's JID (phone number or LID) in contextInfo
+        const contextInfo =
+          waMsg.message.extendedTextMessage?.contextInfo ??
+          waMsg.message.imageMessage?.contextInfo ??
+          waMsg.message.videoMessage?.contextInfo;
+        if (contextInfo) {
+          const selfJids = [sock.user?.id, sock.user?.lid].filter(Boolean).map((id) => normalizeJid(id as string));
+          msg.mentionsSelf = (contextInfo.mentionedJid ?? []).some((id: string) => selfJids.includes(normalizeJid(id)));
+          msg.repliesToSelf = !!contextInfo.participant && selfJids.includes(normalizeJid(contextInfo.participant));
+        }
+
         this.emit("message", msg);
       }
     });
@@ -206,19 +237,39 @@ export class WhatsAppAdapter extends ChannelAdapter {
         jid = `${jid}@s.whatsapp.net`;
       }
 
-      if (msg.text) {
-        const result = await this.socket.sendMessage(jid, {
-          text: msg.text,
-        });
+      let text = msg.text;
+      let lastResult: SendResult | null = null;
 
-        return {
+      for (const [i, media] of (msg.media ?? []).entries()) {
+        // Text rides along as the caption of the first captionable attachment
+        let caption = media.caption;
+        if (i === 0 && !caption && text && WhatsAppAdapter.CAPTIONED.has(media.type)) {
+          caption = text;
+          text = undefined;
+        }
+        const result = await this.socket.sendMessage(jid, this.toMediaContent(media, caption));
+        lastResult = {
           success: true,
           messageId: result?.key?.id ?? undefined,
           timestamp: Date.now(),
         };
       }
 
-      return { success: false, error: "No content to send", timestamp: Date.now() };
+      if (text) {
+        for (const chunk of chunkMarkdown(markdownToWhatsApp(text), PLATFORM_CHUNK_OPTIONS.whatsapp)) {
+          const result = await this.socket.sendMessage(jid, {
+            text: chunk,
+          });
+
+          lastResult = {
+            success: true,
+            messageId: result?.key?.id ?? undefined,
+            timestamp: Date.now(),
+          };
+        }
+      }
+
+      return lastResult ?? { success: false, error: "No content to send", timestamp: Date.now() };
     } catch (err) {
       return {
         success: false,
@@ -227,6 +278,42 @@ export class WhatsAppAdapter extends ChannelAdapter {
       };
     }
   }
+
+  /** Download and decrypt the media of an inbound message */
+  private async downloadMedia(waMsg: WAMessage): Promise<Buffer> {
+    return (await downloadMediaMessage(waMsg, "buffer", {})) as Buffer;
+  }
+
+  /** Media types that support a caption on WhatsApp */
+  private static CAPTIONED = new Set<MessageMedia["type"]>(["image", "video", "document"]);
+
+  /**
+   * Map an attachment to Baileys message content.
+   * Buffers are uploaded directly; URLs are fetched by Baileys.
+   */
+  private toMediaContent(media: MessageMedia, markdownCaption?: string): AnyMessageContent {
+    const caption = markdownCaption ? markdownToWhatsApp(markdownCaption) : undefined;
+    const source = media.buffer ?? (media.url ? { url: media.url } : null);
+    if (!source) throw new Error(`No content for ${media.type} attachment`);
+
+    switch (media.type) {
+      case "image":
+        return { image: source, caption, mimetype: media.mimeType };
+      case "video":
+        return { video: source, caption, mimetype: media.mimeType };
+      case "audio":
+        return { audio: source, mimetype: media.mimeType ?? "audio/mpeg" };
+      case "sticker":
+        return { sticker: source };
+      default:
+        return {
+          document: source,
+          mimetype: media.mimeType ?? "application/octet-stream",
+          fileName: media.fileName,
+          caption,
+        };
+    }
+  }
 }
 
 export default WhatsAppAdapter;
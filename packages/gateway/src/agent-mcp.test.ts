@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createAgentMcpServer, type AgentMcpDeps } from "./agent-mcp.js";
+import { PersonaHistory } from "./persona-history.js";
+
+type ToolResult = { content: Array<{ type: string; text: string }> };
+type RegisteredTools = Record<string, { handler: (args: Record<string, unknown>, extra: unknown) => Promise<ToolResult> }>;
+
+describe("agent MCP persona revision tools", () => {
+  let dataDir: string;
+  let history: PersonaHistory;
+  let callTool: (name: string, args: Record<string, unknown>) => Promise<string>;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-mcp-test-"));
+    history = new PersonaHistory(new Database(":memory:"), dataDir);
+    const server = createAgentMcpServer({
+      personaHistory: history,
+      dataDir,
+      messageSentHandlers: new Map(),
+    } as unknown as AgentMcpDeps);
+    const tools = (server.instance as unknown as { _registeredTools: RegisteredTools })._registeredTools;
+    callTool = async (name, args) => (await tools[name].handler(args, {})).content[0].text;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("diffs the file of the requested scope", async () => {
+    history.write("personas/telegram/users/42/USER.md", "likes tea", "agent");
+    history.write("personas/telegram/users/42/USER.md", "likes coffee", "agent");
+
+    const diff = await callTool("persona_diff", { file: "USER.md", scope: "user", channel: "telegram", userId: "42" });
+
+    expect(diff).toBe("- likes tea\n+ likes coffee");
+  });
+
+  it("refuses paths outside the persona files", async () => {
+    fs.writeFileSync(path.join(dataDir, "config.yaml"), "botToken: secret");
+
+    for (const file of ["config.yaml", "personas/telegram/users/42/USER.md", "../USER.md"]) {
+      expect(await callTool("persona_diff", { file })).toMatch(/^Invalid file/);
+      expect(await callTool("persona_rollback", { file, revision: 1 })).toMatch(/^Invalid file/);
+    }
+  });
+
+  it("rolls back only within the requested scope", async () => {
+    const old = history.write("personas/telegram/users/42/USER.md", "likes tea", "agent");
+    history.write("personas/telegram/users/42/USER.md", "likes coffee", "agent");
+
+    const refused = await callTool("persona_rollback", { file: "USER.md", revision: old.id });
+    const restored = await callTool("persona_rollback", {
+      file: "USER.md",
+      revision: old.id,
+      scope: "user",
+      channel: "telegram",
+      userId: "42",
+    });
+
+    expect(refused).toBe(`Revision ${old.id} of USER.md not found`);
+    expect(restored).toMatch(/^Restored personas\/telegram\/users\/42\/USER.md/);
+    expect(history.read("personas/telegram/users/42/USER.md")).toBe("likes tea");
+  });
+});
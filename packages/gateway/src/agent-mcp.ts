@@ -8,26 +8,85 @@
 
 import { createSdkMcpServer, tool } from "@anthropic-ai/claude-agent-sdk";
 import { z } from "zod";
-import { readFileSync, writeFileSync, existsSync } from "node:fs";
-import { join } from "node:path";
 import type { MessageRouter } from "./message-router.js";
 import type { MessageStore } from "./message-store.js";
 import type { MemoryManager } from "./memory-manager.js";
+import type { PersonaHistory } from "./persona-history.js";
+import { resolveOutboundMedia } from "./outbound-media.js";
+import { droppedFraction } from "./memory-compaction.js";
+import { PERSONA_SCOPES, scopedPersonaPath, type PersonaScope, type PersonaTarget } from "./persona-scope.js";
 
 export type AgentMcpDeps = {
   messageRouter: MessageRouter;
   store: MessageStore;
   memoryManager: MemoryManager;
+  /** Persona writes go through here so every version can be rolled back */
+  personaHistory: PersonaHistory;
   dataDir: string;
-  /** Per-conversation callbacks fired when send_message succeeds (key: "channel:to") */
-  messageSentHandlers: Map<string, () => void>;
+  /** Per-conversation callbacks fired with the sent text when send_message succeeds (key: sentHandlerKey) */
+  messageSentHandlers: Map<string, (text: string) => void>;
+  /** write_persona needs confirm: true to drop more than this fraction of a file's lines (default 0.5) */
+  maxPersonaDropRatio?: number;
 };
 
+/** messageSentHandlers key: "channel:account:to", so two bots answering one peer keep separate trackers */
+export function sentHandlerKey(channel: string, accountId: string, to: string): string {
+  return `${channel}:${accountId}:${to}`;
+}
+
 /** Valid persona file names that the agent can read/write */
 const PERSONA_FILES = ["SOUL.md", "IDENTITY.md", "USER.md", "AGENTS.md", "MEMORY.md"] as const;
 
+/** Files that only exist globally (no channel/chat/user overlays) */
+const GLOBAL_ONLY_FILES: readonly string[] = ["MEMORY.md"];
+
+/** Tool arguments selecting a persona overlay */
+const personaScopeArgs = {
+  scope: z
+    .enum(PERSONA_SCOPES)
+    .optional()
+    .describe("global (default) = applies everywhere; channel / chat / user = overlay for one channel, chat or person"),
+  channel: z.string().optional().describe("Channel of the incoming message (channel, chat and user scope)"),
+  chatId: z.string().optional().describe("Chat ID: the 'to' you reply to (chat scope)"),
+  userId: z.string().optional().describe("Sender ID from the incoming message (user scope)"),
+};
+
+/**
+ * Data-dir relative path of a persona file in the requested scope, or an
+ * error message for the agent.
+ */
+function resolvePersonaPath(
+  file: string,
+  args: PersonaTarget & { scope?: PersonaScope },
+): { path: string } | { error: string } {
+  if (!PERSONA_FILES.includes(file as typeof PERSONA_FILES[number])) {
+    return { error: `Invalid file. Must be one of: ${PERSONA_FILES.join(", ")}` };
+  }
+  const scope = args.scope ?? "global";
+  if (scope !== "global" && GLOBAL_ONLY_FILES.includes(file)) {
+    return { error: `${file} only exists globally; omit scope.` };
+  }
+  try {
+    return { path: scopedPersonaPath(file, scope, args) };
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+/** Attachment accepted by send_message (local path, base64 or URL) */
+const MediaInputSchema = z.object({
+  type: z.enum(["image", "video", "audio", "document"]).describe("Kind of attachment"),
+  path: z.string().optional().describe("Absolute path to a file inside the gateway data dir (attachments, your working directory)"),
+  base64: z.string().optional().describe("Base64 file content or data: URL (alternative to path)"),
+  url: z.string().optional().describe("Public URL of the file (alternative to path)"),
+  mimeType: z.string().optional().describe("MIME type (guessed from the file name if omitted)"),
+  fileName: z.string().optional().describe("File name shown to the recipient"),
+  caption: z.string().optional().describe("Caption for this attachment"),
+});
+
 export function createAgentMcpServer(deps: AgentMcpDeps) {
-  const { messageRouter, store, memoryManager, dataDir } = deps;
+  const { messageRouter, store, memoryManager, personaHistory } = deps;
+  const maxPersonaDropRatio = deps.maxPersonaDropRatio ?? 0.5;
 
   return createSdkMcpServer({
     name: "gateway",
@@ -35,24 +94,40 @@ export function createAgentMcpServer(deps: AgentMcpDeps) {
     tools: [
       tool(
         "send_message",
-        "Send a message to a specific recipient on a connected channel. Use this to reply to the user.",
+        "Send a message to a specific recipient on a connected channel. Use this to reply to the user. Attach images, documents, audio or video via media.",
         {
           channel: z.string().describe("Channel to send through: whatsapp, telegram, or discord"),
           to: z.string().describe("Recipient identifier (phone number, chat ID, channel ID)"),
-          text: z.string().describe("Message text to send"),
+          text: z.string().optional().describe("Message text to send (optional when media is attached)"),
+          media: z.array(MediaInputSchema).optional().describe("Attachments to upload (optional)"),
           replyToId: z.string().optional().describe("Message ID to reply to (optional)"),
           accountId: z.string().optional().describe("Account ID to use (optional, default: 'default')"),
         },
         async (args) => {
+          if (!args.text && !args.media?.length) {
+            return {
+              content: [{ type: "text", text: "Either text or media is required" }],
+            };
+          }
+
+          let media;
+          try {
+            media = args.media?.length ? resolveOutboundMedia(args.media, { allowedRoots: [deps.dataDir] }) : undefined;
+          } catch (err) {
+            return {
+              content: [{ type: "text", text: `Could not attach media: ${err instanceof Error ? err.message : String(err)}` }],
+            };
+          }
+
           const result = await messageRouter.send(
             args.channel,
-            { to: args.to, text: args.text, replyToId: args.replyToId },
+            { to: args.to, text: args.text, media, replyToId: args.replyToId },
             args.accountId ?? "default",
           );
           // Notify the reply tracker for this conversation
           if (result.success) {
-            const handlerKey = `${args.channel}:${args.to}`;
-            deps.messageSentHandlers.get(handlerKey)?.();
+            const handlerKey = sentHandlerKey(args.channel, args.accountId ?? "default", args.to);
+            deps.messageSentHandlers.get(handlerKey)?.(args.text ?? "");
           }
           return {
             content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
@@ -102,16 +177,21 @@ export function createAgentMcpServer(deps: AgentMcpDeps) {
 
       tool(
         "memory_search",
-        "Search past conversation memories using full-text search. Returns relevant snippets from previous conversations ranked by relevance.",
+        "Search past conversation memories. Hybrid mode (default) blends keyword matches, semantic similarity and recency, so paraphrased questions still find relevant snippets.",
         {
-          query: z.string().describe("Search query - keywords to find in past conversations"),
+          query: z.string().describe("Search query - keywords or a natural-language question about past conversations"),
           maxResults: z.number().optional().describe("Maximum number of results to return (default: 10)"),
-          sessionKey: z.string().optional().describe("Filter by session key, e.g. 'telegram:12345' (optional)"),
+          sessionKey: z.string().optional().describe("Filter by session key, e.g. 'telegram:default:12345' (optional)"),
+          mode: z
+            .enum(["hybrid", "keyword", "vector"])
+            .optional()
+            .describe("hybrid (default), keyword = exact terms only, vector = semantic similarity only"),
         },
         async (args) => {
           const results = memoryManager.search(args.query, {
             maxResults: args.maxResults,
             sessionKey: args.sessionKey,
+            mode: args.mode ?? "hybrid",
           });
           return {
             content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
@@ -131,25 +211,63 @@ export function createAgentMcpServer(deps: AgentMcpDeps) {
         },
       ),
 
+      tool(
+        "memory_forget",
+        "Delete memories the user asked you to forget or that are wrong: one chunk by id (from memory_search results), the keyword matches of a query, or every memory of a session key.",
+        {
+          id: z.string().optional().describe("Chunk id from memory_search"),
+          query: z.string().optional().describe("Delete chunks matching these keywords (within sessionKey if given)"),
+          sessionKey: z.string().optional().describe("Session key, e.g. 'telegram:default:12345'. Alone, deletes all of its memories"),
+          maxResults: z.number().optional().describe("Most chunks a query may delete (default: 10)"),
+        },
+        async (args) => {
+          if (!args.id && !args.query && !args.sessionKey) {
+            return {
+              content: [{ type: "text", text: "Provide id, query or sessionKey." }],
+            };
+          }
+          const deleted = memoryManager.forget(args);
+          return {
+            content: [{ type: "text", text: `Deleted ${deleted} memory chunk(s)` }],
+          };
+        },
+      ),
+
+      tool(
+        "memory_update",
+        "Replace the text of a memory chunk, e.g. to correct an outdated fact. Keeps its session and timestamp.",
+        {
+          id: z.string().describe("Chunk id from memory_search"),
+          text: z.string().describe("New text of the chunk"),
+        },
+        async (args) => {
+          const updated = memoryManager.updateChunk(args.id, args.text);
+          return {
+            content: [{ type: "text", text: updated ? `Updated memory ${args.id}` : `Memory chunk not found: ${args.id}` }],
+          };
+        },
+      ),
+
       tool(
         "read_persona",
-        "Read a persona or memory file. Use this to check your current personality, identity, user info, or long-term memory. Valid files: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, MEMORY.md",
+        "Read a persona or memory file. Use this to check your current personality, identity, user info, or long-term memory. Valid files: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, MEMORY.md. Pass a scope to read a channel, chat or user overlay instead of the global file.",
         {
           file: z.string().describe("File name to read: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, or MEMORY.md"),
+          ...personaScopeArgs,
         },
         async (args) => {
-          if (!PERSONA_FILES.includes(args.file as typeof PERSONA_FILES[number])) {
+          const resolved = resolvePersonaPath(args.file, args);
+          if ("error" in resolved) {
             return {
-              content: [{ type: "text", text: `Invalid file. Must be one of: ${PERSONA_FILES.join(", ")}` }],
+              content: [{ type: "text", text: resolved.error }],
             };
           }
-          const filePath = join(dataDir, args.file);
-          if (!existsSync(filePath)) {
+          const content = personaHistory.read(resolved.path);
+          if (content === null) {
             return {
-              content: [{ type: "text", text: `File ${args.file} does not exist yet. Use write_persona to create it.` }],
+              content: [{ type: "text", text: `File ${resolved.path} does not exist yet. Use write_persona to create it.` }],
             };
           }
-          const content = readFileSync(filePath, "utf-8");
           return {
             content: [{ type: "text", text: content }],
           };
@@ -158,24 +276,113 @@ export function createAgentMcpServer(deps: AgentMcpDeps) {
 
       tool(
         "write_persona",
-        "Write or update a persona or memory file. Use this to save user preferences, update your identity/personality, or store important facts in long-term memory. The content will take effect from the next conversation turn. Valid files: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, MEMORY.md",
+        "Write or update a persona or memory file. Use this to save user preferences, update your identity/personality, or store important facts in long-term memory. The content will take effect from the next conversation turn. Valid files: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, MEMORY.md. Use scope \"user\" for facts about one person and \"chat\" for one chat; MEMORY.md is global only.",
         {
           file: z.string().describe("File name to write: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, or MEMORY.md"),
           content: z.string().describe("Full content to write to the file (replaces existing content)"),
+          ...personaScopeArgs,
+          confirm: z
+            .boolean()
+            .optional()
+            .describe("Set true to confirm a write that removes most of the existing content"),
         },
         async (args) => {
-          if (!PERSONA_FILES.includes(args.file as typeof PERSONA_FILES[number])) {
+          const resolved = resolvePersonaPath(args.file, args);
+          if ("error" in resolved) {
             return {
-              content: [{ type: "text", text: `Invalid file. Must be one of: ${PERSONA_FILES.join(", ")}` }],
+              content: [{ type: "text", text: resolved.error }],
             };
           }
-          const filePath = join(dataDir, args.file);
-          writeFileSync(filePath, args.content, "utf-8");
+          const current = personaHistory.read(resolved.path);
+          if (!args.confirm && current !== null) {
+            const dropped = droppedFraction(current, args.content);
+            if (dropped > maxPersonaDropRatio) {
+              return {
+                content: [{
+                  type: "text",
+                  text: `Refused: this would remove ${Math.round(dropped * 100)}% of the lines in ${resolved.path} (limit ${Math.round(maxPersonaDropRatio * 100)}%). write_persona replaces the whole file, so read_persona first and keep what is still relevant. If removing it is intended, call write_persona again with confirm: true.`,
+                }],
+              };
+            }
+          }
+          const revision = personaHistory.write(resolved.path, args.content, "agent");
           return {
-            content: [{ type: "text", text: `Successfully updated ${args.file}` }],
+            content: [{ type: "text", text: `Successfully updated ${resolved.path} (revision ${revision.id})` }],
           };
         },
       ),
+
+      tool(
+        "persona_history",
+        "List saved revisions of the persona files (newest first). Every write_persona call creates one.",
+        {
+          file: z.string().optional().describe("Only revisions of this file, e.g. SOUL.md or personas/telegram/users/42/USER.md (optional)"),
+          limit: z.number().optional().describe("Maximum number of revisions (default: 20)"),
+        },
+        async (args) => {
+          const revisions = personaHistory.list(args.file, args.limit);
+          return {
+            content: [{ type: "text", text: JSON.stringify(revisions, null, 2) }],
+          };
+        },
+      ),
+
+      tool(
+        "persona_diff",
+        "Show what changed in a persona file between two revisions. Defaults: the previous revision vs the current file. Pass the same scope as read_persona for a channel, chat or user overlay.",
+        {
+          file: z.string().describe("File name: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, or MEMORY.md"),
+          ...personaScopeArgs,
+          from: z.number().optional().describe("Older revision id (default: the revision before 'to')"),
+          to: z.number().optional().describe("Newer revision id (default: the current file)"),
+        },
+        async (args) => {
+          const resolved = resolvePersonaPath(args.file, args);
+          if ("error" in resolved) {
+            return {
+              content: [{ type: "text", text: resolved.error }],
+            };
+          }
+          try {
+            const diff = personaHistory.diff(resolved.path, args.from, args.to);
+            return {
+              content: [{ type: "text", text: diff || "No differences." }],
+            };
+          } catch (err) {
+            return {
+              content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+            };
+          }
+        },
+      ),
+
+      tool(
+        "persona_rollback",
+        "Restore a persona file to an earlier revision (from persona_history). The current version stays in the history. Pass the same scope as read_persona for a channel, chat or user overlay.",
+        {
+          file: z.string().describe("File name: SOUL.md, IDENTITY.md, USER.md, AGENTS.md, or MEMORY.md"),
+          ...personaScopeArgs,
+          revision: z.number().describe("Revision id to restore"),
+        },
+        async (args) => {
+          const resolved = resolvePersonaPath(args.file, args);
+          if ("error" in resolved) {
+            return {
+              content: [{ type: "text", text: resolved.error }],
+            };
+          }
+          try {
+            const revision = personaHistory.rollback(resolved.path, args.revision);
+            return {
+              content: [{ type: "text", text: `Restored ${resolved.path} to revision ${args.revision} (saved as revision ${revision.id})` }],
+            };
+          } catch (err) {
+            return {
+              content: [{ type: "text", text: err instanceof Error ? err.message : String(err) }],
+            };
+          }
+        },
+      ),
     ],
   });
 }
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { resolveAgentSettings } from "./agent-overrides.js";
+
+const global = { model: "claude-sonnet-4-5-20250929", maxTurns: 0, maxBudgetPerMessage: 999 };
+const target = { chatId: "-100123", userId: "42" };
+
+describe("resolveAgentSettings", () => {
+  it("uses the global settings without channel overrides", () => {
+    expect(resolveAgentSettings(global, null, target)).toEqual({
+      ...global,
+      sources: { model: "global", maxTurns: "global", maxBudgetPerMessage: "global" },
+    });
+  });
+
+  it("applies channel, chat and user layers, most specific last", () => {
+    const resolved = resolveAgentSettings(
+      global,
+      {
+        agent: { maxTurns: 20 },
+        chats: { "-100123": { model: "claude-haiku-4-5-20251001", maxBudgetPerMessage: 0.5 } },
+        users: { "42": { model: "claude-opus-4-1" } },
+      },
+      target,
+    );
+
+    expect(resolved).toMatchObject({ model: "claude-opus-4-1", maxTurns: 20, maxBudgetPerMessage: 0.5 });
+    expect(resolved.sources).toEqual({ model: "user", maxTurns: "channel", maxBudgetPerMessage: "chat" });
+  });
+
+  it("ignores overrides of other chats and users", () => {
+    const resolved = resolveAgentSettings(
+      global,
+      { chats: { "-100999": { model: "other" } }, users: { "7": { maxTurns: 1 } } },
+      target,
+    );
+    expect(resolved.model).toBe(global.model);
+    expect(resolved.maxTurns).toBe(0);
+  });
+
+  it("keeps an explicit 0 (unlimited turns) from a more specific layer", () => {
+    const resolved = resolveAgentSettings(global, { agent: { maxTurns: 10 }, users: { "42": { maxTurns: 0 } } }, target);
+    expect(resolved.maxTurns).toBe(0);
+    expect(resolved.sources.maxTurns).toBe("user");
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Per-conversation agent settings: model, maxTurns and maxBudgetPerMessage
+ * come from gateway.agentRunner and can be overridden per channel, per chat
+ * and per sender. Like persona overlays, the more specific layer wins:
+ *
+ *   global → channel → chat → user
+ *
+ * so a family group can run on a cheaper model while the owner keeps a
+ * stronger one wherever they write.
+ */
+
+import type { AgentOverrides, ChannelConfig } from "./config.js";
+
+export type AgentSettings = {
+  model: string;
+  /** 0 = unlimited */
+  maxTurns: number;
+  maxBudgetPerMessage: number;
+};
+
+export type AgentSettingsScope = "global" | "channel" | "chat" | "user";
+
+export type ResolvedAgentSettings = AgentSettings & {
+  /** Layer each setting came from */
+  sources: Record<keyof AgentSettings, AgentSettingsScope>;
+};
+
+export const AGENT_SETTING_KEYS = ["model", "maxTurns", "maxBudgetPerMessage"] as const;
+
+/** Resolve the settings for a sender in a chat of a channel */
+export function resolveAgentSettings(
+  global: AgentSettings,
+  channelConfig: Pick<ChannelConfig, "agent" | "chats" | "users"> | null,
+  target: { chatId: string; userId: string },
+): ResolvedAgentSettings {
+  const resolved: ResolvedAgentSettings = {
+    ...global,
+    sources: { model: "global", maxTurns: "global", maxBudgetPerMessage: "global" },
+  };
+  if (!channelConfig) return resolved;
+
+  const layers: Array<[AgentSettingsScope, AgentOverrides | undefined]> = [
+    ["channel", channelConfig.agent],
+    ["chat", channelConfig.chats?.[target.chatId]],
+    ["user", channelConfig.users?.[target.userId]],
+  ];
+  for (const [scope, overrides] of layers) {
+    if (!overrides) continue;
+    for (const key of AGENT_SETTING_KEYS) {
+      if (overrides[key] === undefined) continue;
+      Object.assign(resolved, { [key]: overrides[key] });
+      resolved.sources[key] = scope;
+    }
+  }
+  return resolved;
+}
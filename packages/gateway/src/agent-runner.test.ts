@@ -0,0 +1,376 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ChannelMessage } from "@open-claude-code/adapter-core";
+import { AbortError, type SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import { AgentRunner, type AgentRunnerConfig } from "./agent-runner.js";
+import type { AgentMcpDeps } from "./agent-mcp.js";
+import { contentText } from "./turn-memory.js";
+import type { ChannelManager } from "./channel-manager.js";
+import type { CostLedger } from "./cost-ledger.js";
+import type { MemoryManager } from "./memory-manager.js";
+import type { MessageRouter } from "./message-router.js";
+import type { MessageStore } from "./message-store.js";
+import type { PersonaHistory } from "./persona-history.js";
+
+const mocks = vi.hoisted(() => ({
+  dataDir: "",
+  channelConfig: { autoReply: true } as Record<string, unknown>,
+  query: vi.fn(),
+  saveConfig: vi.fn(),
+  setAgentOverrides: vi.fn(),
+}));
+
+vi.mock("@anthropic-ai/claude-agent-sdk", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@anthropic-ai/claude-agent-sdk")>()),
+  query: mocks.query,
+}));
+
+vi.mock("./config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./config.js")>()),
+  getDataDir: () => mocks.dataDir,
+  getChannelAccountConfig: () => mocks.channelConfig,
+  loadConfig: () => ({ gateway: { agentRunner: {} } }),
+  saveConfig: mocks.saveConfig,
+  setAgentOverrides: mocks.setAgentOverrides,
+}));
+
+type QueryParams = {
+  prompt: AsyncIterable<SDKUserMessage>;
+  options: { abortController: AbortController; model: string };
+};
+
+let seq = 0;
+
+function dm(text: string, overrides: Partial<ChannelMessage> = {}): ChannelMessage {
+  return {
+    id: String(++seq),
+    channel: "telegram",
+    accountId: "default",
+    from: { id: "42", name: "Alice", username: "alice" },
+    chatType: "dm",
+    text,
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+/**
+ * A query() that answers every user turn with a result whose cumulative cost
+ * follows `totals`; the first answer waits for `release`
+ */
+function billingQuery(received: string[], totals: number[], release: Promise<void>) {
+  return ({ prompt }: QueryParams) => {
+    async function* run() {
+      for await (const message of prompt) {
+        received.push(contentText(message.message.content));
+        if (received.length === 1) await release;
+        yield {
+          type: "result",
+          subtype: "success",
+          is_error: false,
+          result: "",
+          session_id: "s1",
+          total_cost_usd: totals[received.length - 1],
+          usage: { input_tokens: 100, output_tokens: 10, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+        };
+      }
+    }
+    return Object.assign(run(), { close: vi.fn() });
+  };
+}
+
+/** A query() that records every user turn and runs until its input closes */
+function hangingQuery(received: string[]) {
+  return ({ prompt, options }: QueryParams) => {
+    async function* run() {
+      for await (const message of prompt) {
+        received.push(contentText(message.message.content));
+      }
+      if (options.abortController.signal.aborted) throw new AbortError("Claude Code process aborted by user");
+    }
+    return Object.assign(run(), { close: vi.fn() });
+  };
+}
+
+function createRunner(config: Partial<AgentRunnerConfig> = {}) {
+  const router = {
+    send: vi.fn(async () => ({ success: true, messageId: "m1", timestamp: Date.now() })),
+    supportsEdit: () => false,
+    edit: vi.fn(),
+  };
+  const channelManager = { sendTyping: vi.fn(async () => {}) };
+  const memoryManager = {
+    indexChunk: vi.fn(),
+    search: vi.fn(() => []),
+    forget: vi.fn(() => 0),
+    forgetContaining: vi.fn(() => 0),
+  };
+  const costLedger = { record: vi.fn(), spent: vi.fn(() => 0), checkCaps: vi.fn() };
+
+  const runner = new AgentRunner(
+    {} as MessageStore,
+    memoryManager as unknown as MemoryManager,
+    {} as PersonaHistory,
+    costLedger as unknown as CostLedger,
+    { debounceMs: 0, ...config },
+  );
+  runner.setDependencies(channelManager as unknown as ChannelManager, router as unknown as MessageRouter);
+  return { runner, router, channelManager, memoryManager, costLedger };
+}
+
+function sentTexts(router: ReturnType<typeof createRunner>["router"]): string[] {
+  return router.send.mock.calls.map((call) => (call as unknown as [string, { text: string }])[1].text);
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+beforeEach(() => {
+  mocks.dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "agent-runner-test-"));
+  mocks.channelConfig = { autoReply: true };
+  mocks.query.mockReset();
+  mocks.saveConfig.mockReset();
+  mocks.setAgentOverrides.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  fs.rmSync(mocks.dataDir, { recursive: true, force: true });
+});
+
+describe("AgentRunner streaming input", () => {
+  it("injects follow-ups into the running query as new turns", async () => {
+    const received: string[] = [];
+    mocks.query.mockImplementation(hangingQuery(received));
+    const { runner } = createRunner();
+
+    runner.handleMessage(dm("first question"));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    runner.handleMessage(dm("and a follow-up"));
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+
+    expect(mocks.query).toHaveBeenCalledTimes(1);
+    expect(received[0]).toContain("first question");
+    expect(received[1]).toContain("and a follow-up");
+
+    runner.handleMessage(dm("/stop"));
+    await settle();
+  });
+});
+
+describe("AgentRunner reply tracking", () => {
+  it("keeps the send_message trackers of two accounts answering one peer apart", async () => {
+    const received: string[] = [];
+    mocks.query.mockImplementation(hangingQuery(received));
+    const { runner } = createRunner();
+    const handlers = (runner as unknown as { mcpDeps: AgentMcpDeps }).mcpDeps.messageSentHandlers;
+
+    runner.handleMessage(dm("question for the main bot"));
+    runner.handleMessage(dm("question for the work bot", { accountId: "work" }));
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect([...handlers.keys()].sort()).toEqual(["telegram:default:42", "telegram:work:42"]);
+
+    // Ending one run leaves the other's tracker in place
+    runner.handleMessage(dm("/stop", { accountId: "work" }));
+    await vi.waitFor(() => expect([...handlers.keys()]).toEqual(["telegram:default:42"]));
+
+    runner.handleMessage(dm("/stop"));
+    await vi.waitFor(() => expect(handlers.size).toBe(0));
+  });
+});
+
+describe("AgentRunner budget caps", () => {
+  const caps = { userDaily: 1, userMonthly: 0, channelDaily: 0, channelMonthly: 0 };
+  const group = (text: string, from: ChannelMessage["from"]) =>
+    dm(text, { chatType: "group", to: { id: "-100123" }, from } as Partial<ChannelMessage>);
+  const alice = { id: "42", name: "Alice" };
+  const bob = { id: "7", name: "Bob" };
+  const capReached = { allowed: false, scope: "user", period: "daily", spent: 1, cap: 1 } as const;
+
+  beforeEach(() => {
+    mocks.channelConfig = { autoReply: true, groupPolicy: "always" };
+  });
+
+  it("keeps a follow-up from a sender over their cap out of the running turn", async () => {
+    const received: string[] = [];
+    mocks.query.mockImplementation(hangingQuery(received));
+    const { runner, router, costLedger } = createRunner({ budgetCaps: caps });
+    costLedger.checkCaps.mockImplementation((_caps: unknown, target: { userId: string }) =>
+      target.userId === bob.id ? capReached : { allowed: true, remaining: 1 });
+
+    runner.handleMessage(group("first question", alice));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    runner.handleMessage(group("me too", bob));
+    await vi.waitFor(() => expect(sentTexts(router)).toEqual(["개인 일일 사용 한도($1)에 도달했습니다. 내일 다시 이용해 주세요."]));
+    await settle();
+    expect(received).toHaveLength(1);
+
+    runner.handleMessage(group("/stop", alice));
+    await settle();
+  });
+
+  it("charges each turn to the sender it answers", async () => {
+    const received: string[] = [];
+    let release!: () => void;
+    mocks.query.mockImplementation(billingQuery(received, [0.1, 0.3], new Promise((resolve) => (release = resolve))));
+    const { runner, costLedger } = createRunner({ budgetCaps: caps });
+    costLedger.checkCaps.mockReturnValue({ allowed: true, remaining: 1 });
+
+    runner.handleMessage(group("first question", alice));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    runner.handleMessage(group("a follow-up", bob));
+    await vi.waitFor(() => expect(costLedger.checkCaps).toHaveBeenCalledTimes(2));
+    release();
+
+    await vi.waitFor(() => expect(costLedger.record).toHaveBeenCalledTimes(2));
+    await settle();
+    const rows = costLedger.record.mock.calls.map(([row]) => row as { userId: string; costUsd: number });
+    expect(rows.map((row) => row.userId)).toEqual(["42", "7"]);
+    expect(rows[0].costUsd).toBeCloseTo(0.1);
+    expect(rows[1].costUsd).toBeCloseTo(0.2);
+  });
+
+  it("checks the cap again before falling back to another model", async () => {
+    mocks.query.mockImplementation(() =>
+      Object.assign(
+        (async function* () {
+          yield {
+            type: "result",
+            subtype: "error_during_execution",
+            is_error: true,
+            errors: ["API Error: 529 overloaded_error"],
+            session_id: "s1",
+            total_cost_usd: 0.5,
+            usage: { input_tokens: 100, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+          };
+        })(),
+        { close: vi.fn() },
+      ));
+    const { runner, router, costLedger } = createRunner({ budgetCaps: caps, fallbackModels: ["claude-haiku-4-5"] });
+    costLedger.checkCaps.mockReturnValueOnce({ allowed: true, remaining: 1 }).mockReturnValue(capReached);
+
+    runner.handleMessage(dm("question"));
+
+    await vi.waitFor(() => expect(sentTexts(router)).toEqual(["개인 일일 사용 한도($1)에 도달했습니다. 내일 다시 이용해 주세요."]));
+    await settle();
+    expect(mocks.query).toHaveBeenCalledTimes(1);
+    expect(costLedger.record).toHaveBeenCalledTimes(1);
+    expect(costLedger.record.mock.calls[0][0]).toMatchObject({ userId: "42", costUsd: 0.5, subtype: "error_during_execution" });
+  });
+});
+
+describe("AgentRunner /stop", () => {
+  it("aborts the in-flight run and confirms", async () => {
+    const received: string[] = [];
+    mocks.query.mockImplementation(hangingQuery(received));
+    const { runner, router } = createRunner();
+
+    runner.handleMessage(dm("long task"));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const { options } = mocks.query.mock.calls[0][0] as QueryParams;
+
+    runner.handleMessage(dm("/stop"));
+    expect(options.abortController.signal.aborted).toBe(true);
+    await vi.waitFor(() => expect(sentTexts(router)).toContain("진행 중인 작업을 중단했습니다."));
+
+    // The aborted run ends quietly: no error fallback after the confirmation
+    await settle();
+    expect(sentTexts(router)).toEqual(["진행 중인 작업을 중단했습니다."]);
+  });
+
+  it("drops follow-ups still waiting in the debounce queue", async () => {
+    const received: string[] = [];
+    mocks.query.mockImplementation(hangingQuery(received));
+    const { runner } = createRunner({ debounceMs: 50 });
+
+    runner.handleMessage(dm("long task"));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    runner.handleMessage(dm("queued follow-up"));
+    runner.handleMessage(dm("/cancel"));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(received).toEqual([expect.stringContaining("long task")]);
+    expect(mocks.query).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops the typing indicator", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const received: string[] = [];
+    mocks.query.mockImplementation(hangingQuery(received));
+    const { runner, channelManager } = createRunner();
+
+    runner.handleMessage(dm("long task"));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+    const before = channelManager.sendTyping.mock.calls.length;
+    vi.advanceTimersByTime(4000);
+    expect(channelManager.sendTyping.mock.calls.length).toBeGreaterThan(before);
+
+    runner.handleMessage(dm("/stop"));
+    const stopped = channelManager.sendTyping.mock.calls.length;
+    vi.advanceTimersByTime(20_000);
+    expect(channelManager.sendTyping.mock.calls.length).toBe(stopped);
+  });
+
+  it("says so when nothing is running", async () => {
+    const { runner, router } = createRunner();
+
+    runner.handleMessage(dm("/stop"));
+    await vi.waitFor(() => expect(sentTexts(router)).toEqual(["진행 중인 작업이 없습니다."]));
+    expect(mocks.query).not.toHaveBeenCalled();
+  });
+});
+
+describe("AgentRunner command permissions", () => {
+  const DENIED = "이 명령어를 사용할 권한이 없습니다.";
+
+  it("grants no admin commands in an open DM when no admins are configured", async () => {
+    const { runner, router, memoryManager } = createRunner();
+
+    runner.handleMessage(dm("/model claude-haiku-4-5"));
+    runner.handleMessage(dm("/agent user model claude-haiku-4-5"));
+    runner.handleMessage(dm("/persona"));
+    runner.handleMessage(dm("/memory phone number"));
+    await vi.waitFor(() => expect(router.send).toHaveBeenCalledTimes(4));
+
+    expect(sentTexts(router).slice(0, 3)).toEqual([DENIED, DENIED, DENIED]);
+    expect(mocks.saveConfig).not.toHaveBeenCalled();
+    expect(mocks.setAgentOverrides).not.toHaveBeenCalled();
+    // Non-admins only search their own conversation
+    expect(memoryManager.search).toHaveBeenCalledWith("phone number", expect.objectContaining({ sessionKey: "telegram:default:42" }));
+  });
+
+  it("treats allowFrom users as admins in DMs when no admins are configured", async () => {
+    mocks.channelConfig = { autoReply: true, allowFrom: ["alice"] };
+    const { runner, router, memoryManager } = createRunner();
+
+    runner.handleMessage(dm("/model claude-haiku-4-5"));
+    await vi.waitFor(() => expect(mocks.saveConfig).toHaveBeenCalledTimes(1));
+
+    runner.handleMessage(dm("/memory phone number"));
+    await vi.waitFor(() => expect(memoryManager.search).toHaveBeenCalledTimes(1));
+    expect(memoryManager.search.mock.calls[0]).toEqual(["phone number", expect.not.objectContaining({ sessionKey: expect.anything() })]);
+
+    runner.handleMessage(dm("/model claude-haiku-4-5", { chatType: "group", to: { id: "-100" } }));
+    await vi.waitFor(() => expect(sentTexts(router)).toContain(DENIED));
+    expect(mocks.saveConfig).toHaveBeenCalledTimes(1);
+  });
+
+  it("limits admin commands to the configured admins", async () => {
+    const { runner, router } = createRunner({ commandAdmins: ["bob"] });
+
+    runner.handleMessage(dm("/agent user model claude-haiku-4-5"));
+    await vi.waitFor(() => expect(sentTexts(router)).toEqual([DENIED]));
+
+    runner.handleMessage(
+      dm("/agent chat model claude-haiku-4-5", { from: { id: "7", username: "bob" }, chatType: "group", to: { id: "-100" } }),
+    );
+    await vi.waitFor(() => expect(mocks.setAgentOverrides).toHaveBeenCalledTimes(1));
+    expect(mocks.setAgentOverrides).toHaveBeenCalledWith("telegram", { scope: "chat", id: "-100" }, { model: "claude-haiku-4-5" }, "default");
+  });
+});
@@ -4,16 +4,19 @@
  * Replaces the legacy AutoResponder that spawned `claude --print`.
  * Uses Agent SDK query() for in-process agent execution with:
  *  - Session resume (per conversation key)
+ *  - Streaming input (follow-ups injected into the in-flight run)
+ *  - Block-reply / live-edit streaming of assistant text (opt-in)
  *  - In-process MCP tools (no IPC overhead)
  *  - Multi-file persona system (SOUL.md, IDENTITY.md, USER.md, AGENTS.md)
  *  - Subagents (translator, researcher, coder)
  *  - Hooks (message policy, tool logging, stop guard)
  *  - Skills system (SKILL.md loading from ~/.openclaudecode/skills/)
  *  - Enhanced memory (MEMORY.md + daily logs)
- *  - Cost tracking + maxTurns / maxBudget guardrails
+ *  - Cost ledger (agent_runs) + maxTurns / maxBudget / spending-cap guardrails
+ *  - Model fallback chain on overload / transient API errors
  */
 
-import { query } from "@anthropic-ai/claude-agent-sdk";
+import { AbortError, query, type SDKAssistantMessageError, type SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
 import {
   readFileSync,
   writeFileSync,
@@ -22,18 +25,60 @@ import {
   mkdirSync,
   readdirSync,
   statSync,
+  rmSync,
 } from "node:fs";
 import { join, basename } from "node:path";
-import { createHash } from "node:crypto";
-import type { ChannelMessage } from "@open-claude-code/adapter-core";
+import type { ChannelMessage, ChatCommand, MessageMedia } from "@open-claude-code/adapter-core";
 import type { ChannelManager } from "./channel-manager.js";
 import type { MessageStore } from "./message-store.js";
 import type { MemoryManager } from "./memory-manager.js";
+import type { PersonaHistory } from "./persona-history.js";
+import {
+  resolveCostCaps,
+  startOfUtcDay,
+  startOfUtcMonth,
+  type AgentRunRecord,
+  type CostCapCheck,
+  type CostCaps,
+  type CostLedger,
+} from "./cost-ledger.js";
+import { personaLayers, personaScopeDir, type PersonaScope, type PersonaTarget } from "./persona-scope.js";
 import type { MessageRouter } from "./message-router.js";
-import { createAgentMcpServer, type AgentMcpDeps } from "./agent-mcp.js";
-import { createTypingController } from "./typing-controller.js";
+import { createAgentMcpServer, sentHandlerKey, type AgentMcpDeps } from "./agent-mcp.js";
+import { createTypingController, type TypingController } from "./typing-controller.js";
 import { createReplyTracker } from "./reply-tracker.js";
-import { loadConfig, getDataDir } from "./config.js";
+import { readSessionsFile, writeSessionsFile } from "./sessions-file.js";
+import { findSessionTranscript } from "./transcript-indexer.js";
+import { dmConversationKeys, logEntryKey, matchSnippets, purgeDailyLogs } from "./forget-user.js";
+import { passesGroupGate, resolveGroupGate } from "./group-policy.js";
+import { CommandRegistry, type ChatCommandDefinition, type CommandContext } from "./chat-commands.js";
+import { buildModelChain, classifyAgentError, describeResultFailure } from "./model-fallback.js";
+import { resolveAgentSettings, type AgentSettings, type AgentSettingsScope, type ResolvedAgentSettings } from "./agent-overrides.js";
+import {
+  buildTurnChunks,
+  createTurnLog,
+  recordReply,
+  recordToolOutcome,
+  contentText,
+  type TurnLog,
+} from "./turn-memory.js";
+import { createInputStream, type InputStream, type UserContent } from "./input-stream.js";
+import { attachmentPath } from "./attachment-store.js";
+import {
+  createBlockReplyPipeline,
+  createLiveEditPipeline,
+  type BlockReplyConfig,
+  type BlockReplyPipeline,
+  type LiveEditConfig,
+} from "./block-reply-pipeline.js";
+import {
+  getChannelAccountConfig,
+  getDataDir,
+  loadConfig,
+  saveConfig,
+  setAgentOverrides,
+  type AgentOverrideTarget,
+} from "./config.js";
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -54,6 +99,18 @@ export type AgentRunnerConfig = {
   enableSubagents?: boolean;
   /** Skills directory override */
   skillsDir?: string;
+  /** Automatically send assistant text to the user as coalesced block replies */
+  blockReplies?: BlockReplyConfig;
+  /** Stream assistant text by live-editing a placeholder (channels with edit support) */
+  liveEdit?: LiveEditConfig;
+  /** write_persona needs confirmation to drop more than this fraction of a file */
+  maxPersonaDropRatio?: number;
+  /** Users (ID, username or name) allowed to run admin chat commands; empty = allowFrom senders, in DMs only */
+  commandAdmins?: string[];
+  /** Daily / monthly spending caps per user and per channel (USD, 0 = none) */
+  budgetCaps?: CostCaps;
+  /** Models retried in order when a run fails with a transient API error */
+  fallbackModels?: string[];
 };
 
 type QueueEntry = {
@@ -61,6 +118,25 @@ type QueueEntry = {
   timer?: ReturnType<typeof setTimeout>;
 };
 
+/** An in-flight query() run for one conversation key */
+type ActiveRun = {
+  /** Streaming input fed to query(); follow-ups are pushed here */
+  input: InputStream;
+  /** Every prompt pushed into the run, replayed when it falls back to another model */
+  prompts: UserContent[];
+  /** Sender charged for each prompt's turn (the last message of its batch) */
+  senders: string[];
+  /** One log per user turn (initial + follow-ups), indexed into memory as each completes */
+  turns: TurnLog[];
+  /** Aborts the query() stream (/stop, /cancel) */
+  abortController: AbortController;
+  /** Typing indicator for this run, once started */
+  typing: TypingController | null;
+};
+
+/** A cost cap check that refused the sender */
+type CapReached = Extract<CostCapCheck, { allowed: false }>;
+
 type SkillMeta = {
   name: string;
   description: string;
@@ -79,10 +155,6 @@ type SubagentDef = {
 
 // ─── Constants ───────────────────────────────────────────────────────────────
 
-// TODO: Implement automatic block-reply pipeline (like OpenClaw's BlockReplyPipeline)
-// that captures agent stream text_delta and sends intermediate chunks to the user
-// without requiring explicit send_message calls. Current workaround: prompt-based.
-
 const DEFAULT_SYSTEM_PROMPT = `You are a helpful AI assistant responding to messages via the OpenClaudeCode messaging gateway.
 You have access to MCP tools to send messages back. Use the send_message tool to reply.
 Be concise and helpful. Match the language of the incoming message.
@@ -98,15 +170,58 @@ IMPORTANT - Progress reporting:
 IMPORTANT - Mandatory memory recall:
 - Before answering questions about prior work, decisions, preferences, or anything discussed in past sessions, you MUST call memory_search first.
 - This ensures continuity across sessions even after gateway restarts.
+- memory_search also covers MEMORY.md (including lines beyond what is shown here), persona files and daily logs (source "memory").
 - If memory_search returns relevant results, incorporate them into your response.
 
 IMPORTANT - Auto memory capture:
 - When the user shares important facts, preferences, decisions, or asks you to remember something, proactively save it to MEMORY.md using write_persona.
 - When completing a significant task, save a brief summary of what was done to MEMORY.md.
 - Keep MEMORY.md organized by topic, concise, and under 200 lines.
-- Do NOT wait to be asked — capture important context automatically.`;
+- Do NOT wait to be asked — capture important context automatically.
+- Facts about one person (name, preferences) belong in USER.md with scope "user" (userId = the sender's ID), so other people in a group or other DMs don't see them. Use scope "chat" for things that apply to one chat only.`;
+
+/** Appended to the system prompt when block replies are enabled */
+const BLOCK_REPLY_PROMPT = `
+## Reply Delivery
+Your plain text output is delivered to the user automatically as you write it.
+You do not need to call send_message for normal replies; use it only to message a different chat or to attach a reply to a specific message.
+Never repeat via send_message text you already wrote as plain output.`;
+
+const RESET_CONFIRMATION = "새 대화를 시작합니다.";
+const STOP_CONFIRMATION = "진행 중인 작업을 중단했습니다.";
+const NOTHING_TO_STOP = "진행 중인 작업이 없습니다.";
+const FORGET_CONFIRMATION = "요청하신 대로 대화 기록과 기억을 모두 삭제했습니다.";
+const PERMISSION_DENIED = "이 명령어를 사용할 권한이 없습니다.";
+
+const AGENT_COMMAND_USAGE = "사용법: /agent [channel|chat|user] [model|turns|budget] [값|reset]";
+
+/** Setting names accepted by /agent */
+const AGENT_COMMAND_KEYS: Record<string, keyof AgentSettings> = {
+  model: "model",
+  turns: "maxTurns",
+  maxturns: "maxTurns",
+  budget: "maxBudgetPerMessage",
+  maxbudgetpermessage: "maxBudgetPerMessage",
+};
 
-const RESET_COMMANDS = ["/new", "/reset", "/리셋", "/새로"];
+const SCOPE_LABELS: Record<AgentSettingsScope, string> = {
+  global: "기본",
+  channel: "채널",
+  chat: "채팅",
+  user: "사용자",
+};
+
+/** Memory search results listed by /memory */
+const MEMORY_COMMAND_RESULTS = 5;
+/** /persona shows at most this many characters of a file */
+const PERSONA_COMMAND_MAX_CHARS = 3000;
+
+/** Image types the model accepts as content blocks */
+const IMAGE_BLOCK_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+/** Larger images are only referenced by path (API limit is 5 MB per image) */
+const MAX_IMAGE_BLOCK_BYTES = 5 * 1024 * 1024;
+
+type ContentBlock = Exclude<UserContent, string>[number];
 
 /** Error fallback messages by Agent SDK result subtype */
 const ERROR_FALLBACK: Record<string, string> = {
@@ -125,6 +240,13 @@ const PERSONA_FILES = [
   { file: "AGENTS.md", header: "Behavior Rules" },
 ] as const;
 
+/** Sub-headers for persona overlays stacked under the global file */
+const OVERLAY_HEADERS: Record<Exclude<PersonaScope, "global">, string> = {
+  channel: "For this channel",
+  chat: "For this chat",
+  user: "About the current sender",
+};
+
 // ─── AgentRunner ─────────────────────────────────────────────────────────────
 
 export class AgentRunner {
@@ -132,24 +254,31 @@ export class AgentRunner {
   private store: MessageStore;
   private channelManager: ChannelManager | null = null;
   private memoryManager: MemoryManager;
+  private personaHistory: PersonaHistory;
   private messageRouter: MessageRouter | null = null;
   private sessions = new Map<string, string>(); // convKey → sessionId
   private queues = new Map<string, QueueEntry[]>();
-  private activeSessions = new Set<string>();
+  private activeRuns = new Map<string, ActiveRun>();
   private inProcessMcp: ReturnType<typeof createAgentMcpServer> | null = null;
   private mcpDeps: AgentMcpDeps | null = null;
   private sessionsDir: string;
   private dataDir: string;
   private skillsCache: SkillMeta[] | null = null;
   private sessionsFile: string; // Disk-backed session store
+  private commands = new CommandRegistry();
+  private costLedger: CostLedger;
 
   constructor(
     store: MessageStore,
     memoryManager: MemoryManager,
+    personaHistory: PersonaHistory,
+    costLedger: CostLedger,
     config: Partial<AgentRunnerConfig>,
   ) {
     this.store = store;
     this.memoryManager = memoryManager;
+    this.personaHistory = personaHistory;
+    this.costLedger = costLedger;
     this.dataDir = getDataDir();
     this.config = {
       enabled: true,
@@ -179,23 +308,26 @@ export class AgentRunner {
     this.ensureSkillsDir();
     // Ensure memory directory
     this.ensureMemoryDir();
+    // Built-in chat commands (/help, /new, /stop, ...)
+    this.registerBuiltinCommands();
 
     console.log(`[agent-runner] Initialized (model: ${this.config.model}, maxTurns: ${this.config.maxTurns}, budget: $${this.config.maxBudgetPerMessage})`);
   }
 
+  /** Where sessions.json lives and the cwd transcripts are recorded under */
+  getSessionPaths(): { sessionsFile: string; cwd: string } {
+    return { sessionsFile: this.sessionsFile, cwd: this.sessionsDir };
+  }
+
   // ─── Session Persistence ─────────────────────────────────────────────────
 
   /** Load sessions map from disk (survives gateway restart) */
   private loadSessionsFromDisk(): void {
     try {
-      if (existsSync(this.sessionsFile)) {
-        const raw = readFileSync(this.sessionsFile, "utf-8");
-        const data = JSON.parse(raw) as Record<string, string>;
-        for (const [key, sessionId] of Object.entries(data)) {
-          if (typeof key === "string" && typeof sessionId === "string") {
-            this.sessions.set(key, sessionId);
-          }
-        }
+      for (const [key, sessionId] of readSessionsFile(this.sessionsFile)) {
+        this.sessions.set(key, sessionId);
+      }
+      if (this.sessions.size > 0) {
         console.log(`[agent-runner] Restored ${this.sessions.size} session(s) from disk`);
       }
     } catch (err) {
@@ -206,11 +338,7 @@ export class AgentRunner {
   /** Persist sessions map to disk */
   private saveSessionsToDisk(): void {
     try {
-      const data: Record<string, string> = {};
-      for (const [key, sessionId] of this.sessions) {
-        data[key] = sessionId;
-      }
-      writeFileSync(this.sessionsFile, JSON.stringify(data, null, 2), "utf-8");
+      writeSessionsFile(this.sessionsFile, this.sessions);
     } catch (err) {
       console.warn(`[agent-runner] Failed to save sessions to disk:`, err);
     }
@@ -227,14 +355,16 @@ export class AgentRunner {
       messageRouter,
       store: this.store,
       memoryManager: this.memoryManager,
+      personaHistory: this.personaHistory,
       dataDir: this.dataDir,
       messageSentHandlers: new Map(),
+      maxPersonaDropRatio: this.config.maxPersonaDropRatio,
     };
     this.mcpDeps = deps;
     this.inProcessMcp = createAgentMcpServer(deps);
 
     const skillCount = this.loadSkills().length;
-    console.log(`[agent-runner] In-process MCP server created with 7 tools`);
+    console.log(`[agent-runner] In-process MCP server created with 12 tools`);
     console.log(`[agent-runner] Loaded ${skillCount} skill(s)`);
     console.log(`[agent-runner] Persona files: ${this.getPersonaStatus()}`);
   }
@@ -324,8 +454,11 @@ export class AgentRunner {
 
   // ─── Persona System ──────────────────────────────────────────────────────
 
-  /** Load multi-file persona: SOUL.md + IDENTITY.md + USER.md + AGENTS.md */
-  private loadPersona(): string {
+  /**
+   * Load multi-file persona: SOUL.md + IDENTITY.md + USER.md + AGENTS.md,
+   * each followed by its channel / chat / user overlays (persona-scope.ts)
+   */
+  private loadPersona(target: PersonaTarget): string {
     const parts: string[] = [];
 
     // 1. Base system prompt
@@ -333,24 +466,30 @@ export class AgentRunner {
 
     // 2. Load each persona file
     for (const { file, header } of PERSONA_FILES) {
-      // Check custom persona file first, then data dir
-      const customPath = this.config.personaFile
-        ? join(this.config.personaFile, "..", file)
-        : null;
-      const defaultPath = join(this.dataDir, file);
+      const sections: string[] = [];
+      for (const layer of personaLayers(file, target)) {
+        // Check custom persona file first, then data dir (global layer only)
+        const customPath = layer.scope === "global" && this.config.personaFile
+          ? join(this.config.personaFile, "..", file)
+          : null;
+        const defaultPath = join(this.dataDir, layer.path);
 
-      const path = (customPath && existsSync(customPath)) ? customPath : defaultPath;
+        const path = (customPath && existsSync(customPath)) ? customPath : defaultPath;
+        if (!existsSync(path)) continue;
 
-      if (existsSync(path)) {
         try {
           const content = readFileSync(path, "utf-8").trim();
           if (content) {
-            parts.push(`\n## ${header}\n${content}`);
+            sections.push(layer.scope === "global" ? content : `### ${OVERLAY_HEADERS[layer.scope]}\n${content}`);
           }
         } catch {
           // skip
         }
       }
+
+      if (sections.length > 0) {
+        parts.push(`\n## ${header}\n${sections.join("\n\n")}`);
+      }
     }
 
     // 3. Load long-term memory
@@ -411,27 +550,22 @@ export class AgentRunner {
     }
   }
 
-  /** Auto-index conversation exchange into FTS memory for future recall */
-  private indexConversationMemory(key: string, userText: string, result: string): void {
+  /** Index one completed turn (user text, replies, tool outcomes) into memory */
+  private indexTurnMemory(key: string, turn: TurnLog | undefined, outcome: string): void {
+    if (!turn) return;
     try {
-      if (result !== "success" && result !== "unknown") return;
-      const text = userText.trim();
-      if (!text || text.length < 10) return; // skip trivial messages
-
-      const id = createHash("sha256")
-        .update(text + key + Date.now())
-        .digest("hex")
-        .slice(0, 16);
-
-      this.memoryManager.indexChunk({
-        id,
-        sessionKey: key,
-        text: `User: ${text.slice(0, 500)}`,
-        source: "session",
-        timestamp: Date.now(),
-      });
-    } catch {
-      // non-critical
+      const timestamp = Date.now();
+      for (const chunk of buildTurnChunks(key, turn, outcome)) {
+        this.memoryManager.indexChunk({
+          id: chunk.id,
+          sessionKey: key,
+          text: chunk.text,
+          source: "session",
+          timestamp,
+        });
+      }
+    } catch (err) {
+      console.warn(`[agent-runner] Failed to index turn for ${key}:`, err);
     }
   }
 
@@ -603,7 +737,7 @@ Be concise - code speaks louder than comments.`,
   // ─── Hooks ───────────────────────────────────────────────────────────────
 
   /** Build hooks configuration */
-  private buildHooks() {
+  private buildHooks(replyStream?: BlockReplyPipeline | null) {
     const hooks: Record<string, Array<{ matcher?: string; hooks: Array<(input: unknown, toolUseID: string, ctx: { signal: AbortSignal }) => Promise<Record<string, unknown>>> }>> = {};
 
     // PreToolUse: Message policy enforcement
@@ -612,11 +746,23 @@ Be concise - code speaks louder than comments.`,
         matcher: "mcp__gateway__send_message",
         hooks: [
           async (input: unknown) => {
-            const inp = input as { tool_input?: { text?: string } };
+            const inp = input as { tool_input?: { text?: string; media?: unknown[] } };
             const text = inp.tool_input?.text;
+            const hasMedia = (inp.tool_input?.media?.length ?? 0) > 0;
 
             if (!text) return {};
 
+            // Already delivered by the reply stream (attachments still need the tool)
+            if (!hasMedia && replyStream?.wasStreamed(text)) {
+              return {
+                hookSpecificOutput: {
+                  hookEventName: "PreToolUse",
+                  permissionDecision: "deny",
+                  permissionDecisionReason: "This text was already delivered to the user automatically. Do not resend it.",
+                },
+              };
+            }
+
             // Length limit
             const maxLen = this.config.maxMessageLength ?? 4000;
             if (maxLen > 0 && text.length > maxLen) {
@@ -669,19 +815,20 @@ Be concise - code speaks louder than comments.`,
 
   // ─── Queue & Session Management ──────────────────────────────────────────
 
+  /** channel:account:peer — accounts (e.g. two Telegram bots) never share a session */
   private getConversationKey(msg: ChannelMessage): string {
+    const prefix = `${msg.channel}:${msg.accountId ?? "default"}`;
     if (msg.chatType === "group" || msg.chatType === "channel") {
-      return `${msg.channel}:${msg.to?.id ?? msg.from.id}`;
+      return `${prefix}:${msg.to?.id ?? msg.from.id}`;
     }
-    return `${msg.channel}:${msg.from.id}`;
+    return `${prefix}:${msg.from.id}`;
   }
 
   private shouldRespond(msg: ChannelMessage): boolean {
     if (!this.config.enabled) return false;
     if (msg.from.id === "_self") return false;
 
-    const appConfig = loadConfig();
-    const channelConfig = appConfig.channels[msg.channel];
+    const channelConfig = getChannelAccountConfig(msg.channel, msg.accountId ?? "default");
     if (!channelConfig?.autoReply) return false;
 
     if (channelConfig.allowFrom && channelConfig.allowFrom.length > 0) {
@@ -694,6 +841,11 @@ Be concise - code speaks louder than comments.`,
       }
     }
 
+    // Group chats: only when addressed per the group policy (chat commands always pass)
+    if (msg.chatType !== "dm" && !this.matchCommand(msg)) {
+      return passesGroupGate(msg, resolveGroupGate(channelConfig, msg.to?.id ?? msg.from.id));
+    }
+
     return true;
   }
 
@@ -703,6 +855,15 @@ Be concise - code speaks louder than comments.`,
 
     const key = this.getConversationKey(msg);
 
+    // Chat commands bypass the debounce queue and act immediately
+    const command = this.matchCommand(msg);
+    if (command) {
+      this.runCommand(key, msg, command).catch((err) => {
+        console.error(`[agent-runner] Command /${command.command.name} failed for ${key}:`, err);
+      });
+      return;
+    }
+
     if (!this.queues.has(key)) {
       this.queues.set(key, []);
     }
@@ -725,28 +886,42 @@ Be concise - code speaks louder than comments.`,
   }
 
   private async processQueue(key: string): Promise<void> {
-    if (this.activeSessions.size >= this.config.maxConcurrent) {
+    const queue = this.queues.get(key);
+    if (!queue || queue.length === 0) return;
+
+    // Conversation already running: deliver follow-ups into the live session
+    const activeRun = this.activeRuns.get(key);
+    if (activeRun) {
+      this.injectIntoRun(key, activeRun, queue);
+      return;
+    }
+
+    if (this.activeRuns.size >= this.config.maxConcurrent) {
       console.log(`[agent-runner] Max concurrent sessions (${this.config.maxConcurrent}), deferring ${key}`);
       setTimeout(() => this.processQueue(key), 5000);
       return;
     }
 
-    if (this.activeSessions.has(key)) return;
-
-    const queue = this.queues.get(key);
-    if (!queue || queue.length === 0) return;
-
     const messages = [...queue];
     this.queues.delete(key);
 
-    this.activeSessions.add(key);
+    const run: ActiveRun = {
+      input: createInputStream(this.sessions.get(key)),
+      prompts: [],
+      senders: [],
+      turns: [],
+      abortController: new AbortController(),
+      typing: null,
+    };
+    this.activeRuns.set(key, run);
 
     try {
-      await this.invokeAgent(key, messages.map((e) => e.message));
+      await this.invokeAgent(key, messages.map((e) => e.message), run);
     } catch (err) {
       console.error(`[agent-runner] Error processing ${key}:`, err);
     } finally {
-      this.activeSessions.delete(key);
+      run.input.close();
+      this.activeRuns.delete(key);
 
       if (this.queues.has(key) && this.queues.get(key)!.length > 0) {
         this.processQueue(key);
@@ -754,44 +929,454 @@ Be concise - code speaks louder than comments.`,
     }
   }
 
-  private isResetCommand(text: string | undefined): boolean {
-    if (!text) return false;
-    const trimmed = text.trim().toLowerCase();
-    return RESET_COMMANDS.some((cmd) => trimmed === cmd || trimmed.startsWith(cmd + " "));
+  /**
+   * Push queued follow-up messages into an in-flight run as a new user turn.
+   * Leaves them queued when the run is already wrapping up; processQueue
+   * picks them up once the run finishes.
+   */
+  private injectIntoRun(key: string, run: ActiveRun, queue: QueueEntry[]): void {
+    // Follow-up senders are held to their own caps, like the sender who started the run
+    const { admitted: messages, refused } = this.checkSenderCaps(queue.map((e) => e.message));
+    if (messages.length > 0) {
+      const prompt = this.buildUserPrompt(messages);
+      if (!run.input.push(prompt)) return;
+
+      run.prompts.push(prompt);
+      run.senders.push(messages[messages.length - 1].from.id);
+      run.turns.push(createTurnLog(contentText(prompt), this.formatMessageTexts(messages)));
+      console.log(`[agent-runner] Injected ${messages.length} follow-up message(s) into running session ${key}`);
+    }
+    this.queues.delete(key);
+    for (const { message, check } of refused) void this.notifyCapReached(key, message, check);
   }
 
-  // ─── Agent Invocation ────────────────────────────────────────────────────
+  /** Drop queued messages and abort the in-flight run; returns the run, if any */
+  private cancelRun(key: string): ActiveRun | undefined {
+    const queue = this.queues.get(key);
+    if (queue) {
+      for (const entry of queue) {
+        if (entry.timer) clearTimeout(entry.timer);
+      }
+      this.queues.delete(key);
+    }
 
-  private async invokeAgent(key: string, messages: ChannelMessage[]): Promise<void> {
-    if (!this.inProcessMcp || !this.mcpDeps) {
-      console.error(`[agent-runner] In-process MCP not initialized. Call setDependencies() first.`);
+    const run = this.activeRuns.get(key);
+    if (run && !run.abortController.signal.aborted) {
+      run.input.close();
+      run.abortController.abort();
+      run.typing?.cleanup();
+      console.log(`[agent-runner] Run stopped for ${key}`);
+    }
+    return run;
+  }
+
+  /**
+   * "Forget me": delete the sender's stored messages, persona overlays and
+   * DM conversation (session, transcript, memories, daily-log entries).
+   * Shared group conversations are kept, minus the memories and log entries
+   * that quote the sender's messages.
+   */
+  private async forgetUser(msg: ChannelMessage): Promise<void> {
+    const accountId = msg.accountId ?? "default";
+    const prefix = `${msg.channel}:${accountId}:`;
+    const dmKeys = dmConversationKeys(msg.channel, accountId, msg.from.id);
+    const [dmKey] = dmKeys;
+
+    this.cancelRun(dmKey);
+    for (const key of dmKeys) {
+      const sessionId = this.sessions.get(key);
+      if (!sessionId) continue;
+      const transcript = findSessionTranscript(sessionId, this.sessionsDir);
+      if (transcript) rmSync(transcript, { force: true });
+      this.sessions.delete(key);
+      this.saveSessionsToDisk();
+    }
+
+    const sent = this.store.deleteUserMessages(msg.channel, accountId, msg.from.id);
+    const snippets = matchSnippets(sent.filter((m) => m.chatType !== "dm").map((m) => m.text));
+
+    const chunks =
+      dmKeys.reduce((sum, key) => sum + this.memoryManager.forget({ sessionKey: key }), 0) +
+      this.memoryManager.forgetContaining(prefix, snippets);
+    // Persona overlays about the sender (and their DM chat)
+    this.personaHistory.purge(personaScopeDir("user", { channel: msg.channel, userId: msg.from.id }));
+    this.personaHistory.purge(personaScopeDir("chat", { channel: msg.channel, chatId: msg.from.id }));
+
+    const entries = purgeDailyLogs(
+      join(this.dataDir, "memory"),
+      (entry) => dmKeys.includes(logEntryKey(entry) ?? "") || snippets.some((snippet) => entry.includes(snippet)),
+    );
+
+    console.log(
+      `[agent-runner] Forgot ${dmKey}: ${sent.length} message(s), ${chunks} memory chunk(s), ${entries} log entr(ies)`,
+    );
+  }
+
+  // ─── Chat Commands ───────────────────────────────────────────────────────
+
+  /** Add a chat command (replaces a built-in with the same name) */
+  registerCommand(definition: ChatCommandDefinition): void {
+    this.commands.register(definition);
+  }
+
+  /** Command list for the platform menus (Telegram, Discord) */
+  getCommandMenu(): ChatCommand[] {
+    return this.commands.menu();
+  }
+
+  /** The registered command a message invokes; "/cmd@otherbot" is left to that bot */
+  private matchCommand(msg: ChannelMessage): ReturnType<CommandRegistry["match"]> {
+    const match = this.commands.match(msg.text);
+    if (!match || (match.parsed.target && !msg.mentionsSelf)) return null;
+    return match;
+  }
+
+  private async runCommand(
+    key: string,
+    msg: ChannelMessage,
+    { command, parsed }: NonNullable<ReturnType<CommandRegistry["match"]>>,
+  ): Promise<void> {
+    const isAdmin = this.isCommandAdmin(msg);
+    const reply = async (text: string) => {
+      await this.messageRouter?.send(msg.channel, { to: this.getReplyTarget(msg), text }, msg.accountId ?? "default");
+    };
+
+    if (command.permission === "admin" && !isAdmin) {
+      await reply(PERMISSION_DENIED);
       return;
     }
 
-    const lastMsg = messages[messages.length - 1];
+    console.log(`[agent-runner] Command /${command.name} from ${msg.from.id} on ${key}`);
+    await command.handler({ msg, key, args: parsed.args, rawArgs: parsed.rawArgs, isAdmin, reply });
+  }
+
+  /**
+   * Configured admins. With none configured, only DM senders on the account's
+   * allowFrom list; a DM open to anyone never grants admin.
+   */
+  private isCommandAdmin(msg: ChannelMessage): boolean {
+    const matches = (entry: string) => entry === msg.from.id || entry === msg.from.username || entry === msg.from.name;
+    const admins = this.config.commandAdmins ?? [];
+    if (admins.length > 0) return admins.some(matches);
+    if (msg.chatType !== "dm") return false;
+    return (getChannelAccountConfig(msg.channel, msg.accountId ?? "default")?.allowFrom ?? []).some(matches);
+  }
 
-    // Handle reset commands
-    for (const m of messages) {
-      if (this.isResetCommand(m.text)) {
-        this.sessions.delete(key);
-        this.saveSessionsToDisk();
-        console.log(`[agent-runner] Session reset for ${key}`);
+  private registerBuiltinCommands(): void {
+    const builtins: ChatCommandDefinition[] = [
+      {
+        name: "help",
+        aliases: ["도움말"],
+        description: "명령어 목록",
+        handler: (ctx) => ctx.reply(this.commands.helpText(ctx.isAdmin)),
+      },
+      {
+        name: "new",
+        aliases: ["reset", "리셋", "새로"],
+        description: "새 대화 시작",
+        handler: (ctx) => this.resetConversation(ctx),
+      },
+      {
+        name: "stop",
+        aliases: ["cancel", "중지", "취소", "그만"],
+        description: "진행 중인 작업 중단 (대화는 유지)",
+        handler: (ctx) => ctx.reply(this.cancelRun(ctx.key) ? STOP_CONFIRMATION : NOTHING_TO_STOP),
+      },
+      {
+        name: "forgetme",
+        aliases: ["잊어줘"],
+        description: "내 대화 기록과 기억 삭제",
+        handler: async (ctx) => {
+          await this.forgetUser(ctx.msg);
+          await ctx.reply(FORGET_CONFIRMATION);
+        },
+      },
+      {
+        name: "status",
+        aliases: ["상태"],
+        description: "게이트웨이와 이 대화의 상태",
+        handler: (ctx) => ctx.reply(this.describeStatus(ctx.key, ctx.msg)),
+      },
+      {
+        name: "model",
+        aliases: ["모델"],
+        usage: "[모델 이름]",
+        description: "사용 중인 모델 확인 (관리자는 변경)",
+        handler: (ctx) => this.modelCommand(ctx),
+      },
+      {
+        name: "agent",
+        aliases: ["설정"],
+        usage: "[channel|chat|user] [model|turns|budget] [값|reset]",
+        description: "이 대화의 모델·턴·예산 설정 확인 (관리자는 변경)",
+        handler: (ctx) => this.agentSettingsCommand(ctx),
+      },
+      {
+        name: "cost",
+        aliases: ["비용"],
+        description: "이 대화와 나의 오늘·이번 달 사용 비용",
+        handler: (ctx) => ctx.reply(this.describeCost(ctx.key, ctx.msg)),
+      },
+      {
+        name: "memory",
+        aliases: ["기억"],
+        usage: "[검색어]",
+        description: "기억 통계 또는 검색",
+        handler: (ctx) => ctx.reply(this.memoryCommand(ctx)),
+      },
+      {
+        name: "persona",
+        aliases: ["페르소나"],
+        usage: "[파일]",
+        description: "이 대화에 적용되는 페르소나 파일 보기",
+        permission: "admin",
+        handler: (ctx) => ctx.reply(this.personaCommand(ctx)),
+      },
+      {
+        name: "skills",
+        aliases: ["스킬"],
+        description: "설치된 스킬 목록",
+        handler: (ctx) => ctx.reply(this.describeSkills()),
+      },
+    ];
+    for (const command of builtins) {
+      this.commands.register(command);
+    }
+  }
+
+  /** Drop the session (and anything queued or running) so the next message starts fresh */
+  private async resetConversation(ctx: CommandContext): Promise<void> {
+    this.cancelRun(ctx.key);
+    if (this.sessions.delete(ctx.key)) {
+      this.saveSessionsToDisk();
+    }
+    console.log(`[agent-runner] Session reset for ${ctx.key}`);
+    await ctx.reply(RESET_CONFIRMATION);
+  }
+
+  private describeStatus(key: string, msg: ChannelMessage): string {
+    return [
+      `상태: ${this.config.enabled ? "활성" : "비활성"}`,
+      `모델: ${this.resolveAgentSettings(msg).model}`,
+      `실행 중: ${this.activeRuns.size}/${this.config.maxConcurrent}, 대기 중인 대화: ${this.queues.size}`,
+      `이 대화: ${this.activeRuns.has(key) ? "작업 진행 중" : "대기"}, ${this.sessions.has(key) ? "이전 대화 이어가기" : "새 대화"}`,
+      `페르소나: ${this.getPersonaStatus()}`,
+      `스킬: ${this.loadSkills().length}개`,
+    ].join("\n");
+  }
+
+  /** Show the model, or switch the default model (admins; saved to config) */
+  private async modelCommand(ctx: CommandContext): Promise<void> {
+    const model = ctx.args[0];
+    if (!model) {
+      const settings = this.resolveAgentSettings(ctx.msg);
+      await ctx.reply(`현재 모델: ${settings.model} (${SCOPE_LABELS[settings.sources.model]} 설정)`);
+      return;
+    }
+    if (!ctx.isAdmin) {
+      await ctx.reply(PERMISSION_DENIED);
+      return;
+    }
+
+    this.config.model = model;
+    const config = loadConfig();
+    config.gateway.agentRunner.model = model;
+    saveConfig(config);
+    console.log(`[agent-runner] Model changed to ${model} by ${ctx.msg.from.id}`);
+    await ctx.reply(`모델을 ${model}(으)로 변경했습니다. 다음 메시지부터 적용됩니다.`);
+  }
+
+  /**
+   * Show this conversation's model / maxTurns / budget and where each comes
+   * from, or (admins) override one for the channel, this chat or the sender.
+   */
+  private async agentSettingsCommand(ctx: CommandContext): Promise<void> {
+    if (ctx.args.length === 0) {
+      await ctx.reply(this.describeAgentSettings(ctx.msg));
+      return;
+    }
+    if (!ctx.isAdmin) {
+      await ctx.reply(PERMISSION_DENIED);
+      return;
+    }
+
+    const [scope, name, rawValue] = ctx.args;
+    const key = AGENT_COMMAND_KEYS[name?.toLowerCase() ?? ""];
+    if ((scope !== "channel" && scope !== "chat" && scope !== "user") || !key || rawValue === undefined) {
+      await ctx.reply(AGENT_COMMAND_USAGE);
+      return;
+    }
+
+    let value: string | number | null = rawValue;
+    if (rawValue.toLowerCase() === "reset") {
+      value = null;
+    } else if (key !== "model") {
+      value = Number(rawValue);
+      if (!Number.isFinite(value) || value < 0) {
+        await ctx.reply(`${rawValue}: 0 이상의 숫자를 입력해 주세요.`);
         return;
       }
     }
 
-    // Build prompt
-    const senderLabel = lastMsg.from.name
-      ? `${lastMsg.from.name} (${lastMsg.from.id})`
-      : lastMsg.from.id;
+    const target: AgentOverrideTarget =
+      scope === "channel"
+        ? { scope }
+        : { scope, id: scope === "chat" ? this.getReplyTarget(ctx.msg) : ctx.msg.from.id };
+    setAgentOverrides(ctx.msg.channel, target, { [key]: value }, ctx.msg.accountId ?? "default");
+    console.log(`[agent-runner] ${scope} ${key} set to ${value ?? "(inherited)"} on ${ctx.key} by ${ctx.msg.from.id}`);
+
+    await ctx.reply(`${SCOPE_LABELS[scope]} ${name} 설정을 ${value === null ? "초기화" : "변경"}했습니다.\n\n${this.describeAgentSettings(ctx.msg)}`);
+  }
+
+  private describeAgentSettings(msg: ChannelMessage): string {
+    const settings = this.resolveAgentSettings(msg);
+    const source = (key: keyof AgentSettings) => `(${SCOPE_LABELS[settings.sources[key]]})`;
+    return [
+      "이 대화의 에이전트 설정:",
+      `- 모델: ${settings.model} ${source("model")}`,
+      `- 최대 턴: ${settings.maxTurns || "무제한"} ${source("maxTurns")}`,
+      `- 메시지당 예산: $${settings.maxBudgetPerMessage} ${source("maxBudgetPerMessage")}`,
+    ].join("\n");
+  }
 
-    const messageTexts = messages
-      .map((m) => m.text ?? "(media/attachment)")
+  /** Spending today and this month (UTC) from the cost ledger, with the sender's caps */
+  private describeCost(key: string, msg: ChannelMessage): string {
+    const now = Date.now();
+    const day = startOfUtcDay(now);
+    const month = startOfUtcMonth(now);
+    const user = { channel: msg.channel, userId: msg.from.id };
+    const caps = this.config.budgetCaps ? resolveCostCaps(this.config.budgetCaps, user) : undefined;
+    const usd = (value: number) => `$${value.toFixed(4)}`;
+    const withCap = (spent: number, cap: number | undefined) => (cap ? `${usd(spent)} / ${usd(cap)}` : usd(spent));
+
+    return [
+      "사용 비용 (UTC 기준):",
+      `- 이 대화: 오늘 ${usd(this.costLedger.spent({ sessionKey: key }, day))}, 이번 달 ${usd(this.costLedger.spent({ sessionKey: key }, month))}`,
+      `- 나: 오늘 ${withCap(this.costLedger.spent(user, day), caps?.userDaily)}, 이번 달 ${withCap(this.costLedger.spent(user, month), caps?.userMonthly)}`,
+      `- ${msg.channel} 전체: 오늘 ${withCap(this.costLedger.spent({ channel: msg.channel }, day), caps?.channelDaily)}, 이번 달 ${withCap(this.costLedger.spent({ channel: msg.channel }, month), caps?.channelMonthly)}`,
+    ].join("\n");
+  }
+
+  /** Index stats, or a search (non-admins only see this conversation's memories) */
+  private memoryCommand(ctx: CommandContext): string {
+    if (!ctx.rawArgs) {
+      const stats = this.memoryManager.getStats();
+      return `기억: 조각 ${stats.totalChunks}개, 대화 ${stats.totalSessions}개`;
+    }
+
+    const results = this.memoryManager.search(ctx.rawArgs, {
+      maxResults: MEMORY_COMMAND_RESULTS,
+      ...(ctx.isAdmin ? {} : { sessionKey: ctx.key }),
+    });
+    if (results.length === 0) return "검색 결과가 없습니다.";
+    return results
+      .map((r) => `- [${new Date(r.timestamp).toISOString().slice(0, 10)}] ${r.snippet.replace(/\s+/g, " ").slice(0, 200)}`)
       .join("\n");
+  }
+
+  /** Persona layers of this conversation, or one file's content per layer */
+  private personaCommand(ctx: CommandContext): string {
+    const target: PersonaTarget = {
+      channel: ctx.msg.channel,
+      chatId: this.getReplyTarget(ctx.msg),
+      userId: ctx.msg.from.id,
+    };
+    const requested = ctx.args[0]?.toUpperCase().replace(/\.MD$/, "");
+    const files = requested
+      ? PERSONA_FILES.filter(({ file }) => file === `${requested}.md`)
+      : PERSONA_FILES;
+    if (files.length === 0) {
+      return `알 수 없는 파일입니다: ${ctx.args[0]} (${PERSONA_FILES.map(({ file }) => file).join(", ")})`;
+    }
+
+    const lines: string[] = [];
+    for (const { file } of files) {
+      const layers = personaLayers(file, target)
+        .map((layer) => ({ ...layer, content: this.personaHistory.read(layer.path) }))
+        .filter((layer) => layer.content !== null && layer.content.trim() !== "");
+
+      if (!requested) {
+        const summary = layers.map((l) => `${l.scope} ${l.content!.split("\n").length}줄`).join(", ");
+        lines.push(`- ${file}: ${summary || "없음"}`);
+        continue;
+      }
+      for (const layer of layers) {
+        lines.push(`### ${layer.path}`, layer.content!.trim(), "");
+      }
+    }
+
+    const text = lines.join("\n").trim() || "내용이 없습니다.";
+    return text.length > PERSONA_COMMAND_MAX_CHARS ? text.slice(0, PERSONA_COMMAND_MAX_CHARS) + "\n...(생략)" : text;
+  }
+
+  private describeSkills(): string {
+    const skills = this.loadSkills();
+    if (skills.length === 0) return "설치된 스킬이 없습니다.";
+    return skills.map((skill) => `- ${skill.name}: ${skill.description.slice(0, 100)}`).join("\n");
+  }
+
+  // ─── Agent Invocation ────────────────────────────────────────────────────
+
+  /** Model, maxTurns and budget for a message: global → channel → chat → user overrides */
+  private resolveAgentSettings(msg: ChannelMessage): ResolvedAgentSettings {
+    return resolveAgentSettings(
+      {
+        model: this.config.model,
+        maxTurns: this.config.maxTurns,
+        maxBudgetPerMessage: this.config.maxBudgetPerMessage,
+      },
+      getChannelAccountConfig(msg.channel, msg.accountId ?? "default"),
+      { chatId: this.getReplyTarget(msg), userId: msg.from.id },
+    );
+  }
+
+  private getReplyTarget(msg: ChannelMessage): string {
+    return msg.chatType === "dm" ? msg.from.id : (msg.to?.id ?? msg.from.id);
+  }
+
+  private formatMessageTexts(messages: ChannelMessage[]): string {
+    return messages
+      .map((m) => [m.text, ...(m.media ?? []).map((media) => this.describeAttachment(media))]
+        .filter(Boolean)
+        .join("\n"))
+      .join("\n");
+  }
+
+  /** One-line reference to an attachment, pointing at the stored file */
+  private describeAttachment(media: MessageMedia): string {
+    const label = media.fileName ? `${media.type} "${media.fileName}"` : media.type;
+    const path = attachmentPath(media);
+    return path ? `[${label}: ${path}]` : `[${label}: could not be downloaded]`;
+  }
+
+  /** Image attachments as base64 content blocks so the model can see them */
+  private buildImageBlocks(messages: ChannelMessage[]): ContentBlock[] {
+    const blocks: ContentBlock[] = [];
+    for (const media of messages.flatMap((m) => m.media ?? [])) {
+      if (media.type !== "image") continue;
+      const path = attachmentPath(media);
+      const mediaType = IMAGE_BLOCK_TYPES.find((t) => t === media.mimeType);
+      if (!path || !mediaType || !existsSync(path)) continue;
+      if (statSync(path).size > MAX_IMAGE_BLOCK_BYTES) continue;
+
+      blocks.push({
+        type: "image",
+        source: { type: "base64", media_type: mediaType, data: readFileSync(path).toString("base64") },
+      });
+    }
+    return blocks;
+  }
 
-    const replyTo = lastMsg.chatType === "dm" ? lastMsg.from.id : (lastMsg.to?.id ?? lastMsg.from.id);
+  /** Build the user turn for a batch of messages (last message is the reply context) */
+  private buildUserPrompt(messages: ChannelMessage[]): UserContent {
+    const lastMsg = messages[messages.length - 1];
+    const senderLabel = lastMsg.from.name
+      ? `${lastMsg.from.name} (${lastMsg.from.id})`
+      : lastMsg.from.id;
+    const replyTo = this.getReplyTarget(lastMsg);
 
-    const userPrompt = [
+    const hasAttachments = messages.some((m) => m.media?.length);
+    const text = [
       `## Incoming message`,
       `- **Channel**: ${lastMsg.channel}`,
       `- **From**: ${senderLabel}`,
@@ -799,11 +1384,95 @@ Be concise - code speaks louder than comments.`,
       `- **Time**: ${new Date(lastMsg.timestamp).toISOString()}`,
       "",
       `**Message:**`,
-      messageTexts,
+      this.formatMessageTexts(messages),
       "",
-      `Reply using the send_message tool with channel="${lastMsg.channel}" and to="${replyTo}".`,
+      this.streamsReplies()
+        ? `Reply in plain text (delivered automatically to channel="${lastMsg.channel}", to="${replyTo}").`
+        : `Reply using the send_message tool with channel="${lastMsg.channel}" and to="${replyTo}".`,
+      ...(hasAttachments ? ["Attachments are saved as local files; open documents with the Read tool."] : []),
     ].join("\n");
 
+    const images = this.buildImageBlocks(messages);
+    return images.length > 0 ? [{ type: "text", text }, ...images] : text;
+  }
+
+  /** Whether assistant text is delivered automatically (block replies or live edit) */
+  private streamsReplies(): boolean {
+    return (this.config.blockReplies?.enabled || this.config.liveEdit?.enabled) ?? false;
+  }
+
+  /**
+   * Pick the reply stream for a run: live edits when enabled and the channel
+   * can edit messages, otherwise coalesced block replies. Null when neither
+   * mode is enabled (agent replies only through send_message).
+   */
+  private createReplyStream(
+    lastMsg: ChannelMessage,
+    replyTo: string,
+    onSent: () => void,
+  ): BlockReplyPipeline | null {
+    if (!this.streamsReplies() || !this.messageRouter) return null;
+
+    const router = this.messageRouter;
+    const accountId = lastMsg.accountId ?? "default";
+    const send = async (text: string) => {
+      const result = await router.send(lastMsg.channel, { to: replyTo, text }, accountId);
+      if (result.success) onSent();
+      return result;
+    };
+
+    const liveEdit = this.config.liveEdit;
+    if (liveEdit?.enabled && router.supportsEdit(lastMsg.channel, accountId)) {
+      return createLiveEditPipeline({
+        throttleMs: liveEdit.throttleMs,
+        maxChars: liveEdit.maxChars,
+        placeholder: liveEdit.placeholder,
+        // The placeholder is not a reply; only text edited in counts as sent
+        send: async (text) => {
+          const result = await router.send(lastMsg.channel, { to: replyTo, text }, accountId);
+          return result.success ? (result.messageId ?? null) : null;
+        },
+        onDelivered: onSent,
+        edit: async (messageId, text) => {
+          const result = await router.edit(lastMsg.channel, replyTo, messageId, text, accountId);
+          return result.success;
+        },
+      });
+    }
+
+    // Channels without edit support fall back to block replies
+    const blockConfig = this.config.blockReplies;
+    return createBlockReplyPipeline({
+      minChars: blockConfig?.minChars,
+      maxChars: blockConfig?.maxChars,
+      idleMs: blockConfig?.idleMs,
+      send: async (text) => (await send(text)).success,
+    });
+  }
+
+  private async invokeAgent(key: string, queued: ChannelMessage[], run: ActiveRun): Promise<void> {
+    if (!this.inProcessMcp || !this.mcpDeps) {
+      console.error(`[agent-runner] In-process MCP not initialized. Call setDependencies() first.`);
+      return;
+    }
+
+    // Spending caps are checked before any work: senders over a cap are told
+    // so and left out, and the run may not exceed what the others have left
+    const { admitted: messages, refused, remaining } = this.checkSenderCaps(queued);
+    for (const { message, check } of refused) await this.notifyCapReached(key, message, check);
+    if (messages.length === 0) return;
+
+    const lastMsg = messages[messages.length - 1];
+    const settings = this.resolveAgentSettings(lastMsg);
+
+    // Build prompt (first turn of the streaming input)
+    const replyTo = this.getReplyTarget(lastMsg);
+    const prompt = this.buildUserPrompt(messages);
+    run.turns.push(createTurnLog(contentText(prompt), this.formatMessageTexts(messages)));
+    run.prompts.push(prompt);
+    run.senders.push(lastMsg.from.id);
+    run.input.push(prompt);
+
     console.log(`[agent-runner] Invoking agent for ${key} (${messages.length} message(s))`);
 
     // --- 1. TypingController ---
@@ -813,16 +1482,29 @@ Be concise - code speaks louder than comments.`,
         this.channelManager?.sendTyping(lastMsg.channel, typingChatId, lastMsg.accountId).catch(() => {});
       },
     });
+    run.typing = typing;
 
-    // --- 2. ReplyTracker ---
+    // --- 2. ReplyTracker + per-turn memory log ---
     const tracker = createReplyTracker();
+    let completedTurns = 0;
+    const currentTurn = () => run.turns[Math.min(completedTurns, run.turns.length - 1)];
+
+    // --- 2b. Reply stream (opt-in): live edits or block replies of assistant text ---
+    const onStreamSent = () => {
+      tracker.recordSend();
+      typing.refresh();
+    };
+    const replyStream = this.createReplyStream(lastMsg, replyTo, onStreamSent);
 
     // --- 3. Register messageSentHandlers callback ---
-    const handlerKey = `${lastMsg.channel}:${replyTo}`;
-    this.mcpDeps.messageSentHandlers.set(handlerKey, () => {
+    const handlerKey = sentHandlerKey(lastMsg.channel, lastMsg.accountId ?? "default", replyTo);
+    const onToolSent = (text: string) => {
       tracker.recordSend();
+      recordReply(currentTurn(), text);
       typing.refresh();
-    });
+      replyStream?.recordToolSend(text);
+    };
+    this.mcpDeps.messageSentHandlers.set(handlerKey, onToolSent);
 
     // --- 4. Helper: send fallback message ---
     const sendFallback = async (text: string) => {
@@ -837,16 +1519,104 @@ Be concise - code speaks louder than comments.`,
       }
     };
 
-    const abortController = new AbortController();
-    const sessionId = this.sessions.get(key);
+    const abortController = run.abortController;
+    const modelChain = buildModelChain(settings.model, this.config.fallbackModels);
+    let modelIndex = 0;
+    let resumeId = this.sessions.get(key);
+
+    let startedAt = Date.now();
+    let resultSubtype = "unknown";
+    let turnCount = 0;
+    let lastToolUsed = "";
+    let lastResult: SDKResultMessage | null = null;
+    let chargedUsd = 0;
+    let maxBudgetUsd = Math.min(settings.maxBudgetPerMessage, remaining);
+    let capReached: CapReached | null = null;
+
+    /**
+     * Ledger row for the current user turn, charged to the sender it answers.
+     * A result's total_cost_usd adds up over the query() run and its usage
+     * covers only that turn, so the cost is what the run spent since the last row.
+     */
+    const recordTurn = (subtype: string) => {
+      this.recordRun({
+        sessionKey: key,
+        channel: lastMsg.channel,
+        accountId: lastMsg.accountId ?? "default",
+        userId: run.senders[Math.min(completedTurns, run.senders.length - 1)],
+        model: modelChain[modelIndex],
+        turns: turnCount,
+        costUsd: lastResult ? lastResult.total_cost_usd - chargedUsd : 0,
+        inputTokens: lastResult?.usage.input_tokens ?? 0,
+        outputTokens: lastResult?.usage.output_tokens ?? 0,
+        cacheReadTokens: lastResult?.usage.cache_read_input_tokens ?? 0,
+        cacheCreationTokens: lastResult?.usage.cache_creation_input_tokens ?? 0,
+        durationMs: Date.now() - startedAt,
+        subtype,
+        lastTool: lastToolUsed || null,
+        createdAt: startedAt,
+      });
+      if (lastResult) chargedUsd = lastResult.total_cost_usd;
+      startedAt = Date.now();
+      turnCount = 0;
+      lastToolUsed = "";
+      lastResult = null;
+    };
+
+    /**
+     * Set up another attempt after a failure. Only while nothing reached the
+     * user and no turn was answered, so the same prompts can be replayed:
+     * transient errors move on to the next model, a broken resume retries
+     * the same model in a new session. The failed attempt is charged first,
+     * and the next one must still fit every sender's caps (else capReached).
+     */
+    const prepareRetry = (failure: unknown, subtype: string): boolean => {
+      if (abortController.signal.aborted || tracker.hasSent() || completedTurns > 0) return false;
+
+      const kind = classifyAgentError(failure);
+      const model = modelChain[modelIndex];
+      if (kind === "session" && resumeId) {
+        console.warn(`[agent-runner] Session ${resumeId} for ${key} could not be resumed, starting a new one`);
+      } else if (kind === "transient" && modelIndex < modelChain.length - 1) {
+        console.warn(`[agent-runner] ${model} failed for ${key} (${subtype}), falling back to ${modelChain[modelIndex + 1]}`);
+      } else {
+        return false;
+      }
+
+      recordTurn(subtype);
+      chargedUsd = 0;
+
+      const budget = this.checkRunCaps(lastMsg.channel, run.senders);
+      if (!budget.allowed) {
+        console.log(`[agent-runner] ${budget.scope} ${budget.period} cap reached for ${key} before retrying ($${budget.spent.toFixed(4)} of $${budget.cap})`);
+        capReached = budget;
+        return false;
+      }
+      maxBudgetUsd = Math.min(settings.maxBudgetPerMessage, budget.remaining);
+
+      if (kind === "session") resumeId = undefined;
+      else modelIndex++;
+
+      // Replay the run's prompts into a fresh input stream; partial output is dropped
+      run.input.close();
+      run.input = createInputStream(resumeId);
+      for (const prompt of run.prompts) run.input.push(prompt);
+      run.turns = run.turns.map((turn) => createTurnLog(turn.turnId, turn.userText));
+      replyStream?.reset();
+      resultSubtype = "unknown";
+      return true;
+    };
 
     try {
       // --- Start typing ---
       await typing.start();
 
-      const systemPrompt = this.loadPersona();
+      const systemPrompt = this.loadPersona({
+        channel: lastMsg.channel,
+        chatId: replyTo,
+        userId: lastMsg.from.id,
+      });
       const subagents = this.buildSubagents();
-      const hooks = this.buildHooks();
       const hasSubagents = Object.keys(subagents).length > 0;
 
       // Build allowed tools list
@@ -856,88 +1626,181 @@ Be concise - code speaks louder than comments.`,
         "mcp__gateway__list_conversations",
         "mcp__gateway__memory_search",
         "mcp__gateway__memory_stats",
+        "mcp__gateway__memory_forget",
+        "mcp__gateway__memory_update",
         "mcp__gateway__read_persona",
         "mcp__gateway__write_persona",
+        "mcp__gateway__persona_history",
+        "mcp__gateway__persona_diff",
+        "mcp__gateway__persona_rollback",
       ];
       if (hasSubagents) {
         allowedTools.push("Task");
       }
 
-      // --- 5. Agent SDK query() stream ---
-      const q = query({
-        prompt: userPrompt,
-        options: {
-          model: this.config.model,
-          systemPrompt: {
-            type: "preset",
-            preset: "claude_code",
-            append: systemPrompt,
-          },
-          resume: sessionId,
-          permissionMode: "bypassPermissions",
-          allowDangerouslySkipPermissions: true,
-          cwd: this.sessionsDir,
-          mcpServers: {
-            gateway: this.inProcessMcp,
-          },
-          allowedTools,
-          ...(hasSubagents ? { agents: subagents } : {}),
-          hooks,
-          ...(this.config.maxTurns > 0 ? { maxTurns: this.config.maxTurns } : {}),
-          maxBudgetUsd: this.config.maxBudgetPerMessage,
-          abortController,
-        },
-      });
+      // One attempt per model of the fallback chain, until one is not retried
+      let retrying = true;
+      while (retrying) {
+        retrying = false;
+        const model = modelChain[modelIndex];
+        const hooks = this.buildHooks(replyStream);
+        let apiError: SDKAssistantMessageError | undefined;
 
-      console.log(`[agent-runner] query() started for ${key} (maxTurns: ${this.config.maxTurns || "unlimited"}, maxBudget: $${this.config.maxBudgetPerMessage})`);
+        try {
+          // --- 5. Agent SDK query() stream (streaming input: follow-ups become new turns) ---
+          const q = query({
+            prompt: run.input,
+            options: {
+              model,
+              systemPrompt: {
+                type: "preset",
+                preset: "claude_code",
+                append: replyStream ? systemPrompt + "\n" + BLOCK_REPLY_PROMPT : systemPrompt,
+              },
+              resume: resumeId,
+              permissionMode: "bypassPermissions",
+              allowDangerouslySkipPermissions: true,
+              cwd: this.sessionsDir,
+              mcpServers: {
+                gateway: this.inProcessMcp,
+              },
+              allowedTools,
+              ...(hasSubagents ? { agents: subagents } : {}),
+              hooks,
+              ...(settings.maxTurns > 0 ? { maxTurns: settings.maxTurns } : {}),
+              maxBudgetUsd,
+              abortController,
+              ...(replyStream ? { includePartialMessages: true } : {}),
+            },
+          });
+
+          console.log(`[agent-runner] query() started for ${key} (model: ${model}, maxTurns: ${settings.maxTurns || "unlimited"}, maxBudget: $${maxBudgetUsd})`);
+
+          const toolNames = new Map<string, string>(); // tool_use id → name
+
+          for await (const msg of q) {
+            // Capture session ID for resume (persist to disk)
+            if ("session_id" in msg && msg.session_id) {
+              const prev = this.sessions.get(key);
+              this.sessions.set(key, msg.session_id);
+              if (prev !== msg.session_id) {
+                this.saveSessionsToDisk();
+              }
+            }
 
-      let resultSubtype = "unknown";
-      let turnCount = 0;
-      let lastToolUsed = "";
+            // Feed top-level assistant text deltas into the block-reply pipeline
+            if (replyStream && msg.type === "stream_event" && msg.parent_tool_use_id === null) {
+              const event = msg.event;
+              if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+                replyStream.push(event.delta.text);
+              } else if (event.type === "content_block_stop") {
+                replyStream.endBlock();
+              } else if (
+                event.type === "content_block_start" &&
+                event.content_block.type === "tool_use" &&
+                event.content_block.name === "mcp__gateway__send_message"
+              ) {
+                replyStream.hold();
+              }
+            }
 
-      for await (const msg of q) {
-        // Capture session ID for resume (persist to disk)
-        if ("session_id" in msg && msg.session_id) {
-          const prev = this.sessions.get(key);
-          this.sessions.set(key, msg.session_id);
-          if (prev !== msg.session_id) {
-            this.saveSessionsToDisk();
-          }
-        }
+            // Refresh typing on assistant activity; remember API errors for classification
+            if (msg.type === "assistant") {
+              turnCount++;
+              typing.refresh();
+              if (msg.error) apiError = msg.error;
+            }
 
-        // Refresh typing on assistant activity
-        if (msg.type === "assistant") {
-          turnCount++;
-          typing.refresh();
-        }
+            // Collect the turn's assistant text and tool calls for memory indexing
+            if (msg.type === "assistant" && msg.parent_tool_use_id === null) {
+              for (const block of msg.message.content) {
+                if (block.type === "text") {
+                  recordReply(currentTurn(), block.text);
+                } else if (block.type === "tool_use") {
+                  toolNames.set(block.id, block.name);
+                }
+              }
+            }
+            if (msg.type === "user" && msg.parent_tool_use_id === null && Array.isArray(msg.message.content)) {
+              for (const block of msg.message.content) {
+                if (block.type !== "tool_result") continue;
+                const toolName = toolNames.get(block.tool_use_id);
+                // send_message texts are already recorded as replies
+                if (!toolName || toolName === "mcp__gateway__send_message") continue;
+                recordToolOutcome(currentTurn(), toolName, block.is_error === true, contentText(block.content));
+              }
+            }
 
-        // Track last tool used for diagnostics
-        if (msg.type === "assistant" && "message" in msg) {
-          const assistantMsg = msg as { message?: { content?: Array<{ type: string; name?: string }> } };
-          const toolUse = assistantMsg.message?.content?.findLast?.((b: { type: string }) => b.type === "tool_use");
-          if (toolUse && "name" in toolUse) {
-            lastToolUsed = (toolUse as { name: string }).name;
-          }
-        }
+            // Track last tool used for diagnostics
+            if (msg.type === "assistant" && "message" in msg) {
+              const assistantMsg = msg as { message?: { content?: Array<{ type: string; name?: string }> } };
+              const toolUse = assistantMsg.message?.content?.findLast?.((b: { type: string }) => b.type === "tool_use");
+              if (toolUse && "name" in toolUse) {
+                lastToolUsed = (toolUse as { name: string }).name;
+              }
+            }
 
-        // Track costs from result
-        if (msg.type === "result") {
-          resultSubtype = msg.subtype;
-          const resultMsg = msg as { usage?: { total_cost_usd?: number }; subtype: string };
-          const cost = resultMsg.usage?.total_cost_usd ?? 0;
-          if (msg.subtype === "success") {
-            console.log(`[agent-runner] Session ${key} completed. turns=${turnCount}, cost=$${cost.toFixed(4)}, sent=${tracker.getSentCount()}`);
-          } else {
-            console.error(`[agent-runner] Session ${key} ended: ${msg.subtype} | turns=${turnCount}, cost=$${cost.toFixed(4)}, sent=${tracker.getSentCount()}, lastTool=${lastToolUsed}`);
+            // Track costs from result
+            if (msg.type === "result") {
+              resultSubtype = msg.subtype;
+              lastResult = msg;
+              const cost = msg.total_cost_usd ?? 0;
+              if (msg.subtype === "success" && !msg.is_error) {
+                console.log(`[agent-runner] Session ${key} completed. model=${model}, turns=${turnCount}, cost=$${cost.toFixed(4)}, sent=${tracker.getSentCount()}`);
+              } else {
+                console.error(`[agent-runner] Session ${key} ended: ${msg.subtype} | model=${model}, turns=${turnCount}, cost=$${cost.toFixed(4)}, sent=${tracker.getSentCount()}, lastTool=${lastToolUsed}`);
+              }
+
+              // API failure before anything was answered: retry on the next model
+              const failure = describeResultFailure(msg, apiError);
+              if (failure !== null && prepareRetry(failure, msg.subtype)) {
+                q.close();
+                retrying = true;
+                break;
+              }
+              if (capReached) {
+                q.close();
+                break;
+              }
+
+              // Deliver the rest of this turn's text before the next turn starts
+              await replyStream?.flush();
+
+              // Index the finished user+assistant exchange for future recall
+              this.indexTurnMemory(key, currentTurn(), msg.subtype);
+              recordTurn(msg.subtype);
+              completedTurns++;
+
+              // One result per user turn; input closes once no follow-ups are pending
+              run.input.completeTurn();
+            }
           }
+        } catch (err) {
+          // The SDK's AbortError does not set `name`; the signal is authoritative
+          const aborted = abortController.signal.aborted || err instanceof AbortError;
+          if (aborted || !prepareRetry(err, "exception")) throw err;
+          retrying = true;
         }
       }
 
       // --- 6. Agent run complete ---
       typing.markRunComplete();
 
+      // Stopped via /stop or /cancel: the user already got a confirmation
+      if (abortController.signal.aborted) {
+        console.log(`[agent-runner] Session ${key} aborted`);
+        return;
+      }
+
+      if (modelIndex > 0) {
+        console.log(`[agent-runner] Session ${key} answered by fallback model ${modelChain[modelIndex]}`);
+      }
+
       // --- 7. Always notify user of outcome ---
-      if (resultSubtype === "success") {
+      if (capReached) {
+        // A failed attempt used up the budget before a fallback could run
+        await sendFallback(this.describeCapReached(capReached));
+      } else if (resultSubtype === "success") {
         // Success but agent never called send_message
         if (!tracker.hasSent()) {
           console.log(`[agent-runner] No reply sent for ${key} (success), sending fallback`);
@@ -954,24 +1817,112 @@ Be concise - code speaks louder than comments.`,
       typing.markDispatchIdle();
 
       // Daily log
+      const messageTexts = run.turns.map((t) => t.userText).join("\n");
       this.appendDailyLog(key, messageTexts.slice(0, 300), resultSubtype);
 
-      // Auto-index conversation into memory for future recall
-      this.indexConversationMemory(key, messageTexts, resultSubtype);
-
     } catch (err) {
-      if (err instanceof Error && err.name === "AbortError") {
+      if (abortController.signal.aborted || err instanceof AbortError) {
         console.log(`[agent-runner] Session ${key} aborted`);
       } else {
         console.error(`[agent-runner] Session ${key} failed:`, err);
+        resultSubtype = "exception";
         // Exception: always notify user
-        await sendFallback(DEFAULT_ERROR);
+        await sendFallback(capReached ? this.describeCapReached(capReached) : DEFAULT_ERROR);
       }
     } finally {
       // --- 9. Cleanup ---
+      run.input.close();
+      replyStream?.cleanup();
       typing.cleanup();
-      this.mcpDeps?.messageSentHandlers.delete(handlerKey);
+      if (this.mcpDeps?.messageSentHandlers.get(handlerKey) === onToolSent) {
+        this.mcpDeps.messageSentHandlers.delete(handlerKey);
+      }
+
+      // --- 10. Cost ledger: the turn that was cut short, if any ---
+      if (!capReached && (completedTurns < run.turns.length || turnCount > 0)) {
+        recordTurn(abortController.signal.aborted ? "aborted" : resultSubtype);
+      }
+    }
+  }
+
+  private recordRun(run: AgentRunRecord): void {
+    try {
+      this.costLedger.record(run);
+    } catch (err) {
+      console.warn(`[agent-runner] Failed to record run for ${run.sessionKey}:`, err);
+    }
+  }
+
+  /**
+   * Split messages by whether their sender is still under the spending caps;
+   * `remaining` is the USD left under the tightest cap of the admitted ones.
+   */
+  private checkSenderCaps(messages: ChannelMessage[]): {
+    admitted: ChannelMessage[];
+    refused: Array<{ message: ChannelMessage; check: CapReached }>;
+    remaining: number;
+  } {
+    const caps = this.config.budgetCaps;
+    const checks = new Map<string, CostCapCheck>();
+    const admitted: ChannelMessage[] = [];
+    const refused: Array<{ message: ChannelMessage; check: CapReached }> = [];
+    let remaining = Infinity;
+
+    for (const message of messages) {
+      const known = checks.get(message.from.id);
+      const check = known ?? (caps
+        ? this.costLedger.checkCaps(caps, { channel: message.channel, userId: message.from.id })
+        : ({ allowed: true, remaining: Infinity } as const));
+      checks.set(message.from.id, check);
+      if (check.allowed) {
+        admitted.push(message);
+        remaining = Math.min(remaining, check.remaining);
+      } else if (!known) {
+        refused.push({ message, check });
+      }
+    }
+    return { admitted, refused, remaining };
+  }
+
+  /** Caps of every sender in a run, with the USD left under the tightest one */
+  private checkRunCaps(channel: string, senders: string[]): CostCapCheck {
+    const caps = this.config.budgetCaps;
+    if (!caps) return { allowed: true, remaining: Infinity };
+
+    let remaining = Infinity;
+    for (const userId of new Set(senders)) {
+      const check = this.costLedger.checkCaps(caps, { channel, userId });
+      if (!check.allowed) return check;
+      remaining = Math.min(remaining, check.remaining);
     }
+    return { allowed: true, remaining };
+  }
+
+  /** Tell a sender over a spending cap that their message will not be answered */
+  private async notifyCapReached(
+    key: string,
+    message: ChannelMessage,
+    check: CapReached,
+  ): Promise<void> {
+    console.log(
+      `[agent-runner] ${check.scope} ${check.period} cap reached for ${key}, user ${message.from.id} ($${check.spent.toFixed(4)} of $${check.cap})`,
+    );
+    try {
+      await this.messageRouter?.send(
+        message.channel,
+        { to: this.getReplyTarget(message), text: this.describeCapReached(check) },
+        message.accountId ?? "default",
+      );
+    } catch (err) {
+      console.error(`[agent-runner] Failed to send cap notice for ${key}:`, err);
+    }
+  }
+
+  private describeCapReached(check: CapReached): string {
+    const scope = check.scope === "user" ? "개인" : "채널";
+    const period = check.period === "daily" ? "일일" : "월간";
+    const retry = check.period === "daily" ? "내일" : "다음 달에";
+    return `${scope} ${period} 사용 한도($${check.cap})에 도달했습니다. ${retry} 다시 이용해 주세요.`;
   }
 
   // ─── Status & Control ────────────────────────────────────────────────────
@@ -982,7 +1933,7 @@ Be concise - code speaks louder than comments.`,
     return {
       enabled: this.config.enabled,
       model: this.config.model,
-      activeSessions: this.activeSessions.size,
+      activeSessions: this.activeRuns.size,
       maxConcurrent: this.config.maxConcurrent,
       queuedConversations: this.queues.size,
       trackedSessions: this.sessions.size,
@@ -992,6 +1943,8 @@ Be concise - code speaks louder than comments.`,
       skills: skills.map((s) => s.name),
       subagents: Object.keys(subagents),
       hooks: ["PreToolUse:message_policy", "PostToolUse:tool_logger"],
+      blockReplies: this.config.blockReplies?.enabled ?? false,
+      liveEdit: this.config.liveEdit?.enabled ?? false,
     };
   }
 
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { AttachmentStore, attachmentPath } from "./attachment-store.js";
+
+describe("AttachmentStore", () => {
+  let tmpDir: string;
+  let store: AttachmentStore;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "attachments-test-"));
+    store = new AttachmentStore(tmpDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("writes buffers to a content-addressed file and drops the buffer", async () => {
+    const [media] = await store.persist([
+      { type: "image", buffer: Buffer.from("png-bytes"), mimeType: "image/png" },
+    ]);
+
+    const filePath = attachmentPath(media);
+    expect(filePath).not.toBeNull();
+    expect(filePath!.startsWith(tmpDir)).toBe(true);
+    expect(path.extname(filePath!)).toBe(".png");
+    expect(fs.readFileSync(filePath!, "utf-8")).toBe("png-bytes");
+    expect(media.buffer).toBeUndefined();
+  });
+
+  it("stores identical content once", async () => {
+    const [a] = await store.persist([{ type: "document", buffer: Buffer.from("same"), fileName: "a.txt" }]);
+    const [b] = await store.persist([{ type: "document", buffer: Buffer.from("same"), fileName: "b.txt" }]);
+
+    expect(attachmentPath(a)).toBe(attachmentPath(b));
+    expect(b.fileName).toBe("b.txt");
+  });
+
+  it("keeps the original file extension and guesses the mime type", async () => {
+    const [media] = await store.persist([
+      { type: "document", buffer: Buffer.from("%PDF"), fileName: "Report.PDF" },
+    ]);
+
+    expect(path.extname(attachmentPath(media)!)).toBe(".pdf");
+    expect(media.mimeType).toBe("application/pdf");
+  });
+
+  it("leaves attachments without content untouched", async () => {
+    const [media] = await store.persist([{ type: "audio", mimeType: "audio/ogg" }]);
+
+    expect(attachmentPath(media)).toBeNull();
+    expect(media).toEqual({ type: "audio", mimeType: "audio/ogg" });
+  });
+
+  describe("downloads", () => {
+    /** A chunked response (no content-length) streaming `chunks` pieces of `size` bytes */
+    function chunkedResponse(chunks: number, size: number): Response {
+      let sent = 0;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent++ < chunks) controller.enqueue(new Uint8Array(size).fill(97));
+          else controller.close();
+        },
+      });
+      return new Response(body, { status: 200 });
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it("stores a downloaded URL", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => chunkedResponse(2, 4)));
+
+      const [media] = await store.persist([{ type: "document", url: "https://cdn.example.com/a.txt", fileName: "a.txt" }]);
+      expect(fs.readFileSync(attachmentPath(media)!, "utf-8")).toBe("aaaaaaaa");
+    });
+
+    it("enforces the size cap while streaming a response without content-length", async () => {
+      const limited = new AttachmentStore(tmpDir, { maxBytes: 1000 });
+      vi.stubGlobal("fetch", vi.fn(async () => chunkedResponse(100, 100)));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const [media] = await limited.persist([{ type: "video", url: "https://cdn.example.com/big.mp4" }]);
+
+      expect(attachmentPath(media)).toBeNull();
+      expect(media.url).toBe("https://cdn.example.com/big.mp4");
+      expect(console.error).toHaveBeenCalledWith(
+        "[attachments] Failed to store video attachment:",
+        expect.objectContaining({ message: expect.stringContaining("too large") }),
+      );
+    });
+  });
+
+  describe("lazy loaders", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("stores what the loader returns and drops the loader", async () => {
+      const load = vi.fn(async () => Buffer.from("voice-bytes"));
+
+      const [media] = await store.persist([{ type: "audio", mimeType: "audio/ogg", size: 11, load }]);
+
+      expect(fs.readFileSync(attachmentPath(media)!, "utf-8")).toBe("voice-bytes");
+      expect(media.load).toBeUndefined();
+      expect(load).toHaveBeenCalledWith(expect.any(AbortSignal));
+    });
+
+    it("skips a loader whose declared size is over the cap", async () => {
+      const limited = new AttachmentStore(tmpDir, { maxBytes: 1000 });
+      const load = vi.fn(async () => Buffer.alloc(10));
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const [media] = await limited.persist([{ type: "video", size: 5000, load }]);
+
+      expect(load).not.toHaveBeenCalled();
+      expect(attachmentPath(media)).toBeNull();
+      expect(media).toEqual({ type: "video", size: 5000 });
+    });
+
+    it("rejects loaded content over the cap", async () => {
+      const limited = new AttachmentStore(tmpDir, { maxBytes: 1000 });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const [media] = await limited.persist([{ type: "document", load: async () => Buffer.alloc(5000) }]);
+
+      expect(attachmentPath(media)).toBeNull();
+      expect(console.error).toHaveBeenCalledWith(
+        "[attachments] Failed to store document attachment:",
+        expect.objectContaining({ message: expect.stringContaining("too large") }),
+      );
+    });
+
+    it("gives up on a loader that ignores the timeout", async () => {
+      const limited = new AttachmentStore(tmpDir, { timeoutMs: 20 });
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const [media] = await limited.persist([{ type: "image", load: () => new Promise<Buffer>(() => {}) }]);
+
+      expect(attachmentPath(media)).toBeNull();
+      expect(console.error).toHaveBeenCalledWith(
+        "[attachments] Failed to store image attachment:",
+        expect.objectContaining({ message: expect.stringContaining("timed out") }),
+      );
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * AttachmentStore - Content-addressed storage for inbound media.
+ *
+ * Adapters hand over attachments as buffers, as lazy loaders (Telegram,
+ * WhatsApp: fetched here, off the adapter's update loop) or as remote URLs
+ * (Discord CDN). All are written to
+ * `<dataDir>/attachments/<aa>/<sha256><ext>` so identical files are stored
+ * once, and MessageMedia.url is rewritten to the local file:// URL. Buffers
+ * and loaders are dropped afterwards; everything downstream reads from disk.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { extname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { MessageMedia } from "@open-claude-code/adapter-core";
+import { extensionFor, guessMimeType } from "./outbound-media.js";
+
+/** Skip downloads larger than this */
+const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+/** Local filesystem path of a persisted attachment, or null if it was never stored */
+export function attachmentPath(media: MessageMedia): string | null {
+  if (!media.url?.startsWith("file://")) return null;
+  return fileURLToPath(media.url);
+}
+
+export class AttachmentStore {
+  private dir: string;
+  private maxBytes: number;
+  private timeoutMs: number;
+
+  constructor(dir: string, options: { maxBytes?: number; timeoutMs?: number } = {}) {
+    this.dir = dir;
+    this.maxBytes = options.maxBytes ?? MAX_ATTACHMENT_BYTES;
+    this.timeoutMs = options.timeoutMs ?? DOWNLOAD_TIMEOUT_MS;
+  }
+
+  /**
+   * Persist every attachment that has content. Attachments that fail to
+   * download are returned unchanged (without a local url) and logged.
+   */
+  async persist(media: MessageMedia[]): Promise<MessageMedia[]> {
+    const stored: MessageMedia[] = [];
+    for (const item of media) {
+      try {
+        stored.push(await this.persistOne(item));
+      } catch (err) {
+        console.error(`[attachments] Failed to store ${item.type} attachment:`, err);
+        const { buffer: _buffer, load: _load, ...rest } = item;
+        stored.push(rest);
+      }
+    }
+    return stored;
+  }
+
+  private async persistOne(media: MessageMedia): Promise<MessageMedia> {
+    const data = media.buffer ?? (media.load ? await this.load(media) : await this.download(media.url));
+    if (!data) return media;
+
+    const hash = createHash("sha256").update(data).digest("hex");
+    const mimeType = media.mimeType ?? (media.fileName ? guessMimeType(media.fileName) : undefined);
+    const ext = (media.fileName ? extname(media.fileName) : "") || extensionFor(mimeType);
+    const dir = join(this.dir, hash.slice(0, 2));
+    const filePath = join(dir, `${hash}${ext.toLowerCase()}`);
+
+    if (!existsSync(filePath)) {
+      mkdirSync(dir, { recursive: true });
+      writeFileSync(filePath, data);
+    }
+
+    const { buffer: _buffer, load: _load, ...rest } = media;
+    return { ...rest, mimeType, url: pathToFileURL(filePath).href };
+  }
+
+  /** Run an adapter's loader under the same size cap and timeout as URL downloads */
+  private async load(media: MessageMedia): Promise<Buffer> {
+    if (media.size !== undefined && media.size > this.maxBytes) {
+      throw new Error(`Attachment too large (${media.size} bytes, max ${this.maxBytes})`);
+    }
+
+    const signal = AbortSignal.timeout(this.timeoutMs);
+    // Loaders may ignore the signal (e.g. Baileys), so the timeout also races them
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      signal.addEventListener("abort", () => reject(new Error(`Download timed out after ${this.timeoutMs}ms`)), {
+        once: true,
+      });
+    });
+    const data = await Promise.race([media.load!(signal), timedOut]);
+    if (data.byteLength > this.maxBytes) {
+      throw new Error(`Attachment too large (${data.byteLength} bytes, max ${this.maxBytes})`);
+    }
+    return data;
+  }
+
+  private async download(url: string | undefined): Promise<Buffer | null> {
+    if (!url || !/^https?:\/\//.test(url)) return null;
+
+    const res = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (!res.ok) throw new Error(`Download failed: HTTP ${res.status}`);
+
+    const length = Number(res.headers.get("content-length") ?? 0);
+    if (length > this.maxBytes) {
+      throw new Error(`Attachment too large (${length} bytes, max ${this.maxBytes})`);
+    }
+    if (!res.body) return Buffer.alloc(0);
+
+    // content-length may be missing (chunked) or wrong: count while streaming
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > this.maxBytes) {
+        await reader.cancel();
+        throw new Error(`Attachment too large (over ${this.maxBytes} bytes)`);
+      }
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  }
+}
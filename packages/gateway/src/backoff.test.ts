@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { computeBackoffDelay, canRetry, DEFAULT_BACKOFF, type BackoffPolicy } from "./backoff.js";
+
+const noJitter: BackoffPolicy = { ...DEFAULT_BACKOFF, jitter: 0 };
+
+describe("computeBackoffDelay", () => {
+  it("grows exponentially from the initial delay", () => {
+    expect(computeBackoffDelay(1, noJitter)).toBe(1000);
+    expect(computeBackoffDelay(2, noJitter)).toBe(2000);
+    expect(computeBackoffDelay(3, noJitter)).toBe(4000);
+    expect(computeBackoffDelay(5, noJitter)).toBe(16000);
+  });
+
+  it("caps the delay at maxDelayMs", () => {
+    expect(computeBackoffDelay(20, noJitter)).toBe(60_000);
+  });
+
+  it("spreads delays by the jitter fraction", () => {
+    const policy: BackoffPolicy = { ...DEFAULT_BACKOFF, jitter: 0.5 };
+    expect(computeBackoffDelay(2, policy, () => 0)).toBe(1000);
+    expect(computeBackoffDelay(2, policy, () => 0.5)).toBe(2000);
+    expect(computeBackoffDelay(2, policy, () => 1)).toBe(3000);
+  });
+
+  it("never exceeds maxDelayMs even with jitter", () => {
+    expect(computeBackoffDelay(30, DEFAULT_BACKOFF, () => 1)).toBe(60_000);
+  });
+
+  it("treats attempt 0 like the first attempt", () => {
+    expect(computeBackoffDelay(0, noJitter)).toBe(1000);
+  });
+});
+
+describe("canRetry", () => {
+  it("allows retries until maxAttempts is reached", () => {
+    const policy: BackoffPolicy = { ...DEFAULT_BACKOFF, maxAttempts: 3 };
+    expect(canRetry(0, policy)).toBe(true);
+    expect(canRetry(2, policy)).toBe(true);
+    expect(canRetry(3, policy)).toBe(false);
+  });
+
+  it("retries forever when maxAttempts is 0", () => {
+    expect(canRetry(1000, { ...DEFAULT_BACKOFF, maxAttempts: 0 })).toBe(true);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Reconnect backoff policy for the ChannelManager supervisor.
+ *
+ * Delays grow exponentially from initialDelayMs up to maxDelayMs, with a
+ * ±jitter fraction applied so many accounts failing at once (e.g. network
+ * outage) don't all reconnect in lockstep.
+ */
+
+export type BackoffPolicy = {
+  /** Delay before the first retry */
+  initialDelayMs: number;
+  /** Upper bound for any single delay */
+  maxDelayMs: number;
+  /** Multiplier applied per attempt */
+  factor: number;
+  /** Random spread as a fraction of the delay (0.2 = ±20%) */
+  jitter: number;
+  /** Give up after this many consecutive failed attempts (0 = never) */
+  maxAttempts: number;
+};
+
+export const DEFAULT_BACKOFF: BackoffPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60_000,
+  factor: 2,
+  jitter: 0.2,
+  maxAttempts: 10,
+};
+
+/** Delay before retry number `attempt` (1-based) */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: BackoffPolicy = DEFAULT_BACKOFF,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, attempt - 1);
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.factor ** exponent);
+  const spread = base * policy.jitter;
+  const jittered = base - spread + random() * spread * 2;
+  return Math.round(Math.max(0, Math.min(policy.maxDelayMs, jittered)));
+}
+
+/** Whether another retry is allowed after `attempt` failures */
+export function canRetry(attempt: number, policy: BackoffPolicy = DEFAULT_BACKOFF): boolean {
+  return policy.maxAttempts === 0 || attempt < policy.maxAttempts;
+}
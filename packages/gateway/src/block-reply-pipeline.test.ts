@@ -0,0 +1,318 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createBlockReplyPipeline, createLiveEditPipeline } from "./block-reply-pipeline.js";
+
+describe("BlockReplyPipeline", () => {
+  let sent: string[];
+  const send = async (text: string) => {
+    sent.push(text);
+    return true;
+  };
+
+  beforeEach(() => {
+    sent = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ---------- Coalescing ----------
+  describe("coalescing", () => {
+    it("buffers small deltas into a single block", async () => {
+      const pipeline = createBlockReplyPipeline({ send, minChars: 50 });
+      pipeline.push("Hello ");
+      pipeline.push("there, ");
+      pipeline.push("friend.");
+
+      await pipeline.flush();
+      expect(sent).toEqual(["Hello there, friend."]);
+    });
+
+    it("sends up to the last paragraph break once minChars is reached", async () => {
+      const pipeline = createBlockReplyPipeline({ send, minChars: 20 });
+      pipeline.push("First paragraph is long enough.\n\nSecond");
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(sent[0]).toBe("First paragraph is long enough.");
+
+      pipeline.push(" paragraph.");
+      await pipeline.flush();
+      expect(sent).toEqual(["First paragraph is long enough.", "Second paragraph."]);
+    });
+
+    it("does not split short paragraphs below minChars", async () => {
+      const pipeline = createBlockReplyPipeline({ send, minChars: 100, idleMs: 1000 });
+      pipeline.push("One.\n\nTwo.");
+
+      expect(sent).toEqual([]);
+      await pipeline.flush();
+      expect(sent).toEqual(["One.\n\nTwo."]);
+    });
+
+    it("splits buffers longer than maxChars at a word boundary", async () => {
+      const pipeline = createBlockReplyPipeline({ send, minChars: 10, maxChars: 20 });
+      pipeline.push("alpha beta gamma delta epsilon zeta");
+
+      await pipeline.flush();
+      expect(sent.length).toBeGreaterThan(1);
+      for (const block of sent) {
+        expect(block.length).toBeLessThanOrEqual(20);
+      }
+      expect(sent.join(" ")).toBe("alpha beta gamma delta epsilon zeta");
+    });
+
+    it("treats the end of a content block as a paragraph boundary", async () => {
+      const pipeline = createBlockReplyPipeline({ send, minChars: 10 });
+      pipeline.push("Checking the files now.");
+      pipeline.endBlock();
+      pipeline.push("Done");
+
+      await vi.runAllTimersAsync();
+      expect(sent).toEqual(["Checking the files now.", "Done"]);
+    });
+  });
+
+  // ---------- Idle flush ----------
+  describe("idle flush", () => {
+    it("sends buffered text after idleMs without new deltas", async () => {
+      const pipeline = createBlockReplyPipeline({ send, minChars: 500, idleMs: 1000 });
+      pipeline.push("Short update");
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(sent).toEqual([]);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(sent).toEqual(["Short update"]);
+    });
+
+    it("holds the idle flush while a send_message call is pending", async () => {
+      const pipeline = createBlockReplyPipeline({ send, idleMs: 1000 });
+      pipeline.push("Pending text");
+      pipeline.hold();
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(sent).toEqual([]);
+    });
+  });
+
+  // ---------- Dedupe ----------
+  describe("dedupe against send_message", () => {
+    it("drops buffered text the agent already sent via the tool", async () => {
+      const pipeline = createBlockReplyPipeline({ send, idleMs: 1000 });
+      pipeline.push("Here is   the answer.");
+      pipeline.hold();
+      pipeline.recordToolSend("Here is the answer.");
+
+      await pipeline.flush();
+      expect(sent).toEqual([]);
+    });
+
+    it("keeps text that differs from the tool message", async () => {
+      const pipeline = createBlockReplyPipeline({ send });
+      pipeline.push("Let me check.");
+      pipeline.recordToolSend("The build passed.");
+
+      await pipeline.flush();
+      expect(sent).toEqual(["Let me check."]);
+    });
+
+    it("reports text that was already streamed", async () => {
+      const pipeline = createBlockReplyPipeline({ send });
+      pipeline.push("All tests pass.");
+      await pipeline.flush();
+
+      expect(pipeline.wasStreamed("All tests pass.")).toBe(true);
+      expect(pipeline.wasStreamed("  All tests\npass. ")).toBe(true);
+      expect(pipeline.wasStreamed("Something else")).toBe(false);
+      expect(pipeline.wasStreamed("")).toBe(false);
+    });
+  });
+
+  // ---------- Lifecycle ----------
+  describe("lifecycle", () => {
+    it("counts only successful sends", async () => {
+      let ok = false;
+      const pipeline = createBlockReplyPipeline({
+        send: async () => {
+          ok = !ok;
+          return ok;
+        },
+        minChars: 1,
+      });
+      pipeline.push("one");
+      pipeline.endBlock();
+      pipeline.push("two");
+      pipeline.endBlock();
+      await pipeline.flush();
+
+      expect(pipeline.getSentCount()).toBe(1);
+    });
+
+    it("is a no-op after cleanup", async () => {
+      const pipeline = createBlockReplyPipeline({ send, idleMs: 100 });
+      pipeline.push("discarded");
+      pipeline.cleanup();
+      pipeline.push("ignored");
+
+      await vi.runAllTimersAsync();
+      await pipeline.flush();
+      expect(sent).toEqual([]);
+    });
+
+    it("drops buffered text on reset and keeps streaming", async () => {
+      const pipeline = createBlockReplyPipeline({ send, idleMs: 100 });
+      pipeline.push("failed attempt");
+      pipeline.reset();
+      pipeline.push("retried answer");
+
+      await pipeline.flush();
+      expect(sent).toEqual(["retried answer"]);
+      expect(pipeline.wasStreamed("failed attempt")).toBe(false);
+    });
+  });
+});
+
+describe("LiveEditPipeline", () => {
+  let posted: string[];
+  let edits: Array<{ id: string; text: string }>;
+  const send = async (text: string) => {
+    posted.push(text);
+    return `m${posted.length}`;
+  };
+  const edit = async (id: string, text: string) => {
+    edits.push({ id, text });
+    return true;
+  };
+
+  beforeEach(() => {
+    posted = [];
+    edits = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("posts a placeholder and edits in the final text", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit, placeholder: "..." });
+    pipeline.push("Hello");
+    pipeline.push(" world");
+
+    await pipeline.flush();
+    expect(posted).toEqual(["..."]);
+    expect(edits[edits.length - 1]).toEqual({ id: "m1", text: "Hello world" });
+    expect(pipeline.getSentCount()).toBe(1);
+  });
+
+  it("shows a cursor on intermediate edits", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit, throttleMs: 1000 });
+    pipeline.push("Working");
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(edits[0].text).toBe("Working ▍");
+  });
+
+  it("throttles edits to one per throttleMs", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit, throttleMs: 1000 });
+    pipeline.push("a");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(edits).toHaveLength(1);
+
+    pipeline.push("b");
+    pipeline.push("c");
+    await vi.advanceTimersByTimeAsync(500);
+    expect(edits).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(edits).toHaveLength(2);
+    expect(edits[1].text).toBe("abc ▍");
+  });
+
+  it("continues in a new message once maxChars is reached", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit, maxChars: 20 });
+    pipeline.push("first part of text. second part here");
+
+    await pipeline.flush();
+    expect(posted).toHaveLength(2);
+    const finals = new Map(edits.map((e) => [e.id, e.text]));
+    expect(finals.get("m1")!.length).toBeLessThanOrEqual(20);
+    expect(`${finals.get("m1")} ${finals.get("m2")}`).toBe("first part of text. second part here");
+  });
+
+  it("sends the final text directly when the placeholder failed", async () => {
+    let first = true;
+    const pipeline = createLiveEditPipeline({
+      send: async (text) => {
+        posted.push(text);
+        if (first) {
+          first = false;
+          return null;
+        }
+        return "m2";
+      },
+      edit,
+    });
+    pipeline.push("Recovered reply");
+
+    await pipeline.flush();
+    expect(posted).toEqual(["…", "Recovered reply"]);
+    expect(edits).toEqual([]);
+  });
+
+  it("starts a new message for each flushed turn", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit });
+    pipeline.push("Turn one");
+    await pipeline.flush();
+    pipeline.push("Turn two");
+    await pipeline.flush();
+
+    expect(posted).toHaveLength(2);
+  });
+
+  it("does not count the placeholder as a delivered reply", async () => {
+    const onDelivered = vi.fn();
+    const pipeline = createLiveEditPipeline({ send, edit: async () => false, onDelivered });
+    pipeline.push("Never shown");
+
+    await pipeline.flush();
+    expect(posted).toEqual(["…"]);
+    expect(pipeline.getSentCount()).toBe(0);
+    expect(onDelivered).not.toHaveBeenCalled();
+  });
+
+  it("reports each message once when real text is edited in", async () => {
+    const onDelivered = vi.fn();
+    const pipeline = createLiveEditPipeline({ send, edit, throttleMs: 1000, onDelivered });
+    pipeline.push("Working");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(onDelivered).toHaveBeenCalledTimes(1);
+
+    pipeline.push(" on it");
+    await pipeline.flush();
+    expect(edits.length).toBeGreaterThan(1);
+    expect(onDelivered).toHaveBeenCalledTimes(1);
+    expect(pipeline.getSentCount()).toBe(1);
+  });
+
+  it("reuses the placeholder without showing the dropped text after a reset", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit });
+    pipeline.push("Partial answer from a failed model");
+    pipeline.reset();
+    pipeline.push("Answer from the fallback");
+
+    await pipeline.flush();
+    expect(posted).toEqual(["…"]);
+    expect(edits).toEqual([{ id: "m1", text: "Answer from the fallback" }]);
+  });
+
+  it("reports streamed text for send_message dedupe", async () => {
+    const pipeline = createLiveEditPipeline({ send, edit });
+    pipeline.push("Let me check.\n\nThe deployment finished successfully.");
+
+    expect(pipeline.wasStreamed("The deployment finished successfully.")).toBe(true);
+    expect(pipeline.wasStreamed("ok")).toBe(false);
+    await pipeline.flush();
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * BlockReplyPipeline - Streams assistant text to the user as block replies.
+ *
+ * Modeled on OpenClaw's BlockReplyPipeline. Text deltas from the Agent SDK
+ * stream are buffered and coalesced into readable blocks instead of being
+ * sent token by token:
+ * - Paragraph flush: once minChars have accumulated, everything up to the
+ *   last paragraph break is sent
+ * - Size flush: buffers beyond maxChars are cut at a line/word boundary
+ * - Idle flush: whatever is buffered is sent after idleMs without new text
+ *
+ * Dedupe against send_message: while a send_message tool call is pending the
+ * idle flush is held, buffered text the tool already delivered is dropped,
+ * and wasStreamed() lets the policy hook reject tool calls that would resend
+ * text the pipeline already delivered.
+ *
+ * createLiveEditPipeline() is the variant for channels that can edit sent
+ * messages: it posts a placeholder and progressively edits it as text
+ * arrives, throttled to respect platform rate limits.
+ */
+
+export type BlockReplyConfig = {
+  enabled: boolean;
+  /** Minimum buffered characters before a paragraph break triggers a send */
+  minChars?: number;
+  /** Hard cap on a single block; longer buffers are split */
+  maxChars?: number;
+  /** Send buffered text after this much time without new deltas */
+  idleMs?: number;
+};
+
+export type LiveEditConfig = {
+  enabled: boolean;
+  /** Minimum time between edits of the same message */
+  throttleMs?: number;
+  /** Start a new message once the live one reaches this length */
+  maxChars?: number;
+  /** Text posted before the first edit */
+  placeholder?: string;
+};
+
+export type BlockReplyPipelineOptions = {
+  /** Deliver one block to the user. Resolves true when the send succeeded. */
+  send: (text: string) => Promise<boolean>;
+  minChars?: number; // default 200
+  maxChars?: number; // default 3000
+  idleMs?: number; // default 1500
+};
+
+export type BlockReplyPipeline = {
+  /** Append a text delta from the assistant stream */
+  push: (delta: string) => void;
+  /** Mark the end of a content block (acts as a paragraph boundary) */
+  endBlock: () => void;
+  /** Pause idle flushing while a send_message tool call is in flight */
+  hold: () => void;
+  /** Record text the agent delivered itself via send_message */
+  recordToolSend: (text: string) => void;
+  /** Whether the pipeline already delivered this text */
+  wasStreamed: (text: string) => boolean;
+  /** Send everything still buffered and wait for pending sends */
+  flush: () => Promise<void>;
+  /** How many blocks were delivered successfully */
+  getSentCount: () => number;
+  /**
+   * Drop everything streamed so far without delivering it, for a retry that
+   * starts the reply over. A posted live-edit placeholder is kept and reused.
+   */
+  reset: () => void;
+  /** Seal + drop buffered text. After this, all methods are no-op. */
+  cleanup: () => void;
+};
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function findCutPoint(text: string, limit: number): number {
+  const lineBreak = text.lastIndexOf("\n", limit);
+  if (lineBreak > limit * 0.3) return lineBreak + 1;
+
+  const spaceBreak = text.lastIndexOf(" ", limit);
+  if (spaceBreak > limit * 0.3) return spaceBreak + 1;
+
+  return limit;
+}
+
+export function createBlockReplyPipeline(opts: BlockReplyPipelineOptions): BlockReplyPipeline {
+  const { send, minChars = 200, maxChars = 3000, idleMs = 1500 } = opts;
+
+  let buffer = "";
+  let held = false;
+  let sealed = false;
+  let sentCount = 0;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let sendChain: Promise<void> = Promise.resolve();
+  const streamed: string[] = [];
+  const toolTexts: string[] = [];
+
+  function isToolDuplicate(text: string): boolean {
+    const normalized = normalize(text);
+    return toolTexts.some((t) => t.includes(normalized));
+  }
+
+  function emit(text: string) {
+    const block = text.trim();
+    if (!block || isToolDuplicate(block)) return;
+
+    streamed.push(normalize(block));
+    sendChain = sendChain.then(async () => {
+      try {
+        if (await send(block)) sentCount++;
+      } catch (err) {
+        console.error(`[block-reply] Failed to send block:`, err);
+      }
+    });
+  }
+
+  function drain(force: boolean) {
+    while (buffer.length > maxChars) {
+      const cut = findCutPoint(buffer, maxChars);
+      emit(buffer.slice(0, cut));
+      buffer = buffer.slice(cut);
+    }
+
+    if (force) {
+      emit(buffer);
+      buffer = "";
+      return;
+    }
+
+    const paraBreak = buffer.lastIndexOf("\n\n");
+    if (paraBreak >= minChars) {
+      emit(buffer.slice(0, paraBreak));
+      buffer = buffer.slice(paraBreak + 2);
+    }
+  }
+
+  function clearIdle() {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+  }
+
+  function scheduleIdle() {
+    clearIdle();
+    if (sealed || held || buffer.length === 0) return;
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      if (!sealed && !held) drain(true);
+    }, idleMs);
+  }
+
+  return {
+    push(delta) {
+      if (sealed || !delta) return;
+      // New assistant text means any pending tool call has finished
+      held = false;
+      buffer += delta;
+      drain(false);
+      scheduleIdle();
+    },
+
+    endBlock() {
+      if (sealed || buffer.length === 0) return;
+      if (!buffer.endsWith("\n\n")) {
+        buffer = buffer.replace(/\n?$/, "\n\n");
+      }
+      drain(false);
+      scheduleIdle();
+    },
+
+    hold() {
+      if (sealed) return;
+      held = true;
+      clearIdle();
+    },
+
+    recordToolSend(text) {
+      if (sealed) return;
+      const normalized = normalize(text);
+      if (normalized) toolTexts.push(normalized);
+      if (buffer.trim() && isToolDuplicate(buffer)) {
+        buffer = "";
+      }
+      held = false;
+      scheduleIdle();
+    },
+
+    wasStreamed(text) {
+      const normalized = normalize(text);
+      if (!normalized) return false;
+      return streamed.some((s) => s === normalized) || normalize(streamed.join(" ")) === normalized;
+    },
+
+    async flush() {
+      if (sealed) return;
+      clearIdle();
+      held = false;
+      drain(true);
+      await sendChain;
+    },
+
+    getSentCount() {
+      return sentCount;
+    },
+
+    reset() {
+      if (sealed) return;
+      clearIdle();
+      buffer = "";
+      held = false;
+      streamed.length = 0;
+      toolTexts.length = 0;
+    },
+
+    cleanup() {
+      sealed = true;
+      clearIdle();
+      buffer = "";
+    },
+  };
+}
+
+// ─── Live Edit ───────────────────────────────────────────────────────────────
+
+export type LiveEditPipelineOptions = {
+  /** Post a new message. Resolves the platform message ID, or null on failure. */
+  send: (text: string) => Promise<string | null>;
+  /** Replace the text of a posted message. Resolves true on success. */
+  edit: (messageId: string, text: string) => Promise<boolean>;
+  throttleMs?: number; // default 1200
+  maxChars?: number; // default 1900 (fits Discord's 2000 limit)
+  placeholder?: string; // default "…"
+  /** Called once per message when real text first reaches the user (the placeholder does not count) */
+  onDelivered?: () => void;
+};
+
+/** Appended to in-progress text so users can tell the reply is still streaming */
+const LIVE_CURSOR = " ▍";
+
+type LiveSegment = {
+  messageId: string | null;
+  text: string;
+  rendered: string;
+  /** Real text has replaced the placeholder (or was sent directly) */
+  delivered: boolean;
+};
+
+export function createLiveEditPipeline(opts: LiveEditPipelineOptions): BlockReplyPipeline {
+  const { send, edit, onDelivered, throttleMs = 1200, maxChars = 1900, placeholder = "…" } = opts;
+
+  let active: LiveSegment | null = null;
+  let sealed = false;
+  let sentCount = 0;
+  let lastEditAt = 0;
+  let editTimer: ReturnType<typeof setTimeout> | null = null;
+  let chain: Promise<void> = Promise.resolve();
+  const segments: LiveSegment[] = [];
+
+  function enqueue(task: () => Promise<void>) {
+    chain = chain.then(task).catch((err) => {
+      console.error(`[block-reply] Live edit failed:`, err);
+    });
+  }
+
+  function markDelivered(segment: LiveSegment) {
+    if (segment.delivered) return;
+    segment.delivered = true;
+    sentCount++;
+    onDelivered?.();
+  }
+
+  function openSegment(): LiveSegment {
+    const segment: LiveSegment = { messageId: null, text: "", rendered: "", delivered: false };
+    segments.push(segment);
+    enqueue(async () => {
+      const messageId = await send(placeholder);
+      if (messageId) {
+        segment.messageId = messageId;
+        segment.rendered = placeholder;
+      }
+    });
+    return segment;
+  }
+
+  function render(segment: LiveSegment, final: boolean) {
+    enqueue(async () => {
+      const body = segment.text.trim();
+      if (!body) return;
+
+      // Placeholder never made it out: deliver the final text as a fresh message
+      if (!segment.messageId) {
+        if (final && (await send(body))) markDelivered(segment);
+        return;
+      }
+
+      const text = final ? body : body + LIVE_CURSOR;
+      if (text === segment.rendered) return;
+      lastEditAt = Date.now();
+      if (await edit(segment.messageId, text)) {
+        segment.rendered = text;
+        markDelivered(segment);
+      }
+    });
+  }
+
+  function clearEditTimer() {
+    if (editTimer) {
+      clearTimeout(editTimer);
+      editTimer = null;
+    }
+  }
+
+  function scheduleEdit() {
+    if (editTimer || sealed) return;
+    const wait = Math.max(0, lastEditAt + throttleMs - Date.now());
+    editTimer = setTimeout(() => {
+      editTimer = null;
+      if (active && !sealed) render(active, false);
+    }, wait);
+  }
+
+  return {
+    push(delta) {
+      if (sealed || !delta) return;
+      if (!active) active = openSegment();
+      active.text += delta;
+
+      // Live message is full: finalize it and continue in a new one
+      while (active.text.length > maxChars) {
+        const cut = findCutPoint(active.text, maxChars);
+        const rest = active.text.slice(cut).replace(/^\s+/, "");
+        active.text = active.text.slice(0, cut);
+        render(active, true);
+        active = openSegment();
+        active.text = rest;
+      }
+
+      scheduleEdit();
+    },
+
+    endBlock() {
+      if (sealed || !active || !active.text) return;
+      if (!active.text.endsWith("\n\n")) {
+        active.text = active.text.replace(/\n?$/, "\n\n");
+      }
+    },
+
+    hold() {
+      // Edits only change text the user already sees; nothing to hold back
+    },
+
+    recordToolSend() {
+      // Duplicates are rejected up front via wasStreamed() in the policy hook
+    },
+
+    wasStreamed(text) {
+      const normalized = normalize(text);
+      if (!normalized) return false;
+      const streamed = normalize(segments.map((s) => s.text).join(" "));
+      return streamed === normalized || (normalized.length >= 20 && streamed.includes(normalized));
+    },
+
+    async flush() {
+      if (sealed) return;
+      clearEditTimer();
+      if (active) {
+        render(active, true);
+        active = null;
+      }
+      await chain;
+    },
+
+    getSentCount() {
+      return sentCount;
+    },
+
+    reset() {
+      if (sealed) return;
+      clearEditTimer();
+      // Queued renders read the text when they run, so an emptied segment is never shown
+      for (const segment of segments) segment.text = "";
+      const placeholder = segments.find((segment) => !segment.delivered) ?? null;
+      segments.length = 0;
+      if (placeholder) segments.push(placeholder);
+      active = placeholder;
+    },
+
+    cleanup() {
+      if (sealed) return;
+      clearEditTimer();
+      // Drop the streaming cursor from whatever is on screen
+      if (active) render(active, true);
+      active = null;
+      sealed = true;
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  ChannelAdapter,
+  type ChannelCapabilities,
+  type ChannelMessage,
+  type ChannelMeta,
+  type MessageMedia,
+  type SendResult,
+} from "@open-claude-code/adapter-core";
+import { ChannelManager } from "./channel-manager.js";
+import type { AttachmentStore } from "./attachment-store.js";
+import type { MessageStore } from "./message-store.js";
+
+vi.mock("./config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./config.js")>()),
+  getChannelAccountConfig: (channel: string, accountId: string) => ({ channel, accountId, enabled: true }),
+  setChannelConfig: vi.fn(),
+  loadConfig: () => ({
+    gateway: { reconnect: { initialDelayMs: 1000, maxDelayMs: 60_000, factor: 2, jitter: 0, maxAttempts: 3, stableMs: 30_000 } },
+  }),
+}));
+
+class FakeAdapter extends ChannelAdapter {
+  readonly id = "fake";
+  readonly meta: ChannelMeta = { id: "fake", label: "Fake", description: "Test adapter" };
+  readonly capabilities: ChannelCapabilities = {
+    text: true,
+    media: true,
+    reactions: false,
+    threads: false,
+    edit: false,
+    delete: false,
+    polls: false,
+    voice: false,
+  };
+
+  async start(): Promise<void> {}
+  async stop(): Promise<void> {}
+  async send(): Promise<SendResult> {
+    return { success: true, timestamp: Date.now() };
+  }
+}
+
+function createStore() {
+  return {
+    saveChannelStatus: vi.fn(),
+    storeMessage: vi.fn(),
+    getChannelStatuses: vi.fn(() => []),
+  };
+}
+
+function message(id: string, fromId: string, media?: MessageMedia[]): ChannelMessage {
+  return { id, channel: "fake", accountId: "default", from: { id: fromId }, chatType: "dm", text: id, media, timestamp: Date.now() };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("ChannelManager inbound messages", () => {
+  it("does not hold other conversations behind a slow attachment download", async () => {
+    let finishDownload!: () => void;
+    const attachments = {
+      persist: vi.fn(
+        (media: MessageMedia[]) => new Promise<MessageMedia[]>((resolve) => (finishDownload = () => resolve(media))),
+      ),
+    };
+    const received: string[] = [];
+    const manager = new ChannelManager(
+      createStore() as unknown as MessageStore,
+      { onMessage: (msg) => received.push(msg.id) },
+      attachments as unknown as AttachmentStore,
+    );
+    const adapter = new FakeAdapter();
+    manager.registerAdapter("fake", () => adapter);
+    await manager.startChannel("fake");
+
+    adapter.emit("message", message("slow", "alice", [{ type: "video", url: "https://cdn.example.com/big.mp4" }]));
+    adapter.emit("message", message("alice-next", "alice"));
+    adapter.emit("message", message("bob", "bob"));
+    await vi.waitFor(() => expect(received).toEqual(["bob"]));
+
+    // The same conversation keeps its order
+    finishDownload();
+    await vi.waitFor(() => expect(received).toEqual(["bob", "slow", "alice-next"]));
+  });
+});
+
+describe("ChannelManager supervisor", () => {
+  /** Starts a channel whose every instance is recorded so tests can drive its events */
+  async function supervised() {
+    const adapters: FakeAdapter[] = [];
+    const store = createStore();
+    const manager = new ChannelManager(store as unknown as MessageStore);
+    manager.registerAdapter("fake", () => {
+      const adapter = new FakeAdapter();
+      adapters.push(adapter);
+      return adapter;
+    });
+    await manager.startChannel("fake");
+    return { manager, adapters, store };
+  }
+
+  /** Emit connected and then an immediate failure, as Telegram does on a 409 Conflict */
+  function connectThenFail(adapter: FakeAdapter) {
+    adapter.emit("connected", { channel: "fake", accountId: "default" });
+    adapter.emit("disconnected", { channel: "fake", accountId: "default" }, "409: Conflict");
+  }
+
+  it("keeps backing off and gives up when every connect fails right away", async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const { manager, adapters } = await supervised();
+
+    connectThenFail(adapters[0]);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapters).toHaveLength(2);
+
+    connectThenFail(adapters[1]);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(adapters).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(adapters).toHaveLength(3);
+
+    connectThenFail(adapters[2]);
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(adapters).toHaveLength(4);
+
+    connectThenFail(adapters[3]);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(adapters).toHaveLength(4);
+    expect(manager.getRuntime("fake")?.status.lastError).toMatch(/Gave up reconnecting after 3 attempts/);
+  });
+
+  it("resets the attempt count once a connection stays up", async () => {
+    vi.useFakeTimers();
+    const { manager, adapters } = await supervised();
+
+    connectThenFail(adapters[0]);
+    await vi.advanceTimersByTimeAsync(1000);
+    connectThenFail(adapters[1]);
+    await vi.advanceTimersByTimeAsync(2000);
+    adapters[2].emit("connected", { channel: "fake", accountId: "default" });
+    expect(manager.getRuntime("fake")?.status.reconnectAttempts).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(manager.getRuntime("fake")?.status.reconnectAttempts).toBe(0);
+
+    // The next failure starts again from the initial delay
+    adapters[2].emit("disconnected", { channel: "fake", accountId: "default" }, "network");
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(adapters).toHaveLength(4);
+  });
+});
@@ -4,9 +4,12 @@ import type {
   ChannelConfig,
   ChannelMessage,
   ChannelId,
+  ChatCommand,
 } from "@open-claude-code/adapter-core";
 import { MessageStore } from "./message-store.js";
-import { loadConfig, setChannelConfig } from "./config.js";
+import type { AttachmentStore } from "./attachment-store.js";
+import { getChannelAccountConfig, listChannelAccounts, loadConfig, setChannelConfig } from "./config.js";
+import { computeBackoffDelay, canRetry } from "./backoff.js";
 
 export type ChannelRegistration = {
   id: ChannelId;
@@ -19,6 +22,15 @@ export type ChannelRuntime = {
   status: ChannelAccountSnapshot;
 };
 
+/** Reconnect bookkeeping per channel account; survives runtime restarts */
+type SupervisorState = {
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  nextAt: number | null;
+  /** Resets `attempts` once a reconnect has stayed up for reconnect.stableMs */
+  stableTimer: ReturnType<typeof setTimeout> | null;
+};
+
 export type ChannelManagerEvents = {
   onMessage?: (msg: ChannelMessage) => void;
   onStatusChange?: (snapshot: ChannelAccountSnapshot) => void;
@@ -27,12 +39,22 @@ export type ChannelManagerEvents = {
 export class ChannelManager {
   private registry = new Map<ChannelId, ChannelRegistration>();
   private runtimes = new Map<string, ChannelRuntime>();
+  private supervisors = new Map<string, SupervisorState>();
   private store: MessageStore;
   private events: ChannelManagerEvents;
-
-  constructor(store: MessageStore, events: ChannelManagerEvents = {}) {
+  private attachments: AttachmentStore | null;
+  /** Chat commands published to each adapter's command menu on connect */
+  private commands: ChatCommand[] = [];
+  /**
+   * Keeps each conversation's inbound messages in arrival order while
+   * attachments download; other conversations (and their /stop) don't wait.
+   */
+  private ingestChains = new Map<string, Promise<void>>();
+
+  constructor(store: MessageStore, events: ChannelManagerEvents = {}, attachments?: AttachmentStore) {
     this.store = store;
     this.events = events;
+    this.attachments = attachments ?? null;
   }
 
   // Register an adapter factory for a channel type
@@ -40,18 +62,65 @@ export class ChannelManager {
     this.registry.set(id, { id, factory });
   }
 
-  // Start a specific channel with given config
+  // Set the chat command menu and publish it to the running adapters
+  setCommands(commands: ChatCommand[]): void {
+    this.commands = commands;
+    for (const [key, runtime] of this.runtimes) {
+      if (runtime.status.connected) this.publishCommands(key, runtime.adapter);
+    }
+  }
+
+  private publishCommands(key: string, adapter: ChannelAdapter): void {
+    if (this.commands.length === 0) return;
+    adapter.setCommands(this.commands).catch((err) => {
+      console.warn(`[channel-manager] Failed to register commands for ${key}:`, err);
+    });
+  }
+
+  // Queue a message behind earlier ones from the same conversation
+  private enqueueIngest(msg: ChannelMessage): void {
+    const conversation = msg.chatType === "dm" ? msg.from.id : (msg.to?.id ?? msg.from.id);
+    const key = `${msg.channel}:${msg.accountId}:${conversation}`;
+    const chain = (this.ingestChains.get(key) ?? Promise.resolve())
+      .then(() => this.ingestMessage(msg))
+      .finally(() => {
+        if (this.ingestChains.get(key) === chain) this.ingestChains.delete(key);
+      });
+    this.ingestChains.set(key, chain);
+  }
+
+  // Persist attachments, store the message and hand it to listeners
+  private async ingestMessage(msg: ChannelMessage): Promise<void> {
+    try {
+      if (msg.media?.length && this.attachments) {
+        msg.media = await this.attachments.persist(msg.media);
+      }
+      this.store.storeMessage(msg);
+      this.events.onMessage?.(msg);
+    } catch (err) {
+      console.error(`[channel-manager] Failed to handle message ${msg.channel}/${msg.id}:`, err);
+    }
+  }
+
+  // Start a specific channel with given config (resets its reconnect supervisor)
   async startChannel(
     channelId: ChannelId,
     accountId: string = "default",
     config?: Partial<ChannelConfig>,
+  ): Promise<ChannelAccountSnapshot> {
+    this.clearSupervisor(`${channelId}:${accountId}`);
+    return this.launch(channelId, accountId, config);
+  }
+
+  private async launch(
+    channelId: ChannelId,
+    accountId: string,
+    config?: Partial<ChannelConfig>,
   ): Promise<ChannelAccountSnapshot> {
     const key = `${channelId}:${accountId}`;
 
     // Stop existing instance if any
-    if (this.runtimes.has(key)) {
-      await this.stopChannel(channelId, accountId);
-    }
+    await this.teardown(key);
 
     const registration = this.registry.get(channelId);
     if (!registration) {
@@ -60,14 +129,13 @@ export class ChannelManager {
 
     // Save config if provided
     if (config) {
-      setChannelConfig(channelId, { ...config, accountId });
+      setChannelConfig(channelId, config, accountId);
     }
 
-    // Load channel config
-    const appConfig = loadConfig();
-    const channelConfig = appConfig.channels[channelId];
+    // Load account config (channel defaults + account overrides)
+    const channelConfig = getChannelAccountConfig(channelId, accountId);
     if (!channelConfig) {
-      throw new Error(`Channel ${channelId} is not configured. Provide config first.`);
+      throw new Error(`Channel ${channelId} (account ${accountId}) is not configured. Provide config first.`);
     }
 
     const adapter = registration.factory();
@@ -82,27 +150,37 @@ export class ChannelManager {
         running: true,
         connected: false,
         lastStartAt: Date.now(),
+        reconnectAttempts: this.supervisors.get(key)?.attempts ?? 0,
+        nextReconnectAt: null,
       },
     };
 
     // Wire up events
     adapter.on("message", (msg: ChannelMessage) => {
-      this.store.storeMessage(msg);
-      this.events.onMessage?.(msg);
+      this.enqueueIngest(msg);
     });
 
     adapter.on("connected", (snapshot: ChannelAccountSnapshot) => {
+      // "connected" can fire before the adapter is really serving (Telegram
+      // emits it after getMe, before polling hits a 409), so only a connection
+      // that stays up clears the failure count
+      const supervisor = this.supervisors.get(key);
+      if (supervisor) this.armStableReset(key, supervisor);
+
       runtime.status = {
         ...runtime.status,
         ...snapshot,
         connected: true,
         lastConnectedAt: Date.now(),
+        reconnectAttempts: supervisor?.attempts ?? 0,
+        nextReconnectAt: null,
       };
       this.store.saveChannelStatus(runtime.status);
       this.events.onStatusChange?.(runtime.status);
+      this.publishCommands(key, adapter);
     });
 
-    adapter.on("disconnected", (snapshot: ChannelAccountSnapshot, reason?: string) => {
+    adapter.on("disconnected", (snapshot: ChannelAccountSnapshot, reason?: string, retryable = true) => {
       runtime.status = {
         ...runtime.status,
         ...snapshot,
@@ -112,6 +190,11 @@ export class ChannelManager {
       };
       this.store.saveChannelStatus(runtime.status);
       this.events.onStatusChange?.(runtime.status);
+
+      // Unexpected disconnect of the current runtime: hand over to the supervisor
+      if (!abortController.signal.aborted && retryable && this.runtimes.get(key) === runtime) {
+        this.scheduleRestart(channelId, accountId, reason);
+      }
     });
 
     adapter.on("error", (error: Error, context?: string) => {
@@ -136,6 +219,7 @@ export class ChannelManager {
       runtime.status.configured = true;
       this.store.saveChannelStatus(runtime.status);
     } catch (err) {
+      abortController.abort();
       runtime.status = {
         ...runtime.status,
         running: false,
@@ -152,6 +236,11 @@ export class ChannelManager {
 
   async stopChannel(channelId: ChannelId, accountId: string = "default"): Promise<void> {
     const key = `${channelId}:${accountId}`;
+    this.clearSupervisor(key);
+    await this.teardown(key);
+  }
+
+  private async teardown(key: string): Promise<void> {
     const runtime = this.runtimes.get(key);
     if (!runtime) return;
 
@@ -174,6 +263,113 @@ export class ChannelManager {
     this.runtimes.delete(key);
   }
 
+  // ─── Supervisor ───────────────────────────────────────────────────────────
+
+  /**
+   * Schedule an automatic restart with jittered exponential backoff.
+   * No-op if one is already pending; gives up after reconnect.maxAttempts.
+   */
+  scheduleRestart(channelId: ChannelId, accountId: string = "default", reason?: string): void {
+    const key = `${channelId}:${accountId}`;
+    const policy = loadConfig().gateway.reconnect;
+
+    let state = this.supervisors.get(key);
+    if (!state) {
+      state = { attempts: 0, timer: null, nextAt: null, stableTimer: null };
+      this.supervisors.set(key, state);
+    }
+    if (state.stableTimer) {
+      clearTimeout(state.stableTimer);
+      state.stableTimer = null;
+    }
+    if (state.timer) return;
+
+    if (!canRetry(state.attempts, policy)) {
+      console.error(`[channel-manager] Giving up on ${key} after ${state.attempts} restart attempts`);
+      this.patchStatus(channelId, accountId, {
+        nextReconnectAt: null,
+        lastError: `Gave up reconnecting after ${state.attempts} attempts${reason ? `: ${reason}` : ""}`,
+      });
+      return;
+    }
+
+    state.attempts++;
+    const delay = computeBackoffDelay(state.attempts, policy);
+    state.nextAt = Date.now() + delay;
+    state.timer = setTimeout(() => {
+      void this.restart(channelId, accountId);
+    }, delay);
+
+    console.log(`[channel-manager] ${key} down${reason ? ` (${reason})` : ""}, restart attempt ${state.attempts} in ${delay}ms`);
+    this.patchStatus(channelId, accountId, {
+      reconnectAttempts: state.attempts,
+      nextReconnectAt: state.nextAt,
+    });
+  }
+
+  /**
+   * Manual "retry now": cancel any pending backoff and restart immediately.
+   * Supervision resumes if the restart fails.
+   */
+  async retryChannel(channelId: ChannelId, accountId: string = "default"): Promise<ChannelAccountSnapshot> {
+    try {
+      return await this.startChannel(channelId, accountId);
+    } catch (err) {
+      this.scheduleRestart(channelId, accountId, err instanceof Error ? err.message : String(err));
+      throw err;
+    }
+  }
+
+  private async restart(channelId: ChannelId, accountId: string): Promise<void> {
+    const key = `${channelId}:${accountId}`;
+    const state = this.supervisors.get(key);
+    if (!state) return;
+    state.timer = null;
+    state.nextAt = null;
+
+    try {
+      await this.launch(channelId, accountId);
+      console.log(`[channel-manager] Restarted ${key} (attempt ${state.attempts})`);
+    } catch (err) {
+      this.scheduleRestart(channelId, accountId, err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  /** Forget past failures once the connection has been up for reconnect.stableMs */
+  private armStableReset(key: string, state: SupervisorState): void {
+    if (state.stableTimer) clearTimeout(state.stableTimer);
+    state.stableTimer = setTimeout(() => {
+      state.stableTimer = null;
+      state.attempts = 0;
+      const runtime = this.runtimes.get(key);
+      if (runtime?.status.connected) {
+        runtime.status = { ...runtime.status, reconnectAttempts: 0 };
+        this.store.saveChannelStatus(runtime.status);
+        this.events.onStatusChange?.(runtime.status);
+      }
+    }, loadConfig().gateway.reconnect.stableMs);
+  }
+
+  private clearSupervisor(key: string): void {
+    const state = this.supervisors.get(key);
+    if (state?.timer) clearTimeout(state.timer);
+    if (state?.stableTimer) clearTimeout(state.stableTimer);
+    this.supervisors.delete(key);
+  }
+
+  /** Update the live or persisted snapshot of a channel account */
+  private patchStatus(channelId: ChannelId, accountId: string, patch: Partial<ChannelAccountSnapshot>): void {
+    const runtime = this.runtimes.get(`${channelId}:${accountId}`);
+    const current = runtime?.status
+      ?? this.store.getChannelStatuses().find((s) => s.channel === channelId && s.accountId === accountId)
+      ?? { channel: channelId, accountId };
+
+    const next = { ...current, ...patch };
+    if (runtime) runtime.status = next;
+    this.store.saveChannelStatus(next);
+    this.events.onStatusChange?.(next);
+  }
+
   async stopAll(): Promise<void> {
     const stops = Array.from(this.runtimes.entries()).map(([key]) => {
       const [channelId, accountId] = key.split(":");
@@ -183,36 +379,30 @@ export class ChannelManager {
   }
 
   getStatus(channelId?: ChannelId): ChannelAccountSnapshot[] {
-    if (channelId) {
-      const results: ChannelAccountSnapshot[] = [];
-      for (const [key, runtime] of this.runtimes) {
-        if (key.startsWith(`${channelId}:`)) {
-          results.push({ ...runtime.status });
-        }
-      }
-      // Also check persisted statuses for non-running channels
-      if (results.length === 0) {
-        const persisted = this.store.getChannelStatuses();
-        return persisted.filter((s) => s.channel === channelId);
-      }
-      return results;
-    }
-
-    // All channels - combine running + persisted
-    const running = new Map<string, ChannelAccountSnapshot>();
+    // Running accounts first, then persisted statuses, then configured accounts never started
+    const statuses = new Map<string, ChannelAccountSnapshot>();
     for (const [key, runtime] of this.runtimes) {
-      running.set(key, { ...runtime.status });
+      statuses.set(key, { ...runtime.status });
     }
 
-    const persisted = this.store.getChannelStatuses();
-    for (const status of persisted) {
+    for (const status of this.store.getChannelStatuses()) {
       const key = `${status.channel}:${status.accountId}`;
-      if (!running.has(key)) {
-        running.set(key, status);
+      if (!statuses.has(key)) {
+        statuses.set(key, status);
+      }
+    }
+
+    for (const [channel, channelConfig] of Object.entries(loadConfig().channels)) {
+      for (const accountId of listChannelAccounts(channelConfig)) {
+        const key = `${channel}:${accountId}`;
+        if (!statuses.has(key)) {
+          statuses.set(key, { channel, accountId, configured: true, running: false, connected: false });
+        }
       }
     }
 
-    return Array.from(running.values());
+    const all = Array.from(statuses.values());
+    return channelId ? all.filter((s) => s.channel === channelId) : all;
   }
 
   getRuntime(channelId: ChannelId, accountId: string = "default"): ChannelRuntime | undefined {
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { CommandRegistry, parseArgs, parseCommand, type ChatCommandDefinition } from "./chat-commands.js";
+
+const noop = async () => {};
+
+function command(overrides: Partial<ChatCommandDefinition> & { name: string }): ChatCommandDefinition {
+  return { description: `${overrides.name} command`, handler: noop, ...overrides };
+}
+
+describe("parseArgs", () => {
+  it("splits on whitespace and keeps quoted words together", () => {
+    expect(parseArgs(`claude-opus-4-1  "two words" 'single quoted'`)).toEqual([
+      "claude-opus-4-1",
+      "two words",
+      "single quoted",
+    ]);
+    expect(parseArgs("")).toEqual([]);
+  });
+});
+
+describe("parseCommand", () => {
+  it("parses the name and arguments", () => {
+    expect(parseCommand("/Model claude-haiku")).toEqual({
+      name: "model",
+      args: ["claude-haiku"],
+      rawArgs: "claude-haiku",
+    });
+  });
+
+  it("strips a /command@bot suffix", () => {
+    expect(parseCommand("/help@my_bot")).toEqual({ name: "help", target: "my_bot", args: [], rawArgs: "" });
+  });
+
+  it("accepts Korean command names", () => {
+    expect(parseCommand("/기억 지난주 회의")?.name).toBe("기억");
+  });
+
+  it("returns null for plain text and paths", () => {
+    expect(parseCommand("hello /help")).toBeNull();
+    expect(parseCommand("/usr/bin/env")).toBeNull();
+    expect(parseCommand(undefined)).toBeNull();
+  });
+});
+
+describe("CommandRegistry", () => {
+  it("matches commands by name or alias, case-insensitively", () => {
+    const registry = new CommandRegistry();
+    registry.register(command({ name: "new", aliases: ["reset", "리셋"] }));
+
+    expect(registry.match("/NEW")?.command.name).toBe("new");
+    expect(registry.match("/리셋 지금")?.parsed.rawArgs).toBe("지금");
+    expect(registry.match("/unknown")).toBeNull();
+  });
+
+  it("rejects menu-incompatible names and duplicate aliases", () => {
+    const registry = new CommandRegistry();
+    registry.register(command({ name: "stop", aliases: ["cancel"] }));
+
+    expect(() => registry.register(command({ name: "Bad-Name" }))).toThrow("Invalid command name");
+    expect(() => registry.register(command({ name: "abort", aliases: ["cancel"] }))).toThrow("already used by /stop");
+  });
+
+  it("replaces a command registered under the same name", () => {
+    const registry = new CommandRegistry();
+    registry.register(command({ name: "status", aliases: ["상태"] }));
+    registry.register(command({ name: "status", description: "custom status" }));
+
+    expect(registry.get("status")?.description).toBe("custom status");
+    expect(registry.get("상태")).toBeUndefined();
+  });
+
+  it("lists admin commands in /help only for admins", () => {
+    const registry = new CommandRegistry();
+    registry.register(command({ name: "help", description: "명령어 목록" }));
+    registry.register(command({ name: "model", usage: "[모델 이름]", aliases: ["모델"], description: "모델", permission: "admin" }));
+
+    expect(registry.helpText(false)).toBe("사용 가능한 명령어:\n/help — 명령어 목록");
+    expect(registry.helpText(true)).toContain("/model [모델 이름] (/모델) — 모델");
+  });
+
+  it("builds menu entries with truncated descriptions", () => {
+    const registry = new CommandRegistry();
+    registry.register(command({ name: "memory", usage: "[검색어]", description: "x".repeat(150) }));
+
+    expect(registry.menu()).toEqual([{ name: "memory", description: "x".repeat(100), usage: "[검색어]" }]);
+  });
+});
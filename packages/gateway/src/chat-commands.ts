@@ -0,0 +1,144 @@
+/**
+ * CommandRegistry - Slash commands users type in chat (/help, /new, /status, ...).
+ *
+ * Handlers are registered by name with aliases (Korean ones included) and a
+ * permission level. Messages starting with a registered command are handled
+ * immediately by the AgentRunner instead of going to the agent; unknown
+ * slash commands are passed through as normal text.
+ */
+
+import type { ChannelMessage, ChatCommand } from "@open-claude-code/adapter-core";
+
+/** "admin" commands are limited to the configured command admins */
+export type CommandPermission = "everyone" | "admin";
+
+export type CommandContext = {
+  msg: ChannelMessage;
+  /** Conversation key (channel:account:peer) */
+  key: string;
+  /** Arguments split on whitespace (quotes group words) */
+  args: string[];
+  /** Everything after the command name, trimmed */
+  rawArgs: string;
+  /** Whether the sender passes admin permission checks */
+  isAdmin: boolean;
+  /** Reply in the chat the command came from */
+  reply: (text: string) => Promise<void>;
+};
+
+export type ChatCommandDefinition = {
+  /** Name without the slash; lowercase ASCII so it can go into platform menus */
+  name: string;
+  aliases?: string[];
+  description: string;
+  /** Argument hint shown in /help, e.g. "[모델 이름]" */
+  usage?: string;
+  permission?: CommandPermission;
+  handler: (ctx: CommandContext) => Promise<void>;
+};
+
+export type ParsedCommand = {
+  /** Lowercased command name without slash or @bot suffix */
+  name: string;
+  /** Bot username from a /command@bot suffix */
+  target?: string;
+  args: string[];
+  rawArgs: string;
+};
+
+/** Names Telegram and Discord accept in their command menus */
+const MENU_NAME = /^[a-z0-9_]{1,32}$/;
+/** Discord caps command descriptions at 100 characters */
+const MAX_MENU_DESCRIPTION = 100;
+
+/** Split arguments on whitespace; double or single quotes keep words together */
+export function parseArgs(raw: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match;
+  while ((match = pattern.exec(raw)) !== null) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
+
+/** Parse "/name@bot args..." — null when the text is not a slash command */
+export function parseCommand(text: string | undefined): ParsedCommand | null {
+  const match = text?.trim().match(/^\/([^\s@/]+)(?:@(\S+))?(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  const rawArgs = (match[3] ?? "").trim();
+  return {
+    name: match[1].toLowerCase(),
+    ...(match[2] ? { target: match[2] } : {}),
+    args: parseArgs(rawArgs),
+    rawArgs,
+  };
+}
+
+export class CommandRegistry {
+  private commands = new Map<string, ChatCommandDefinition>();
+  /** Lowercased name or alias → command name */
+  private lookup = new Map<string, string>();
+
+  /** Register a command; a later registration with the same name replaces it */
+  register(definition: ChatCommandDefinition): void {
+    if (!MENU_NAME.test(definition.name)) {
+      throw new Error(`Invalid command name: ${definition.name}`);
+    }
+    this.unregister(definition.name);
+
+    for (const name of [definition.name, ...(definition.aliases ?? [])]) {
+      const key = name.replace(/^\//, "").toLowerCase();
+      const owner = this.lookup.get(key);
+      if (owner) throw new Error(`Command alias "${key}" is already used by /${owner}`);
+      this.lookup.set(key, definition.name);
+    }
+    this.commands.set(definition.name, definition);
+  }
+
+  unregister(name: string): void {
+    if (!this.commands.delete(name)) return;
+    for (const [key, owner] of this.lookup) {
+      if (owner === name) this.lookup.delete(key);
+    }
+  }
+
+  /** Look up a command by name or alias (without slash) */
+  get(nameOrAlias: string): ChatCommandDefinition | undefined {
+    const name = this.lookup.get(nameOrAlias.toLowerCase());
+    return name ? this.commands.get(name) : undefined;
+  }
+
+  /** The registered command a message invokes, if any */
+  match(text: string | undefined): { command: ChatCommandDefinition; parsed: ParsedCommand } | null {
+    const parsed = parseCommand(text);
+    const command = parsed ? this.get(parsed.name) : undefined;
+    return parsed && command ? { command, parsed } : null;
+  }
+
+  list(): ChatCommandDefinition[] {
+    return [...this.commands.values()];
+  }
+
+  /** /help text listing the commands the sender may use */
+  helpText(isAdmin: boolean): string {
+    const lines = this.list()
+      .filter((command) => isAdmin || command.permission !== "admin")
+      .map((command) => {
+        const usage = command.usage ? ` ${command.usage}` : "";
+        const aliases = command.aliases?.length ? ` (${command.aliases.map((a) => `/${a}`).join(", ")})` : "";
+        return `/${command.name}${usage}${aliases} — ${command.description}`;
+      });
+    return ["사용 가능한 명령어:", ...lines].join("\n");
+  }
+
+  /** Entries for platform command menus (Telegram setMyCommands, Discord slash commands) */
+  menu(): ChatCommand[] {
+    return this.list().map((command) => ({
+      name: command.name,
+      description: command.description.slice(0, MAX_MENU_DESCRIPTION),
+      ...(command.usage ? { usage: command.usage } : {}),
+    }));
+  }
+}
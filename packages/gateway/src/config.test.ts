@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { ConfigSchema, listChannelAccounts, resolveAccountConfig } from "./config.js";
+
+function channel(raw: Record<string, unknown>) {
+  return ConfigSchema.parse({ channels: { telegram: raw } }).channels.telegram;
+}
+
+describe("listChannelAccounts", () => {
+  it("returns the single top-level account when no accounts map is set", () => {
+    expect(listChannelAccounts(channel({ botToken: "t" }))).toEqual(["default"]);
+    expect(listChannelAccounts(channel({ accountId: "main" }))).toEqual(["main"]);
+  });
+
+  it("returns every key of the accounts map", () => {
+    const config = channel({ accounts: { support: { botToken: "a" }, sales: { botToken: "b" } } });
+    expect(listChannelAccounts(config)).toEqual(["support", "sales"]);
+  });
+
+  it("treats an empty accounts map as a single account", () => {
+    expect(listChannelAccounts(channel({ accounts: {} }))).toEqual(["default"]);
+  });
+});
+
+describe("resolveAccountConfig", () => {
+  it("returns the top-level config for the single account", () => {
+    const resolved = resolveAccountConfig(channel({ botToken: "t", autoReply: true }), "default");
+    expect(resolved).toMatchObject({ accountId: "default", botToken: "t", autoReply: true });
+    expect(resolved).not.toHaveProperty("accounts");
+  });
+
+  it("returns null for accounts that are not configured", () => {
+    expect(resolveAccountConfig(channel({ botToken: "t" }), "other")).toBeNull();
+    expect(resolveAccountConfig(channel({ accounts: { a: {} } }), "default")).toBeNull();
+  });
+
+  it("merges account overrides over the channel defaults", () => {
+    const config = channel({
+      autoReply: true,
+      allowFrom: ["alice"],
+      accounts: {
+        support: { botToken: "a" },
+        sales: { botToken: "b", autoReply: false, enabled: false },
+      },
+    });
+
+    expect(resolveAccountConfig(config, "support")).toMatchObject({
+      accountId: "support",
+      botToken: "a",
+      autoReply: true,
+      allowFrom: ["alice"],
+      enabled: true,
+    });
+    expect(resolveAccountConfig(config, "sales")).toMatchObject({
+      accountId: "sales",
+      botToken: "b",
+      autoReply: false,
+      enabled: false,
+    });
+  });
+
+  it("merges per-chat group settings of the channel and the account", () => {
+    const config = channel({
+      groupPolicy: "keyword",
+      groups: { "-1001": { groupPolicy: "always" } },
+      accounts: { support: { groups: { "-1002": { groupPolicy: "reply" } } } },
+    });
+
+    expect(resolveAccountConfig(config, "support")).toMatchObject({
+      groupPolicy: "keyword",
+      groupTriggers: [],
+      groups: { "-1001": { groupPolicy: "always" }, "-1002": { groupPolicy: "reply" } },
+    });
+  });
+
+  it("merges agent overrides of the channel and the account", () => {
+    const config = channel({
+      agent: { model: "claude-haiku-4-5-20251001", maxTurns: 10 },
+      users: { "42": { maxTurns: 0 } },
+      accounts: { support: { agent: { maxTurns: 5 }, chats: { "-1001": { maxBudgetPerMessage: 1 } } } },
+    });
+
+    expect(resolveAccountConfig(config, "support")).toMatchObject({
+      agent: { model: "claude-haiku-4-5-20251001", maxTurns: 5 },
+      chats: { "-1001": { maxBudgetPerMessage: 1 } },
+      users: { "42": { maxTurns: 0 } },
+    });
+  });
+});
+
+describe("ConfigSchema defaults", () => {
+  it("leaves MEMORY.md compaction off until enabled", () => {
+    expect(ConfigSchema.parse({}).gateway.memory.compaction.enabled).toBe(false);
+  });
+
+  it("keeps answering every group message unless a group policy is set", () => {
+    const config = ConfigSchema.parse({ channels: { telegram: { botToken: "123:abc" } } });
+
+    expect(config.channels.telegram.groupPolicy).toBe("always");
+  });
+});
@@ -6,6 +6,39 @@ import { homedir } from "node:os";
 const DATA_DIR = join(homedir(), ".openclaudecode");
 const CONFIG_FILE = join(DATA_DIR, "config.yaml");
 
+// When the bot answers in group chats (DMs are always answered)
+const GroupPolicySchema = z.enum(["mention", "reply", "keyword", "always"]);
+
+// Per-chat overrides of the channel's group policy
+const GroupChatSchema = z.object({
+  groupPolicy: GroupPolicySchema.optional(),
+  groupTriggers: z.array(z.string()).optional(),
+});
+
+// Agent settings overriding gateway.agentRunner for a channel, chat or user
+const AgentOverridesSchema = z.object({
+  model: z.string().optional(),
+  maxTurns: z.number().min(0).optional(),
+  maxBudgetPerMessage: z.number().min(0).optional(),
+});
+
+// Per-account overrides (no defaults: unset fields inherit from the channel)
+const ChannelAccountSchema = z.object({
+  enabled: z.boolean().optional(),
+  botToken: z.string().optional(),
+  allowFrom: z.array(z.string()).optional(),
+  autoReply: z.boolean().optional(),
+  mode: z.enum(["polling", "webhook"]).optional(),
+  webhookUrl: z.string().optional(),
+  webhookSecret: z.string().optional(),
+  groupPolicy: GroupPolicySchema.optional(),
+  groupTriggers: z.array(z.string()).optional(),
+  groups: z.record(z.string(), GroupChatSchema).optional(),
+  agent: AgentOverridesSchema.optional(),
+  chats: z.record(z.string(), AgentOverridesSchema).optional(),
+  users: z.record(z.string(), AgentOverridesSchema).optional(),
+});
+
 // Channel config schema
 const ChannelConfigSchema = z.object({
   enabled: z.boolean().default(true),
@@ -13,6 +46,71 @@ const ChannelConfigSchema = z.object({
   botToken: z.string().optional(),
   allowFrom: z.array(z.string()).optional(),
   autoReply: z.boolean().default(false),
+  /** How updates are received (Telegram): long polling or webhook */
+  mode: z.enum(["polling", "webhook"]).default("polling"),
+  /** Public URL Telegram posts updates to (proxied to /webhook/<channel>/<accountId>) */
+  webhookUrl: z.string().optional(),
+  /** Secret token verified on every webhook request (random per start if omitted) */
+  webhookSecret: z.string().optional(),
+  /**
+   * Group chats: answer everything ("always", the behavior before group
+   * policies existed), only when @-mentioned or replied to ("mention"), only
+   * replies to the bot ("reply"), or messages containing a trigger ("keyword")
+   */
+  groupPolicy: GroupPolicySchema.default("always"),
+  /** Trigger words/prefixes for the "keyword" policy (case-insensitive) */
+  groupTriggers: z.array(z.string()).default([]),
+  /** Per-chat overrides keyed by chat ID */
+  groups: z.record(z.string(), GroupChatSchema).optional(),
+  /** Agent model / maxTurns / maxBudgetPerMessage for this channel */
+  agent: AgentOverridesSchema.optional(),
+  /** ...per chat ID (DMs and groups), over the channel's */
+  chats: z.record(z.string(), AgentOverridesSchema).optional(),
+  /** ...per sender ID, over the chat's */
+  users: z.record(z.string(), AgentOverridesSchema).optional(),
+  /** Multiple accounts (e.g. two Telegram bots); top-level fields become shared defaults */
+  accounts: z.record(z.string(), ChannelAccountSchema).optional(),
+});
+
+// Block-reply streaming config (assistant text sent automatically)
+const BlockReplyConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  /** Minimum buffered characters before a paragraph break triggers a send */
+  minChars: z.number().default(200),
+  /** Hard cap on a single block */
+  maxChars: z.number().default(3000),
+  /** Send buffered text after this much idle time */
+  idleMs: z.number().default(1500),
+});
+
+// Live-edit streaming config (placeholder message edited as text arrives)
+const LiveEditConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  /** Minimum ms between edits of one message (platform rate limits) */
+  throttleMs: z.number().default(1200),
+  /** Continue in a new message past this length */
+  maxChars: z.number().default(1900),
+  /** Text posted before the first edit */
+  placeholder: z.string().default("…"),
+});
+
+// Spending caps checked before each agent run (USD, 0 = no cap; UTC days/months)
+const BudgetCapOverridesSchema = z.object({
+  userDaily: z.number().min(0).optional(),
+  userMonthly: z.number().min(0).optional(),
+  channelDaily: z.number().min(0).optional(),
+  channelMonthly: z.number().min(0).optional(),
+});
+
+const BudgetCapsConfigSchema = z.object({
+  userDaily: z.number().min(0).default(0),
+  userMonthly: z.number().min(0).default(0),
+  channelDaily: z.number().min(0).default(0),
+  channelMonthly: z.number().min(0).default(0),
+  /** Per channel name, over the defaults (userDaily/userMonthly apply to each of its users) */
+  channels: z.record(z.string(), BudgetCapOverridesSchema).optional(),
+  /** Per "channel:userId" (as in cost_report), over the channel's */
+  users: z.record(z.string(), BudgetCapOverridesSchema.pick({ userDaily: true, userMonthly: true })).optional(),
 });
 
 // Agent runner config schema (replaces auto-responder)
@@ -32,6 +130,16 @@ const AgentRunnerConfigSchema = z.object({
   systemPrompt: z.string().optional(),
   /** Path to persona file (optional, e.g. ~/.openclaudecode/persona.md) */
   personaFile: z.string().optional(),
+  /** Stream assistant text to users as block replies (opt-in) */
+  blockReplies: BlockReplyConfigSchema.default(() => BlockReplyConfigSchema.parse({})),
+  /** Stream replies by editing a placeholder on channels that support it (opt-in) */
+  liveEdit: LiveEditConfigSchema.default(() => LiveEditConfigSchema.parse({})),
+  /** User IDs/usernames allowed to run admin chat commands (empty = the channel's allowFrom users, in DMs only) */
+  commandAdmins: z.array(z.string()).default([]),
+  /** Daily / monthly spending caps per user and per channel (from the agent_runs ledger) */
+  budgetCaps: BudgetCapsConfigSchema.default(() => BudgetCapsConfigSchema.parse({})),
+  /** Models tried in order when a run fails with a transient error (overload, rate limit, 5xx) */
+  fallbackModels: z.array(z.string()).default([]),
 });
 
 // Legacy auto-responder config (kept for backward compat parsing)
@@ -44,6 +152,50 @@ const AutoResponderConfigSchema = z.object({
   maxHistoryMessages: z.number().default(10),
 });
 
+// Channel supervisor reconnect policy (see backoff.ts)
+const ReconnectConfigSchema = z.object({
+  /** Delay before the first restart */
+  initialDelayMs: z.number().default(1000),
+  /** Upper bound for any single delay */
+  maxDelayMs: z.number().default(60_000),
+  /** Multiplier applied per attempt */
+  factor: z.number().default(2),
+  /** Random spread as a fraction of the delay */
+  jitter: z.number().min(0).max(1).default(0.2),
+  /** Give up after this many consecutive failures (0 = never) */
+  maxAttempts: z.number().default(10),
+  /** A connection must stay up this long before the failure count resets */
+  stableMs: z.number().default(30_000),
+});
+
+// Memory retention: days to keep indexed chunks per source (0 = forever)
+const MemoryRetentionConfigSchema = z.object({
+  /** Conversation turns and transcripts */
+  session: z.number().min(0).default(0),
+  /** Chunks indexed from MEMORY.md, persona files and daily logs */
+  memory: z.number().min(0).default(0),
+});
+
+// MEMORY.md compaction (see memory-compaction.ts)
+const MemoryCompactionConfigSchema = z.object({
+  /** Opt-in: compaction rewrites MEMORY.md */
+  enabled: z.boolean().default(false),
+  /** Compact once MEMORY.md exceeds this many lines... */
+  maxLines: z.number().default(200),
+  /** ...or this many characters */
+  maxChars: z.number().default(16_000),
+  /** Model for the summarisation run */
+  model: z.string().default("claude-haiku-4-5-20251001"),
+  intervalMinutes: z.number().min(1).default(60),
+});
+
+const MemoryConfigSchema = z.object({
+  retention: MemoryRetentionConfigSchema.default(() => MemoryRetentionConfigSchema.parse({})),
+  compaction: MemoryCompactionConfigSchema.default(() => MemoryCompactionConfigSchema.parse({})),
+  /** write_persona refuses to drop more than this fraction of a file's lines without confirm: true */
+  maxPersonaDropRatio: z.number().min(0).max(1).default(0.5),
+});
+
 // Gateway config schema
 const GatewayConfigSchema = z.object({
   port: z.number().default(19280),
@@ -51,6 +203,10 @@ const GatewayConfigSchema = z.object({
   autoStart: z.boolean().default(true),
   logLevel: z.enum(["debug", "info", "warn", "error"]).default("info"),
   agentRunner: AgentRunnerConfigSchema.default(() => AgentRunnerConfigSchema.parse({})),
+  /** Automatic restart of failed channel adapters */
+  reconnect: ReconnectConfigSchema.default(() => ReconnectConfigSchema.parse({})),
+  /** memory_search index housekeeping */
+  memory: MemoryConfigSchema.default(() => MemoryConfigSchema.parse({})),
   /** @deprecated use agentRunner instead */
   autoResponder: AutoResponderConfigSchema.default(() => AutoResponderConfigSchema.parse({})).optional(),
 });
@@ -63,6 +219,10 @@ export const ConfigSchema = z.object({
 
 export type AppConfig = z.infer<typeof ConfigSchema>;
 export type ChannelConfig = z.infer<typeof ChannelConfigSchema>;
+export type ChannelAccountConfig = z.infer<typeof ChannelAccountSchema>;
+export type GroupPolicy = z.infer<typeof GroupPolicySchema>;
+export type GroupChatConfig = z.infer<typeof GroupChatSchema>;
+export type AgentOverrides = z.infer<typeof AgentOverridesSchema>;
 export type GatewayConfig = z.infer<typeof GatewayConfigSchema>;
 
 export function getDataDir(): string {
@@ -139,14 +299,141 @@ export function getChannelConfig(channel: string): ChannelConfig | null {
   return ChannelConfigSchema.parse(raw);
 }
 
-export function setChannelConfig(channel: string, channelConfig: Partial<ChannelConfig>): AppConfig {
+// ─── Accounts ───────────────────────────────────────────────────────────────
+
+function hasAccounts(
+  channelConfig: ChannelConfig,
+): channelConfig is ChannelConfig & { accounts: Record<string, ChannelAccountConfig> } {
+  return Object.keys(channelConfig.accounts ?? {}).length > 0;
+}
+
+/** Account IDs of a channel: the `accounts` keys, or the single top-level accountId */
+export function listChannelAccounts(channelConfig: ChannelConfig): string[] {
+  return hasAccounts(channelConfig) ? Object.keys(channelConfig.accounts) : [channelConfig.accountId];
+}
+
+/** Effective config of one account (channel defaults + account overrides), or null if not configured */
+export function resolveAccountConfig(channelConfig: ChannelConfig, accountId: string): ChannelConfig | null {
+  const { accounts, ...defaults } = channelConfig;
+  if (!hasAccounts(channelConfig)) {
+    return accountId === channelConfig.accountId ? defaults : null;
+  }
+  const overrides = accounts?.[accountId];
+  if (!overrides) return null;
+  // Per-chat and per-user settings merge rather than replace the channel's
+  const merge = <T>(base?: Record<string, T>, over?: Record<string, T>) =>
+    base || over ? { ...base, ...over } : undefined;
+  return ChannelConfigSchema.parse({
+    ...defaults,
+    ...overrides,
+    accountId,
+    groups: merge(defaults.groups, overrides.groups),
+    agent: defaults.agent || overrides.agent ? { ...defaults.agent, ...overrides.agent } : undefined,
+    chats: merge(defaults.chats, overrides.chats),
+    users: merge(defaults.users, overrides.users),
+  });
+}
+
+export function getChannelAccountConfig(channel: string, accountId: string = "default"): ChannelConfig | null {
+  const channelConfig = getChannelConfig(channel);
+  return channelConfig ? resolveAccountConfig(channelConfig, accountId) : null;
+}
+
+/**
+ * Merge config into a channel. Without an accountId (or for the single
+ * configured account) the top-level fields are updated; adding a second
+ * account moves the channel to the `accounts` map, keeping the existing
+ * account's settings as the shared defaults.
+ */
+export function setChannelConfig(
+  channel: string,
+  channelConfig: Partial<ChannelConfig>,
+  accountId?: string,
+): AppConfig {
   const config = loadConfig();
-  const existing = config.channels[channel] ?? {};
-  config.channels[channel] = ChannelConfigSchema.parse({ ...existing, ...channelConfig });
+  const existing = config.channels[channel];
+
+  if (!existing || accountId === undefined) {
+    config.channels[channel] = ChannelConfigSchema.parse({
+      ...(existing ?? {}),
+      ...channelConfig,
+      ...(accountId !== undefined ? { accountId } : {}),
+    });
+  } else if (!hasAccounts(existing) && existing.accountId === accountId) {
+    config.channels[channel] = ChannelConfigSchema.parse({ ...existing, ...channelConfig });
+  } else {
+    const accounts = hasAccounts(existing) ? existing.accounts : { [existing.accountId]: {} };
+    const { accountId: _id, accounts: _accounts, ...overrides } = channelConfig;
+    accounts[accountId] = ChannelAccountSchema.parse({ ...accounts[accountId], ...overrides });
+    config.channels[channel] = ChannelConfigSchema.parse({ ...existing, accounts });
+  }
+
   saveConfig(config);
   return config;
 }
 
+/** The part of a channel's config setChannelConfig writes to for an account */
+function writableConfig(channel: string, accountId?: string): ChannelConfig | ChannelAccountConfig | undefined {
+  const existing = getChannelConfig(channel);
+  if (!existing) return undefined;
+  if (accountId !== undefined && (hasAccounts(existing) || existing.accountId !== accountId)) {
+    return existing.accounts?.[accountId];
+  }
+  return existing;
+}
+
+/**
+ * Merge group-policy settings for one chat into the channel's (or the
+ * account's) `groups` map.
+ */
+export function setGroupChatConfig(
+  channel: string,
+  chatId: string,
+  settings: GroupChatConfig,
+  accountId?: string,
+): AppConfig {
+  const groups = { ...writableConfig(channel, accountId)?.groups };
+  groups[chatId] = GroupChatSchema.parse({ ...groups[chatId], ...settings });
+  return setChannelConfig(channel, { groups }, accountId);
+}
+
+/** Where agent overrides are stored: the channel itself, or one chat / user in it */
+export type AgentOverrideTarget = { scope: "channel" } | { scope: "chat" | "user"; id: string };
+
+/**
+ * Merge agent overrides into a channel, chat or user (null clears a field,
+ * and an entry left empty is removed).
+ */
+export function setAgentOverrides(
+  channel: string,
+  target: AgentOverrideTarget,
+  overrides: { [K in keyof AgentOverrides]?: AgentOverrides[K] | null },
+  accountId?: string,
+): AppConfig {
+  const current = writableConfig(channel, accountId);
+  const apply = (previous: AgentOverrides | undefined): AgentOverrides | undefined => {
+    const next: Record<string, unknown> = { ...previous, ...overrides };
+    for (const [field, value] of Object.entries(next)) {
+      if (value === null || value === undefined) delete next[field];
+    }
+    return Object.keys(next).length > 0 ? AgentOverridesSchema.parse(next) : undefined;
+  };
+
+  if (target.scope === "channel") {
+    return setChannelConfig(channel, { agent: apply(current?.agent) }, accountId);
+  }
+
+  const field = target.scope === "chat" ? "chats" : "users";
+  const entries = { ...current?.[field] };
+  const next = apply(entries[target.id]);
+  if (next) {
+    entries[target.id] = next;
+  } else {
+    delete entries[target.id];
+  }
+  return setChannelConfig(channel, { [field]: entries }, accountId);
+}
+
 // Minimal YAML-like serializer (JSON with comments for readability)
 // In production, use the `yaml` package. For bootstrap, JSON is fine.
 function parseSimpleYaml(content: string): unknown {
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import Database from "better-sqlite3";
+import {
+  CostLedger,
+  parseCostReportOptions,
+  resolveCostCaps,
+  startOfUtcDay,
+  startOfUtcMonth,
+  type AgentRunRecord,
+} from "./cost-ledger.js";
+
+const NOW = Date.parse("2026-03-15T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function run(overrides: Partial<AgentRunRecord>): AgentRunRecord {
+  return {
+    sessionKey: "telegram:default:42",
+    channel: "telegram",
+    accountId: "default",
+    userId: "42",
+    model: "claude-sonnet-4-5-20250929",
+    turns: 3,
+    costUsd: 0.1,
+    inputTokens: 1000,
+    outputTokens: 200,
+    cacheReadTokens: 0,
+    cacheCreationTokens: 0,
+    durationMs: 4000,
+    subtype: "success",
+    lastTool: "mcp__gateway__send_message",
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+const noCaps = { userDaily: 0, userMonthly: 0, channelDaily: 0, channelMonthly: 0 };
+
+describe("UTC periods", () => {
+  it("finds the start of the day and month", () => {
+    expect(startOfUtcDay(NOW)).toBe(Date.parse("2026-03-15T00:00:00Z"));
+    expect(startOfUtcMonth(NOW)).toBe(Date.parse("2026-03-01T00:00:00Z"));
+  });
+});
+
+describe("CostLedger", () => {
+  let ledger: CostLedger;
+
+  beforeEach(() => {
+    ledger = new CostLedger(new Database(":memory:"));
+    ledger.record(run({ costUsd: 0.5 }));
+    ledger.record(run({ costUsd: 0.25, createdAt: NOW - 2 * DAY }));
+    ledger.record(run({ costUsd: 1, createdAt: NOW - 30 * DAY }));
+    ledger.record(run({ userId: "7", sessionKey: "telegram:default:-100123", costUsd: 2, model: "claude-haiku-4-5-20251001" }));
+    ledger.record(run({ channel: "discord", sessionKey: "discord:default:42", costUsd: 4 }));
+  });
+
+  it("sums spending by user, channel and conversation", () => {
+    expect(ledger.spent({ channel: "telegram", userId: "42" }, startOfUtcDay(NOW))).toBe(0.5);
+    expect(ledger.spent({ channel: "telegram", userId: "42" }, startOfUtcMonth(NOW))).toBe(0.75);
+    expect(ledger.spent({ channel: "telegram" }, startOfUtcDay(NOW))).toBe(2.5);
+    expect(ledger.spent({ sessionKey: "discord:default:42" }, 0)).toBe(4);
+  });
+
+  it("allows runs without caps", () => {
+    expect(ledger.checkCaps(noCaps, { channel: "telegram", userId: "42" }, NOW)).toEqual({
+      allowed: true,
+      remaining: Infinity,
+    });
+  });
+
+  it("reports the tightest remaining budget", () => {
+    const check = ledger.checkCaps({ ...noCaps, userDaily: 2, channelMonthly: 3 }, { channel: "telegram", userId: "42" }, NOW);
+    expect(check.allowed).toBe(true);
+    expect(check.allowed && check.remaining).toBeCloseTo(0.25);
+  });
+
+  it("blocks users and channels over a cap", () => {
+    expect(ledger.checkCaps({ ...noCaps, userMonthly: 0.75 }, { channel: "telegram", userId: "42" }, NOW)).toEqual({
+      allowed: false,
+      scope: "user",
+      period: "monthly",
+      spent: 0.75,
+      cap: 0.75,
+    });
+    expect(ledger.checkCaps({ ...noCaps, channelDaily: 2 }, { channel: "telegram", userId: "99" }, NOW)).toMatchObject({
+      allowed: false,
+      scope: "channel",
+      period: "daily",
+    });
+  });
+
+  it("applies channel and user overrides over the default caps", () => {
+    const caps = {
+      ...noCaps,
+      userDaily: 0.25,
+      channels: { telegram: { userDaily: 0.4 }, discord: { channelDaily: 10 } },
+      users: { "telegram:7": { userDaily: 5 } },
+    };
+
+    expect(resolveCostCaps(caps, { channel: "discord", userId: "42" })).toEqual({ ...noCaps, userDaily: 0.25, channelDaily: 10 });
+    expect(ledger.checkCaps(caps, { channel: "telegram", userId: "42" }, NOW)).toMatchObject({ allowed: false, cap: 0.4 });
+    expect(ledger.checkCaps(caps, { channel: "telegram", userId: "7" }, NOW)).toEqual({ allowed: true, remaining: 3 });
+  });
+
+  it("groups a month's runs by cost", () => {
+    const report = ledger.report({ groupBy: "user" }, NOW);
+
+    expect(report.total).toEqual({ runs: 4, costUsd: 6.75, inputTokens: 4000, outputTokens: 800 });
+    expect(report.groups.map((g) => [g.key, g.costUsd])).toEqual([
+      ["discord:42", 4],
+      ["telegram:7", 2],
+      ["telegram:42", 0.75],
+    ]);
+  });
+
+  it("filters reports by period, channel and model grouping", () => {
+    const report = ledger.report(
+      { since: Date.parse("2026-03-15T00:00:00Z"), channel: "telegram", groupBy: "model" },
+      NOW,
+    );
+    expect(report.groups.map((g) => g.key)).toEqual(["claude-haiku-4-5-20251001", "claude-sonnet-4-5-20250929"]);
+    expect(ledger.report({ groupBy: "day", since: 0 }, NOW).groups.map((g) => g.key).sort()).toEqual([
+      "2026-02-13",
+      "2026-03-13",
+      "2026-03-15",
+    ]);
+  });
+});
+
+describe("parseCostReportOptions", () => {
+  it("accepts ISO dates and epoch milliseconds", () => {
+    expect(parseCostReportOptions({ since: "2026-03-01", until: String(NOW), groupBy: "day" })).toEqual({
+      since: Date.parse("2026-03-01"),
+      until: NOW,
+      groupBy: "day",
+      channel: undefined,
+      userId: undefined,
+    });
+  });
+
+  it("rejects unknown groupings and invalid times", () => {
+    expect(() => parseCostReportOptions({ groupBy: "weekday" })).toThrow("groupBy must be one of");
+    expect(() => parseCostReportOptions({ since: "yesterday" })).toThrow("Invalid time");
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * CostLedger - Records every agent run in SQLite (shared gateway DB) and
+ * enforces daily / monthly spending caps per user and per channel.
+ *
+ * One row per user turn of a query() run (and per failed attempt): the
+ * conversation, whose message the turn answered, the model, turns, cost,
+ * tokens, wall-clock duration, result subtype and the last tool used.
+ * Periods are calendar days / months in UTC, like the daily logs.
+ */
+
+import Database from "better-sqlite3";
+
+export type AgentRunRecord = {
+  /** Conversation key (channel:account:peer) */
+  sessionKey: string;
+  channel: string;
+  accountId: string;
+  userId: string;
+  model: string;
+  turns: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  durationMs: number;
+  /** Result subtype ("success", "error_max_turns", ...), "aborted" or "exception" */
+  subtype: string;
+  lastTool: string | null;
+  createdAt: number;
+};
+
+/** Spending caps in USD (0 = no cap) */
+export type CostCapLimits = {
+  userDaily: number;
+  userMonthly: number;
+  channelDaily: number;
+  channelMonthly: number;
+};
+
+/** Default caps with overrides for single channels and users */
+export type CostCaps = CostCapLimits & {
+  /** Key: channel name */
+  channels?: Record<string, Partial<CostCapLimits>>;
+  /** Key: "channel:userId" (the cost_report user key) */
+  users?: Record<string, Partial<Pick<CostCapLimits, "userDaily" | "userMonthly">>>;
+};
+
+export type CostCapCheck =
+  | { allowed: true; /** USD left under the tightest cap (Infinity without caps) */ remaining: number }
+  | { allowed: false; scope: "user" | "channel"; period: "daily" | "monthly"; spent: number; cap: number };
+
+export const COST_GROUP_BYS = ["user", "channel", "model", "day", "conversation"] as const;
+export type CostGroupBy = (typeof COST_GROUP_BYS)[number];
+
+export type CostReportOptions = {
+  /** Start of the period (ms); defaults to the start of the current UTC month */
+  since?: number;
+  /** End of the period (ms, exclusive); defaults to now */
+  until?: number;
+  groupBy?: CostGroupBy;
+  channel?: string;
+  userId?: string;
+};
+
+export type CostTotals = {
+  runs: number;
+  costUsd: number;
+  inputTokens: number;
+  outputTokens: number;
+};
+
+export type CostReport = {
+  since: number;
+  until: number;
+  groupBy: CostGroupBy;
+  total: CostTotals;
+  groups: Array<CostTotals & { key: string }>;
+};
+
+/** SQL expression each grouping aggregates by */
+const GROUP_COLUMNS: Record<CostGroupBy, string> = {
+  user: "channel || ':' || user_id",
+  channel: "channel",
+  model: "model",
+  day: "strftime('%Y-%m-%d', created_at / 1000, 'unixepoch')",
+  conversation: "session_key",
+};
+
+export function startOfUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function startOfUtcMonth(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/** Caps applying to one user: the user's overrides, then the channel's, then the defaults */
+export function resolveCostCaps(caps: CostCaps, target: { channel: string; userId: string }): CostCapLimits {
+  const channel = caps.channels?.[target.channel] ?? {};
+  const user = caps.users?.[`${target.channel}:${target.userId}`] ?? {};
+  return {
+    userDaily: user.userDaily ?? channel.userDaily ?? caps.userDaily,
+    userMonthly: user.userMonthly ?? channel.userMonthly ?? caps.userMonthly,
+    channelDaily: channel.channelDaily ?? caps.channelDaily,
+    channelMonthly: channel.channelMonthly ?? caps.channelMonthly,
+  };
+}
+
+/** Parse a report bound given as epoch ms or an ISO date / date-time string */
+function parseTimeBound(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const text = String(value);
+  const time = /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+  if (!Number.isFinite(time)) throw new Error(`Invalid time: ${text}`);
+  return time;
+}
+
+/** Validate cost_report parameters from IPC / HTTP query strings */
+export function parseCostReportOptions(raw: Record<string, unknown>): CostReportOptions {
+  const groupBy = raw.groupBy ?? "user";
+  if (!COST_GROUP_BYS.includes(groupBy as CostGroupBy)) {
+    throw new Error(`groupBy must be one of: ${COST_GROUP_BYS.join(", ")}`);
+  }
+  return {
+    since: parseTimeBound(raw.since),
+    until: parseTimeBound(raw.until),
+    groupBy: groupBy as CostGroupBy,
+    channel: raw.channel ? String(raw.channel) : undefined,
+    userId: raw.userId ? String(raw.userId) : undefined,
+  };
+}
+
+export class CostLedger {
+  private db: Database.Database;
+  private schemaReady = false;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  ensureSchema(): void {
+    if (this.schemaReady) return;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_key TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        account_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        turns INTEGER NOT NULL,
+        cost_usd REAL NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER NOT NULL,
+        cache_creation_tokens INTEGER NOT NULL,
+        duration_ms INTEGER NOT NULL,
+        subtype TEXT NOT NULL,
+        last_tool TEXT,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_agent_runs_user ON agent_runs(channel, user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_agent_runs_created ON agent_runs(created_at);
+    `);
+
+    this.schemaReady = true;
+  }
+
+  record(run: AgentRunRecord): void {
+    this.ensureSchema();
+    this.db
+      .prepare(
+        `INSERT INTO agent_runs (
+          session_key, channel, account_id, user_id, model, turns, cost_usd,
+          input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens,
+          duration_ms, subtype, last_tool, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      )
+      .run(
+        run.sessionKey,
+        run.channel,
+        run.accountId,
+        run.userId,
+        run.model,
+        run.turns,
+        run.costUsd,
+        run.inputTokens,
+        run.outputTokens,
+        run.cacheReadTokens,
+        run.cacheCreationTokens,
+        run.durationMs,
+        run.subtype,
+        run.lastTool,
+        run.createdAt,
+      );
+  }
+
+  /** USD spent since a point in time, on a channel or by one of its users */
+  spent(filter: { channel?: string; userId?: string; sessionKey?: string }, since: number): number {
+    this.ensureSchema();
+    const { where, params } = this.filterClause(filter);
+    const row = this.db
+      .prepare(`SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM agent_runs WHERE created_at >= ?${where}`)
+      .get(since, ...params) as { cost: number };
+    return row.cost;
+  }
+
+  /** Whether a user may start another run under the configured caps */
+  checkCaps(caps: CostCaps, target: { channel: string; userId: string }, now: number = Date.now()): CostCapCheck {
+    const resolved = resolveCostCaps(caps, target);
+    const limits: Array<{ scope: "user" | "channel"; period: "daily" | "monthly"; cap: number }> = [
+      { scope: "user", period: "daily", cap: resolved.userDaily },
+      { scope: "user", period: "monthly", cap: resolved.userMonthly },
+      { scope: "channel", period: "daily", cap: resolved.channelDaily },
+      { scope: "channel", period: "monthly", cap: resolved.channelMonthly },
+    ];
+
+    let remaining = Infinity;
+    for (const { scope, period, cap } of limits) {
+      if (cap <= 0) continue;
+      const since = period === "daily" ? startOfUtcDay(now) : startOfUtcMonth(now);
+      const spent = this.spent(scope === "user" ? target : { channel: target.channel }, since);
+      if (spent >= cap) return { allowed: false, scope, period, spent, cap };
+      remaining = Math.min(remaining, cap - spent);
+    }
+    return { allowed: true, remaining };
+  }
+
+  /** Aggregated costs for a period, grouped and sorted by cost */
+  report(options: CostReportOptions = {}, now: number = Date.now()): CostReport {
+    this.ensureSchema();
+    const since = options.since ?? startOfUtcMonth(now);
+    const until = options.until ?? now + 1;
+    const groupBy = options.groupBy ?? "user";
+    const { where, params } = this.filterClause(options);
+
+    const columns = `COUNT(*) AS runs, COALESCE(SUM(cost_usd), 0) AS cost, COALESCE(SUM(input_tokens), 0) AS input, COALESCE(SUM(output_tokens), 0) AS output`;
+    const range = `created_at >= ? AND created_at < ?${where}`;
+
+    const total = this.db.prepare(`SELECT ${columns} FROM agent_runs WHERE ${range}`).get(since, until, ...params) as Record<string, number>;
+    const groups = this.db
+      .prepare(`SELECT ${GROUP_COLUMNS[groupBy]} AS key, ${columns} FROM agent_runs WHERE ${range} GROUP BY key ORDER BY cost DESC`)
+      .all(since, until, ...params) as Array<Record<string, number | string>>;
+
+    return {
+      since,
+      until,
+      groupBy,
+      total: rowToTotals(total),
+      groups: groups.map((row) => ({ key: String(row.key), ...rowToTotals(row as Record<string, number>) })),
+    };
+  }
+
+  private filterClause(filter: { channel?: string; userId?: string; sessionKey?: string }): {
+    where: string;
+    params: string[];
+  } {
+    const clauses: string[] = [];
+    const params: string[] = [];
+    if (filter.channel) {
+      clauses.push("channel = ?");
+      params.push(filter.channel);
+    }
+    if (filter.userId) {
+      clauses.push("user_id = ?");
+      params.push(filter.userId);
+    }
+    if (filter.sessionKey) {
+      clauses.push("session_key = ?");
+      params.push(filter.sessionKey);
+    }
+    return { where: clauses.map((clause) => ` AND ${clause}`).join(""), params };
+  }
+}
+
+function rowToTotals(row: Record<string, number>): CostTotals {
+  return {
+    runs: row.runs,
+    costUsd: row.cost,
+    inputTokens: row.input,
+    outputTokens: row.output,
+  };
+}
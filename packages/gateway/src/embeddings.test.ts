@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { bufferToVector, cosineSimilarity, createHashingEmbedder, vectorToBuffer } from "./embeddings.js";
+
+const embedder = createHashingEmbedder();
+
+describe("cosineSimilarity", () => {
+  it("is 1 for identical directions and 0 for orthogonal vectors", () => {
+    expect(cosineSimilarity(new Float32Array([1, 2]), new Float32Array([2, 4]))).toBeCloseTo(1);
+    expect(cosineSimilarity(new Float32Array([1, 0]), new Float32Array([0, 1]))).toBe(0);
+  });
+
+  it("returns 0 for zero vectors", () => {
+    expect(cosineSimilarity(new Float32Array(3), new Float32Array([1, 2, 3]))).toBe(0);
+  });
+});
+
+describe("createHashingEmbedder", () => {
+  it("produces deterministic unit vectors of the configured size", () => {
+    const small = createHashingEmbedder(64);
+    const a = small.embed("deploy the app with Docker");
+    const b = small.embed("deploy the app with Docker");
+
+    expect(a).toHaveLength(64);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    expect(small.id).toBe("hashing-64");
+  });
+
+  it("scores word-form variants above unrelated text", () => {
+    const query = embedder.embed("deploying containers");
+    const related = embedder.embed("we deployed the container to production");
+    const unrelated = embedder.embed("pasta recipe with fresh basil");
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("relates Korean text through shared bigrams", () => {
+    const query = embedder.embed("회의 일정");
+    const related = embedder.embed("내일 회의 일정은 오후 3시입니다");
+    const unrelated = embedder.embed("점심 메뉴 추천해줘");
+
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+  });
+
+  it("returns a zero vector for text without word characters", () => {
+    expect(Array.from(embedder.embed("?!")).every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe("vector buffers", () => {
+  it("round-trips through a Buffer", () => {
+    const vector = embedder.embed("round trip");
+    expect(Array.from(bufferToVector(vectorToBuffer(vector)))).toEqual(Array.from(vector));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Text embeddings for semantic memory search.
+ *
+ * Providers are synchronous (MemoryManager runs on better-sqlite3, which is
+ * synchronous too), so they must compute vectors locally on the CPU. The
+ * default hashing embedder needs no model download and works offline: it
+ * hashes words, CJK bigrams and character trigrams into a fixed-size signed
+ * vector, which catches shared vocabulary and word-form variations
+ * ("deploy" / "deploying") that AND-joined FTS terms miss.
+ */
+
+import { segmentForIndex } from "./memory-tokenizer.js";
+
+export interface EmbeddingProvider {
+  /** Stored with each vector; chunks embedded by another provider are re-embedded */
+  readonly id: string;
+  readonly dimensions: number;
+  /** L2-normalized embedding of the text */
+  embed(text: string): Float32Array;
+}
+
+// ─── Vector Math ────────────────────────────────────────────────────────────
+
+/** Cosine similarity of two vectors (0 when either is all zeros) */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+export function vectorToBuffer(vector: Float32Array): Buffer {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+export function bufferToVector(buffer: Buffer): Float32Array {
+  // Copy: the Buffer may be a view into a shared pool with arbitrary alignment
+  const copy = new Uint8Array(buffer);
+  return new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4));
+}
+
+// ─── Hashing Embedder ───────────────────────────────────────────────────────
+
+/** 32-bit FNV-1a */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Weighted features: whole tokens count more than their character trigrams */
+function features(text: string): Array<[string, number]> {
+  const tokens = segmentForIndex(text.toLowerCase()).match(/[\p{L}\p{N}_]+/gu) ?? [];
+  const result: Array<[string, number]> = [];
+  for (const token of tokens) {
+    result.push([`w:${token}`, 1]);
+    const padded = `^${token}$`;
+    if (padded.length > 4) {
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        result.push([`t:${padded.slice(i, i + 3)}`, 0.5]);
+      }
+    }
+  }
+  return result;
+}
+
+export function createHashingEmbedder(dimensions = 256): EmbeddingProvider {
+  return {
+    id: `hashing-${dimensions}`,
+    dimensions,
+    embed(text: string): Float32Array {
+      const vector = new Float32Array(dimensions);
+      for (const [feature, weight] of features(text)) {
+        const hash = fnv1a(feature);
+        // Top bit picks the sign so unrelated features cancel out on average
+        vector[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+      }
+
+      let norm = 0;
+      for (const value of vector) norm += value * value;
+      norm = Math.sqrt(norm);
+      if (norm > 0) {
+        for (let i = 0; i < dimensions; i++) vector[i] /= norm;
+      }
+      return vector;
+    },
+  };
+}
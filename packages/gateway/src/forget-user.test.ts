@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { dmConversationKeys, logEntryKey, matchSnippets, purgeDailyLogs, removeLogEntries } from "./forget-user.js";
+
+const LOG = [
+  "",
+  "## 09:00:00 [telegram:default:1]",
+  "**User**: my phone number is 010-1234",
+  "**Result**: success",
+  "",
+  "## 09:05:00 [telegram:default:2]",
+  "**User**: hello there",
+  "**Result**: success",
+  "",
+  "## 09:10:00 [telegram:default:group]",
+  "**User**: see you at the Baker Street office",
+  "**Result**: success",
+  "",
+].join("\n");
+
+describe("matchSnippets", () => {
+  it("keeps distinct snippets long enough to identify a message", () => {
+    expect(matchSnippets(["ok", undefined, "  see you at the office  ", "see you at the office"])).toEqual([
+      "see you at the office",
+    ]);
+  });
+
+  it("truncates long messages to their leading characters", () => {
+    const [snippet] = matchSnippets(["x".repeat(500)]);
+    expect(snippet).toHaveLength(100);
+  });
+});
+
+describe("dmConversationKeys", () => {
+  it("includes the account-less key written before multi-account support", () => {
+    expect(dmConversationKeys("telegram", "work", "42")).toEqual(["telegram:work:42", "telegram:42"]);
+  });
+
+  it("matches the user's legacy daily-log entries", () => {
+    const log = LOG + ["## 10:00:00 [telegram:1]", "**User**: my old address", "**Result**: success", ""].join("\n");
+    const keys = dmConversationKeys("telegram", "default", "1");
+
+    const result = removeLogEntries(log, (entry) => keys.includes(logEntryKey(entry) ?? ""));
+    expect(result.removed).toBe(2);
+    expect(result.content).not.toContain("010-1234");
+    expect(result.content).not.toContain("my old address");
+    expect(result.content).toContain("[telegram:default:2]");
+  });
+});
+
+describe("logEntryKey", () => {
+  it("reads the conversation key from an entry header", () => {
+    expect(logEntryKey("## 09:00:00 [telegram:default:1]\n**User**: hi")).toBe("telegram:default:1");
+    expect(logEntryKey("**User**: hi")).toBeNull();
+  });
+});
+
+describe("removeLogEntries", () => {
+  it("drops matching entries and keeps the rest verbatim", () => {
+    const result = removeLogEntries(LOG, (entry) => logEntryKey(entry) === "telegram:default:1");
+
+    expect(result.removed).toBe(1);
+    expect(result.content).not.toContain("010-1234");
+    expect(result.content).toContain("## 09:05:00 [telegram:default:2]\n**User**: hello there");
+    expect(result.content).toContain("Baker Street");
+  });
+
+  it("matches entries by content", () => {
+    const result = removeLogEntries(LOG, (entry) => entry.includes("Baker Street office"));
+    expect(result.removed).toBe(1);
+    expect(result.content).not.toContain("[telegram:default:group]");
+  });
+});
+
+describe("purgeDailyLogs", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "forget-user-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rewrites only daily log files with matching entries", () => {
+    writeFileSync(join(dir, "2026-01-01.md"), LOG);
+    writeFileSync(join(dir, "2026-01-02.md"), LOG);
+    writeFileSync(join(dir, "notes.md"), LOG);
+
+    expect(purgeDailyLogs(dir, (entry) => logEntryKey(entry) === "telegram:default:1")).toBe(2);
+    expect(readFileSync(join(dir, "2026-01-02.md"), "utf-8")).not.toContain("010-1234");
+    expect(readFileSync(join(dir, "notes.md"), "utf-8")).toBe(LOG);
+  });
+
+  it("returns 0 for a missing directory", () => {
+    expect(purgeDailyLogs(join(dir, "missing"), () => true)).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Helpers for "forget me" privacy requests.
+ *
+ * A user's DM conversation is keyed by their ID, so its memories and daily-log
+ * entries can be dropped by key. Group conversations are shared, so only the
+ * entries quoting the user's own messages are removed; snippets of those
+ * messages identify them.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+/** Shorter messages ("ok", "ㅋㅋ") are too common to identify a user's entries */
+const MIN_SNIPPET_CHARS = 8;
+/** Leading characters matched (daily logs keep only the start of the user text) */
+const SNIPPET_CHARS = 100;
+
+const DAILY_LOG_FILE = /^\d{4}-\d{2}-\d{2}\.md$/;
+
+/**
+ * Keys a user's DM conversation can be stored under: "channel:account:user"
+ * and the account-less "channel:user" written before multi-account support.
+ */
+export function dmConversationKeys(channel: string, accountId: string, userId: string): string[] {
+  return [`${channel}:${accountId}:${userId}`, `${channel}:${userId}`];
+}
+
+/** Distinct, distinctive leading snippets of the given message texts */
+export function matchSnippets(texts: Array<string | undefined>): string[] {
+  const snippets = new Set<string>();
+  for (const text of texts) {
+    const snippet = text?.trim().slice(0, SNIPPET_CHARS) ?? "";
+    if (snippet.length >= MIN_SNIPPET_CHARS) snippets.add(snippet);
+  }
+  return [...snippets];
+}
+
+/** Conversation key of a daily-log entry ("## 12:34:56 [telegram:default:42]") */
+export function logEntryKey(entry: string): string | null {
+  const match = entry.match(/^## \S+ \[([^\]\n]+)\]/);
+  return match ? match[1] : null;
+}
+
+/** Drop the "## …" entries of a daily log for which shouldRemove returns true */
+export function removeLogEntries(
+  content: string,
+  shouldRemove: (entry: string) => boolean,
+): { content: string; removed: number } {
+  let removed = 0;
+  const kept = content.split(/(?=^## )/m).filter((part) => {
+    if (!part.startsWith("## ") || !shouldRemove(part)) return true;
+    removed++;
+    return false;
+  });
+  return { content: kept.join(""), removed };
+}
+
+/** Rewrite every daily log (YYYY-MM-DD.md) in memDir without the matching entries. Returns entries removed. */
+export function purgeDailyLogs(memDir: string, shouldRemove: (entry: string) => boolean): number {
+  if (!existsSync(memDir)) return 0;
+
+  let removed = 0;
+  for (const file of readdirSync(memDir)) {
+    if (!DAILY_LOG_FILE.test(file)) continue;
+    const path = join(memDir, file);
+    const result = removeLogEntries(readFileSync(path, "utf-8"), shouldRemove);
+    if (result.removed > 0) {
+      writeFileSync(path, result.content, "utf-8");
+      removed += result.removed;
+    }
+  }
+  return removed;
+}
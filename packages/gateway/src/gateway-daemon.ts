@@ -4,14 +4,33 @@ import { serve } from "@hono/node-server";
 import { writeFileSync, unlinkSync, existsSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { fileURLToPath } from "node:url";
-import { loadConfig, ensureDataDir, getPidFile, getDataDir, setChannelConfig } from "./config.js";
+import {
+  loadConfig,
+  ensureDataDir,
+  getPidFile,
+  getDataDir,
+  setChannelConfig,
+  setGroupChatConfig,
+  listChannelAccounts,
+  resolveAccountConfig,
+  type GroupChatConfig,
+} from "./config.js";
 import { IpcServer, type IpcHandler } from "./daemon-ipc.js";
 import { MessageStore } from "./message-store.js";
 import { ChannelManager } from "./channel-manager.js";
 import { MessageRouter } from "./message-router.js";
 import { createHttpApp } from "./gateway-http.js";
 import { AgentRunner } from "./agent-runner.js";
-import { MemoryManager } from "./memory-manager.js";
+import { MemoryManager, type MemoryRetentionPolicy } from "./memory-manager.js";
+import type { MemorySearchMode } from "./memory-ranking.js";
+import { TranscriptIndexer } from "./transcript-indexer.js";
+import { MemoryFileIndexer } from "./memory-files.js";
+import { MemoryCompactor } from "./memory-compaction.js";
+import { migrateLegacyKeys } from "./legacy-keys.js";
+import { PersonaHistory } from "./persona-history.js";
+import { CostLedger, parseCostReportOptions } from "./cost-ledger.js";
+import { resolveOutboundMedia, type MediaInput } from "./outbound-media.js";
+import { AttachmentStore } from "./attachment-store.js";
 import type { ChannelMessage, ChannelAccountSnapshot } from "@open-claude-code/adapter-core";
 
 // --- Daemon Entry Point ---
@@ -39,9 +58,34 @@ async function main() {
   memoryManager.ensureSchema();
   console.log(`[gateway] Memory manager initialized (shared DB with message store)`);
 
+  // Conversation keys from before multi-account support gain the account they ran on
+  try {
+    const migrated = migrateLegacyKeys({
+      sessionsFile: join(getDataDir(), "sessions.json"),
+      memoryDir: join(getDataDir(), "memory"),
+      db: store.getDb(),
+      resolveAccount: (channel, peerId) => store.getConversationAccount(channel, peerId) ?? "default",
+    });
+    if (migrated.sessions > 0 || migrated.chunks > 0 || migrated.logEntries > 0) {
+      console.log(
+        `[gateway] Migrated legacy conversation keys: ${migrated.sessions} session(s), ${migrated.chunks} memory chunk(s), ${migrated.logEntries} daily-log entries`,
+      );
+    }
+  } catch (err) {
+    console.warn(`[gateway] Failed to migrate legacy conversation keys:`, err);
+  }
+
+  // Persona file revisions (write_persona history / rollback), same DB
+  const personaHistory = new PersonaHistory(store.getDb(), getDataDir());
+  personaHistory.ensureSchema();
+
   // Initialize agent runner (replaces legacy auto-responder)
   const agentRunnerConfig = config.gateway.agentRunner;
-  const agentRunner = new AgentRunner(store, memoryManager, {
+  // Per-run cost ledger (agent_runs), same DB; also enforces spending caps
+  const costLedger = new CostLedger(store.getDb());
+  costLedger.ensureSchema();
+
+  const agentRunner = new AgentRunner(store, memoryManager, personaHistory, costLedger, {
     enabled: agentRunnerConfig.enabled,
     model: agentRunnerConfig.model,
     maxConcurrent: agentRunnerConfig.maxConcurrent,
@@ -50,10 +94,38 @@ async function main() {
     maxBudgetPerMessage: agentRunnerConfig.maxBudgetPerMessage,
     systemPrompt: agentRunnerConfig.systemPrompt,
     personaFile: agentRunnerConfig.personaFile,
+    blockReplies: agentRunnerConfig.blockReplies,
+    liveEdit: agentRunnerConfig.liveEdit,
+    maxPersonaDropRatio: config.gateway.memory.maxPersonaDropRatio,
+    commandAdmins: agentRunnerConfig.commandAdmins,
+    budgetCaps: agentRunnerConfig.budgetCaps,
+    fallbackModels: agentRunnerConfig.fallbackModels,
   });
 
   console.log(`[gateway] Agent runner: ${agentRunnerConfig.enabled ? "enabled" : "disabled"} (model: ${agentRunnerConfig.model})`);
 
+  // Index SDK session transcripts into memory in the background
+  const transcriptIndexer = new TranscriptIndexer(memoryManager, agentRunner.getSessionPaths());
+  transcriptIndexer.start();
+
+  // Keep MEMORY.md, persona files and daily logs searchable (re-indexed on change)
+  const memoryFileIndexer = new MemoryFileIndexer(memoryManager, { dataDir: getDataDir() });
+  memoryFileIndexer.start();
+
+  // Consolidate MEMORY.md when it outgrows its budget (previous version is archived)
+  const memoryCompactor = new MemoryCompactor({
+    dataDir: getDataDir(),
+    config: config.gateway.memory.compaction,
+    history: personaHistory,
+  });
+  memoryCompactor.start();
+
+  // Drop memory chunks past their retention period (config: gateway.memory.retention)
+  const retentionTimer = scheduleMemoryRetention(memoryManager, memoryFileIndexer, config.gateway.memory.retention);
+
+  // Inbound attachments are stored content-addressed under the data dir
+  const attachments = new AttachmentStore(join(getDataDir(), "attachments"));
+
   const channelManager = new ChannelManager(store, {
     onMessage: (msg: ChannelMessage) => {
       console.log(`[gateway] Message from ${msg.channel}/${msg.from.id}: ${msg.text?.slice(0, 50) ?? "(media)"}`);
@@ -83,24 +155,34 @@ async function main() {
         params: snapshot as unknown as Record<string, unknown>,
       });
     },
-  });
+  }, attachments);
 
   const messageRouter = new MessageRouter(channelManager, store);
 
   // Wire agent runner with channel manager + message router for typing and MCP tools
   agentRunner.setDependencies(channelManager, messageRouter);
+  // Chat commands appear in the Telegram / Discord command menus once connected
+  channelManager.setCommands(agentRunner.getCommandMenu());
 
   // Try to load adapter packages dynamically
   await loadAdapters(channelManager);
 
   // Start IPC server
-  const ipcHandler = createIpcHandler(channelManager, messageRouter, store, agentRunner, memoryManager);
+  const ipcHandler = createIpcHandler(
+    channelManager,
+    messageRouter,
+    store,
+    agentRunner,
+    memoryManager,
+    personaHistory,
+    costLedger,
+  );
   const ipcServer = new IpcServer(ipcHandler);
   await ipcServer.start();
   console.log(`[gateway] IPC server listening`);
 
   // Start HTTP server
-  const httpApp = createHttpApp({ channelManager, messageRouter, store });
+  const httpApp = createHttpApp({ channelManager, messageRouter, store, costLedger });
   const httpServer = serve({ fetch: httpApp.fetch, port, hostname: host }, () => {
     console.log(`[gateway] HTTP server listening on http://${host}:${port}`);
   });
@@ -111,6 +193,10 @@ async function main() {
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     console.log(`\n[gateway] Received ${signal}, shutting down...`);
+    transcriptIndexer.stop();
+    memoryFileIndexer.stop();
+    memoryCompactor.stop();
+    clearInterval(retentionTimer);
     await channelManager.stopAll();
     await ipcServer.stop();
     httpServer.close();
@@ -133,6 +219,8 @@ function createIpcHandler(
   store: MessageStore,
   agentRunner: AgentRunner,
   memoryManager: MemoryManager,
+  personaHistory: PersonaHistory,
+  costLedger: CostLedger,
 ): IpcHandler {
   return async (method: string, params: Record<string, unknown>) => {
     switch (method) {
@@ -178,21 +266,35 @@ function createIpcHandler(
         return { status: "disconnected" };
       }
 
+      case "channel.retry": {
+        const { channel, accountId } = params as {
+          channel: string;
+          accountId?: string;
+        };
+        if (!channel) throw new Error("channel is required");
+        return channelManager.retryChannel(channel, accountId);
+      }
+
       case "channel.status": {
         const { channel } = params as { channel?: string };
         return channelManager.getStatus(channel);
       }
 
       case "message.send": {
-        const { channel, to, text, replyToId, accountId } = params as {
+        const { channel, to, text, media, replyToId, accountId } = params as {
           channel: string;
           to: string;
-          text: string;
+          text?: string;
+          media?: MediaInput[];
           replyToId?: string;
           accountId?: string;
         };
-        if (!channel || !to || !text) throw new Error("channel, to, and text are required");
-        return messageRouter.send(channel, { to, text, replyToId }, accountId);
+        if (!channel || !to || (!text && !media?.length)) throw new Error("channel, to, and text or media are required");
+        return messageRouter.send(
+          channel,
+          { to, text, media: media?.length ? resolveOutboundMedia(media, { allowedRoots: [getDataDir()] }) : undefined, replyToId },
+          accountId,
+        );
       }
 
       case "message.list": {
@@ -214,12 +316,19 @@ function createIpcHandler(
       }
 
       case "channel.configure": {
-        const { channel, config: channelConfig } = params as {
+        const { channel, config: channelConfig, accountId, chatId } = params as {
           channel: string;
           config: Record<string, unknown>;
+          accountId?: string;
+          chatId?: string;
         };
         if (!channel) throw new Error("channel is required");
-        return setChannelConfig(channel, channelConfig);
+        if (chatId) {
+          // Per-chat settings: only the group policy can be overridden
+          const { groupPolicy, groupTriggers } = channelConfig as GroupChatConfig;
+          return setGroupChatConfig(channel, chatId, { groupPolicy, groupTriggers }, accountId);
+        }
+        return setChannelConfig(channel, channelConfig, accountId);
       }
 
       case "autoresponder.status":
@@ -236,18 +345,58 @@ function createIpcHandler(
       }
 
       case "memory.search": {
-        const { query, maxResults, sessionKey } = params as {
+        const { query, maxResults, sessionKey, mode } = params as {
           query: string;
           maxResults?: number;
           sessionKey?: string;
+          mode?: MemorySearchMode;
         };
         if (!query) throw new Error("query is required");
-        return memoryManager.search(query, { maxResults, sessionKey });
+        return memoryManager.search(query, { maxResults, sessionKey, mode: mode ?? "hybrid" });
       }
 
       case "memory.stats":
         return memoryManager.getStats();
 
+      case "memory.forget": {
+        const { id, sessionKey, query, maxResults } = params as {
+          id?: string;
+          sessionKey?: string;
+          query?: string;
+          maxResults?: number;
+        };
+        if (!id && !sessionKey && !query) throw new Error("id, sessionKey or query is required");
+        return { deleted: memoryManager.forget({ id, sessionKey, query, maxResults }) };
+      }
+
+      case "memory.update": {
+        const { id, text } = params as { id: string; text: string };
+        if (!id || !text) throw new Error("id and text are required");
+        if (!memoryManager.updateChunk(id, text)) throw new Error(`Memory chunk not found: ${id}`);
+        return { updated: true, id };
+      }
+
+      case "persona.history": {
+        const { file, limit } = params as { file?: string; limit?: number };
+        return personaHistory.list(file, limit);
+      }
+
+      case "persona.diff": {
+        const { file, from, to } = params as { file: string; from?: number; to?: number };
+        if (!file) throw new Error("file is required");
+        return { file, diff: personaHistory.diff(file, from, to) };
+      }
+
+      case "persona.rollback": {
+        const { file, revision } = params as { file: string; revision: number };
+        if (!file || revision === undefined) throw new Error("file and revision are required");
+        const restored = personaHistory.rollback(file, revision);
+        return { file, restoredFrom: revision, revision: restored.id };
+      }
+
+      case "cost.report":
+        return costLedger.report(parseCostReportOptions(params));
+
       default:
         throw new Error(`Unknown method: ${method}`);
     }
@@ -286,17 +435,48 @@ async function loadAdapters(channelManager: ChannelManager): Promise<void> {
   }
 }
 
+// --- Memory Retention ---
+
+const RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+function scheduleMemoryRetention(
+  memoryManager: MemoryManager,
+  memoryFileIndexer: MemoryFileIndexer,
+  policy: MemoryRetentionPolicy,
+): ReturnType<typeof setInterval> {
+  const run = () => {
+    try {
+      // Expired daily logs go with their index rows, then old chunks of every source
+      const logs = memoryFileIndexer.expireDailyLogs(policy.memory ?? 0);
+      const deleted = memoryManager.applyRetention(policy);
+      if (logs > 0 || deleted > 0) {
+        console.log(`[gateway] Memory retention removed ${logs} daily log(s) and ${deleted} chunk(s)`);
+      }
+    } catch (err) {
+      console.warn(`[gateway] Memory retention failed:`, err);
+    }
+  };
+
+  run();
+  const timer = setInterval(run, RETENTION_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
+
 // --- Auto-start Channels ---
 
 async function autoStartChannels(channelManager: ChannelManager): Promise<void> {
   const config = loadConfig();
   for (const [channelId, channelConfig] of Object.entries(config.channels)) {
-    if (channelConfig.enabled) {
+    for (const accountId of listChannelAccounts(channelConfig)) {
+      if (!resolveAccountConfig(channelConfig, accountId)?.enabled) continue;
+      const label = `${channelId}:${accountId}`;
       try {
-        await channelManager.startChannel(channelId, channelConfig.accountId);
-        console.log(`[gateway] Auto-started channel: ${channelId}`);
+        await channelManager.startChannel(channelId, accountId);
+        console.log(`[gateway] Auto-started channel: ${label}`);
       } catch (err) {
-        console.error(`[gateway] Failed to auto-start ${channelId}:`, err instanceof Error ? err.message : err);
+        console.error(`[gateway] Failed to auto-start ${label}:`, err instanceof Error ? err.message : err);
+        channelManager.scheduleRestart(channelId, accountId, err instanceof Error ? err.message : String(err));
       }
     }
   }
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { createHttpApp } from "./gateway-http.js";
+import type { ChannelManager } from "./channel-manager.js";
+import type { CostLedger } from "./cost-ledger.js";
+import type { MessageRouter } from "./message-router.js";
+import type { MessageStore } from "./message-store.js";
+
+const mocks = vi.hoisted(() => ({ dataDir: "" }));
+
+vi.mock("./config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./config.js")>()),
+  getDataDir: () => mocks.dataDir,
+}));
+
+describe("POST /api/messages/send", () => {
+  let outside: string;
+  let send: ReturnType<typeof vi.fn>;
+  let app: ReturnType<typeof createHttpApp>;
+
+  beforeEach(() => {
+    mocks.dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "http-data-"));
+    outside = fs.mkdtempSync(path.join(os.tmpdir(), "http-outside-"));
+    send = vi.fn(async () => ({ success: true, messageId: "1", timestamp: Date.now() }));
+    app = createHttpApp({
+      channelManager: {} as ChannelManager,
+      messageRouter: { send } as unknown as MessageRouter,
+      store: {} as MessageStore,
+      costLedger: {} as CostLedger,
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(mocks.dataDir, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  const post = (body: unknown) =>
+    app.request("/api/messages/send", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  it("rejects a media path outside the data dir", async () => {
+    const secret = path.join(outside, "id_rsa");
+    fs.writeFileSync(secret, "secret");
+
+    const res = await post({ channel: "telegram", to: "1", media: [{ type: "document", path: secret }] });
+
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as { error: string }).error).toContain("outside the allowed directories");
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("uploads a file from the data dir", async () => {
+    const file = path.join(mocks.dataDir, "report.txt");
+    fs.writeFileSync(file, "report");
+
+    const res = await post({ channel: "telegram", to: "1", media: [{ type: "document", path: file }] });
+
+    expect(res.status).toBe(200);
+    const [, message] = send.mock.calls[0] as [string, { media: Array<{ buffer: Buffer }> }];
+    expect(message.media[0].buffer.toString()).toBe("report");
+  });
+});
+
+describe("POST /webhook/:channel/:accountId?", () => {
+  const handleWebhook = vi.fn(async () => new Response("ok"));
+  const getRuntime = vi.fn((channel: string, accountId: string) =>
+    channel === "telegram" && accountId === "work" ? { adapter: { handleWebhook } } : undefined,
+  );
+  const app = createHttpApp({
+    channelManager: { getRuntime } as unknown as ChannelManager,
+    messageRouter: {} as MessageRouter,
+    store: {} as MessageStore,
+    costLedger: {} as CostLedger,
+  });
+
+  const post = (url: string) => app.request(url, { method: "POST", body: "{}" });
+
+  it("returns 404 for an account that is not running", async () => {
+    const res = await post("/webhook/telegram/other");
+
+    expect(res.status).toBe(404);
+    expect(getRuntime).toHaveBeenCalledWith("telegram", "other");
+    expect(handleWebhook).not.toHaveBeenCalled();
+  });
+
+  it("defaults to the default account", async () => {
+    const res = await post("/webhook/telegram");
+
+    expect(res.status).toBe(404);
+    expect(getRuntime).toHaveBeenCalledWith("telegram", "default");
+  });
+
+  it("hands the request to the running adapter", async () => {
+    const res = await post("/webhook/telegram/work");
+
+    expect(res.status).toBe(200);
+    expect(await res.text()).toBe("ok");
+    expect(handleWebhook).toHaveBeenCalledTimes(1);
+  });
+});
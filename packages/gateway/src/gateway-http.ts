@@ -3,13 +3,17 @@ import { cors } from "hono/cors";
 import type { ChannelManager } from "./channel-manager.js";
 import type { MessageRouter } from "./message-router.js";
 import type { MessageStore } from "./message-store.js";
+import { parseCostReportOptions, type CostLedger } from "./cost-ledger.js";
+import { resolveOutboundMedia, type MediaInput } from "./outbound-media.js";
+import { getDataDir } from "./config.js";
 
 export function createHttpApp(deps: {
   channelManager: ChannelManager;
   messageRouter: MessageRouter;
   store: MessageStore;
+  costLedger: CostLedger;
 }) {
-  const { channelManager, messageRouter, store } = deps;
+  const { channelManager, messageRouter, store, costLedger } = deps;
   const app = new Hono();
 
   // Middleware
@@ -35,6 +39,17 @@ export function createHttpApp(deps: {
     });
   });
 
+  // --- Webhooks ---
+
+  // Inbound platform updates (e.g. Telegram mode: "webhook"); the adapter verifies the secret
+  app.post("/webhook/:channel/:accountId?", async (c) => {
+    const runtime = channelManager.getRuntime(c.req.param("channel"), c.req.param("accountId") ?? "default");
+    if (!runtime) {
+      return c.json({ error: "Channel is not running" }, 404);
+    }
+    return runtime.adapter.handleWebhook(c.req.raw);
+  });
+
   // --- Channel endpoints ---
 
   // List all channels
@@ -84,6 +99,23 @@ export function createHttpApp(deps: {
     }
   });
 
+  // Retry a failed channel now (skips the supervisor's backoff delay)
+  app.post("/api/channels/:channelId/retry", async (c) => {
+    const channelId = c.req.param("channelId");
+    const body = await c.req.json().catch(() => ({}));
+    const { accountId } = body as { accountId?: string };
+
+    try {
+      const status = await channelManager.retryChannel(channelId, accountId);
+      return c.json({ status: "connected", channel: status });
+    } catch (err) {
+      return c.json(
+        { error: err instanceof Error ? err.message : String(err) },
+        500,
+      );
+    }
+  });
+
   // --- Message endpoints ---
 
   // List messages
@@ -106,21 +138,29 @@ export function createHttpApp(deps: {
   // Send a message
   app.post("/api/messages/send", async (c) => {
     const body = await c.req.json();
-    const { channel, to, text, replyToId, accountId } = body as {
+    const { channel, to, text, media, replyToId, accountId } = body as {
       channel: string;
       to: string;
-      text: string;
+      text?: string;
+      media?: MediaInput[];
       replyToId?: string;
       accountId?: string;
     };
 
-    if (!channel || !to || !text) {
-      return c.json({ error: "channel, to, and text are required" }, 400);
+    if (!channel || !to || (!text && !media?.length)) {
+      return c.json({ error: "channel, to, and text or media are required" }, 400);
+    }
+
+    let resolved;
+    try {
+      resolved = media?.length ? resolveOutboundMedia(media, { allowedRoots: [getDataDir()] }) : undefined;
+    } catch (err) {
+      return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
     }
 
     const result = await messageRouter.send(
       channel,
-      { to, text, replyToId },
+      { to, text, media: resolved, replyToId },
       accountId,
     );
 
@@ -140,6 +180,17 @@ export function createHttpApp(deps: {
     return c.json({ conversations });
   });
 
+  // --- Cost endpoints ---
+
+  // Agent run costs for a period (?since=&until=&groupBy=user|channel|model|day|conversation&channel=&userId=)
+  app.get("/api/costs", (c) => {
+    try {
+      return c.json(costLedger.report(parseCostReportOptions(c.req.query())));
+    } catch (err) {
+      return c.json({ error: err instanceof Error ? err.message : String(err) }, 400);
+    }
+  });
+
   // --- Dashboard ---
   app.get("/", (c) => {
     return c.html(DASHBOARD_HTML);
@@ -172,6 +223,7 @@ const DASHBOARD_HTML = `<!DOCTYPE html>
     .channel-row { display: flex; align-items: center; justify-content: space-between; padding: 12px 0; border-bottom: 1px solid #2a2a4a; }
     .channel-row:last-child { border-bottom: none; }
     .channel-name { font-weight: 600; font-size: 15px; }
+    .account { color: #888; font-size: 13px; margin-right: 4px; }
     .badge { display: inline-block; padding: 4px 10px; border-radius: 12px; font-size: 12px; font-weight: 600; }
     .badge.on { background: #2ecc7133; color: #2ecc71; }
     .badge.off { background: #e74c3c33; color: #e74c3c; }
@@ -231,19 +283,23 @@ const DASHBOARD_HTML = `<!DOCTYPE html>
           '<div class="card"><h3>Active Channels</h3><div class="value">' +
             (s.channels||[]).filter(c=>c.connected).length + '/' + (s.channels||[]).length + '</div></div>';
         const adapters = s.registeredAdapters || [];
-        const running = new Map((s.channels||[]).map(c => [c.channel + ':' + c.accountId, c]));
-        let chHtml = '';
+        const rows = (s.channels||[]).slice();
         for (const a of adapters) {
-          const key = a + ':default';
-          const ch = running.get(key);
-          const connected = ch && ch.connected;
-          const isRunning = ch && ch.running;
+          if (!rows.some(c => c.channel === a)) rows.push({ channel: a, accountId: 'default' });
+        }
+        rows.sort((x, y) => (x.channel + ':' + x.accountId).localeCompare(y.channel + ':' + y.accountId));
+        let chHtml = '';
+        for (const ch of rows) {
+          const a = ch.channel;
+          const connected = ch.connected;
+          const isRunning = ch.running;
           chHtml += '<div class="channel-row">' +
             '<div><span class="channel-name">' + a.charAt(0).toUpperCase() + a.slice(1) + '</span> ' +
+            (ch.accountId !== 'default' ? '<span class="account">' + ch.accountId + '</span> ' : '') +
             (connected ? '<span class="badge on">Connected</span>' :
              isRunning ? '<span class="badge off">Disconnected</span>' :
              '<span class="badge reg">Registered</span>') +
-            (ch && ch.lastError ? '<br><span style="color:#e74c3c;font-size:12px">' + ch.lastError + '</span>' : '') +
+            (ch.lastError ? '<br><span style="color:#e74c3c;font-size:12px">' + ch.lastError + '</span>' : '') +
             '</div></div>';
         }
         document.getElementById('channels').innerHTML = chHtml || '<div class="empty">No adapters loaded</div>';
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { matchesTrigger, passesGroupGate, resolveGroupGate } from "./group-policy.js";
+
+describe("resolveGroupGate", () => {
+  const channelConfig = {
+    groupPolicy: "mention" as const,
+    groupTriggers: ["claude"],
+    groups: { "-100123": { groupPolicy: "keyword" as const, groupTriggers: ["봇아"] }, "-100456": { groupPolicy: "always" as const } },
+  };
+
+  it("uses the channel policy for chats without overrides", () => {
+    expect(resolveGroupGate(channelConfig, "-100999")).toEqual({ policy: "mention", triggers: ["claude"] });
+  });
+
+  it("applies per-chat overrides field by field", () => {
+    expect(resolveGroupGate(channelConfig, "-100123")).toEqual({ policy: "keyword", triggers: ["봇아"] });
+    expect(resolveGroupGate(channelConfig, "-100456")).toEqual({ policy: "always", triggers: ["claude"] });
+  });
+});
+
+describe("matchesTrigger", () => {
+  it("matches case-insensitively anywhere in the text", () => {
+    expect(matchesTrigger("Hey CLAUDE, what time is it?", ["claude"])).toBe(true);
+    expect(matchesTrigger("!ask 날씨 어때", ["!ask"])).toBe(true);
+    expect(matchesTrigger("just chatting", ["claude"])).toBe(false);
+  });
+
+  it("ignores blank triggers and missing text", () => {
+    expect(matchesTrigger("anything", ["", "  "])).toBe(false);
+    expect(matchesTrigger(undefined, ["claude"])).toBe(false);
+  });
+});
+
+describe("passesGroupGate", () => {
+  const plain = { text: "hello everyone" };
+  const mention = { text: "@bot hi", mentionsSelf: true };
+  const reply = { text: "thanks", repliesToSelf: true };
+
+  it("mention: answers mentions and replies to the bot", () => {
+    const gate = { policy: "mention" as const, triggers: [] };
+    expect(passesGroupGate(plain, gate)).toBe(false);
+    expect(passesGroupGate(mention, gate)).toBe(true);
+    expect(passesGroupGate(reply, gate)).toBe(true);
+  });
+
+  it("reply: answers only replies to the bot", () => {
+    const gate = { policy: "reply" as const, triggers: [] };
+    expect(passesGroupGate(mention, gate)).toBe(false);
+    expect(passesGroupGate(reply, gate)).toBe(true);
+  });
+
+  it("keyword: answers messages containing a trigger", () => {
+    const gate = { policy: "keyword" as const, triggers: ["hello"] };
+    expect(passesGroupGate(plain, gate)).toBe(true);
+    expect(passesGroupGate(mention, gate)).toBe(false);
+  });
+
+  it("always: answers everything", () => {
+    expect(passesGroupGate(plain, { policy: "always", triggers: [] })).toBe(true);
+  });
+});
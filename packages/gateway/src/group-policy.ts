@@ -0,0 +1,54 @@
+/**
+ * Group-chat gating: in a busy group the bot should only answer when it is
+ * addressed. Each channel has a group policy (overridable per chat); DMs
+ * are never gated.
+ *
+ *   mention  @-mentioned, or a reply to one of the bot's messages (default)
+ *   reply    only replies to the bot's messages
+ *   keyword  the text contains one of the trigger words/prefixes
+ *   always   every message
+ */
+
+import type { ChannelMessage } from "@open-claude-code/adapter-core";
+import type { ChannelConfig, GroupPolicy } from "./config.js";
+
+export type GroupGate = {
+  policy: GroupPolicy;
+  triggers: string[];
+};
+
+/** Effective policy of a group chat: the chat's override, else the channel's */
+export function resolveGroupGate(
+  channelConfig: Pick<ChannelConfig, "groupPolicy" | "groupTriggers" | "groups">,
+  chatId: string,
+): GroupGate {
+  const chat = channelConfig.groups?.[chatId];
+  return {
+    policy: chat?.groupPolicy ?? channelConfig.groupPolicy,
+    triggers: chat?.groupTriggers ?? channelConfig.groupTriggers,
+  };
+}
+
+/** Whether the text contains one of the triggers (case-insensitive) */
+export function matchesTrigger(text: string | undefined, triggers: string[]): boolean {
+  if (!text) return false;
+  const lower = text.toLowerCase();
+  return triggers.some((trigger) => trigger.trim() !== "" && lower.includes(trigger.trim().toLowerCase()));
+}
+
+/** Whether a group message passes the gate */
+export function passesGroupGate(
+  msg: Pick<ChannelMessage, "text" | "mentionsSelf" | "repliesToSelf">,
+  gate: GroupGate,
+): boolean {
+  switch (gate.policy) {
+    case "always":
+      return true;
+    case "mention":
+      return !!msg.mentionsSelf || !!msg.repliesToSelf;
+    case "reply":
+      return !!msg.repliesToSelf;
+    case "keyword":
+      return matchesTrigger(msg.text, gate.triggers);
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { createInputStream } from "./input-stream.js";
+
+describe("createInputStream", () => {
+  it("yields buffered turns with the session ID", async () => {
+    const stream = createInputStream("session-1");
+    stream.push("hello");
+    const iterator = stream[Symbol.asyncIterator]();
+
+    const { value, done } = await iterator.next();
+    expect(done).toBe(false);
+    expect(value).toMatchObject({
+      type: "user",
+      message: { role: "user", content: "hello" },
+      parent_tool_use_id: null,
+      session_id: "session-1",
+    });
+  });
+
+  it("resolves an iterator that is already waiting when a turn is pushed", async () => {
+    const stream = createInputStream();
+    const iterator = stream[Symbol.asyncIterator]();
+    const pending = iterator.next();
+
+    expect(stream.push("follow-up")).toBe(true);
+    const { value } = await pending;
+    expect(value?.message.content).toBe("follow-up");
+    expect(value?.session_id).toBe("");
+  });
+
+  it("ends a pending iterator when closed", async () => {
+    const stream = createInputStream();
+    const iterator = stream[Symbol.asyncIterator]();
+    const pending = iterator.next();
+
+    stream.close();
+    await expect(pending).resolves.toEqual({ value: undefined, done: true });
+    expect(stream.isOpen()).toBe(false);
+    expect(stream.push("too late")).toBe(false);
+  });
+
+  it("closes once every pushed turn is completed", async () => {
+    const stream = createInputStream();
+    stream.push("first");
+    stream.push("second");
+    expect(stream.getPendingTurns()).toBe(2);
+
+    stream.completeTurn();
+    expect(stream.getPendingTurns()).toBe(1);
+    expect(stream.isOpen()).toBe(true);
+
+    stream.completeTurn();
+    expect(stream.getPendingTurns()).toBe(0);
+    expect(stream.isOpen()).toBe(false);
+  });
+
+  it("still delivers turns buffered before the stream closed", async () => {
+    const stream = createInputStream();
+    stream.push("queued");
+    stream.close();
+
+    const received: unknown[] = [];
+    for await (const message of stream) received.push(message.message.content);
+    expect(received).toEqual(["queued"]);
+  });
+
+  it("closes when the consumer stops iterating", async () => {
+    const stream = createInputStream();
+    stream.push("only");
+    for await (const message of stream) {
+      expect(message.message.content).toBe("only");
+      break;
+    }
+    expect(stream.isOpen()).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * InputStream - Push-based prompt source for Agent SDK streaming input mode.
+ *
+ * query() accepts an AsyncIterable of user messages instead of a single
+ * prompt string. Follow-up messages that arrive while a run is in flight
+ * are pushed here and delivered to the agent as new user turns, rather than
+ * waiting for the whole query() stream to finish.
+ *
+ * Every pushed message is one pending turn. The runner calls completeTurn()
+ * for each result message; once no turns are pending the stream closes,
+ * which lets query() finish.
+ */
+
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+
+/** Body of a user turn: plain text or content blocks (text + images) */
+export type UserContent = SDKUserMessage["message"]["content"];
+
+export type InputStream = AsyncIterable<SDKUserMessage> & {
+  /** Queue a new user turn. Returns false if the stream is already closed. */
+  push: (content: UserContent) => boolean;
+  /** Mark one turn as answered. Closes the stream when nothing is pending. */
+  completeTurn: () => void;
+  /** End the stream immediately (abort, error, cleanup) */
+  close: () => void;
+  /** Whether new turns can still be pushed */
+  isOpen: () => boolean;
+  /** Number of pushed turns that have not produced a result yet */
+  getPendingTurns: () => number;
+};
+
+export function createInputStream(sessionId?: string): InputStream {
+  const buffered: SDKUserMessage[] = [];
+  let waiter: ((result: IteratorResult<SDKUserMessage>) => void) | null = null;
+  let closed = false;
+  let pendingTurns = 0;
+
+  function close() {
+    if (closed) return;
+    closed = true;
+    if (waiter) {
+      const resolve = waiter;
+      waiter = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+
+  return {
+    push(content) {
+      if (closed) return false;
+      pendingTurns++;
+      const message: SDKUserMessage = {
+        type: "user",
+        message: { role: "user", content },
+        parent_tool_use_id: null,
+        session_id: sessionId ?? "",
+      };
+      if (waiter) {
+        const resolve = waiter;
+        waiter = null;
+        resolve({ value: message, done: false });
+      } else {
+        buffered.push(message);
+      }
+      return true;
+    },
+
+    completeTurn() {
+      if (pendingTurns > 0) pendingTurns--;
+      if (pendingTurns === 0) close();
+    },
+
+    close,
+
+    isOpen() {
+      return !closed;
+    },
+
+    getPendingTurns() {
+      return pendingTurns;
+    },
+
+    [Symbol.asyncIterator]() {
+      return {
+        next(): Promise<IteratorResult<SDKUserMessage>> {
+          const next = buffered.shift();
+          if (next) return Promise.resolve({ value: next, done: false });
+          if (closed) return Promise.resolve({ value: undefined, done: true });
+          return new Promise((resolve) => {
+            waiter = resolve;
+          });
+        },
+        return(): Promise<IteratorResult<SDKUserMessage>> {
+          close();
+          return Promise.resolve({ value: undefined, done: true });
+        },
+      };
+    },
+  };
+}
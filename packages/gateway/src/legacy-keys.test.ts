@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { MemoryManager } from "./memory-manager.js";
+import { migrateLegacyKeys } from "./legacy-keys.js";
+import { readSessionsFile } from "./sessions-file.js";
+
+/** Conversations that ran on a second bot account before keys included the account */
+const ACCOUNTS: Record<string, string> = { "telegram:42": "work", "telegram:-100": "work" };
+
+describe("migrateLegacyKeys", () => {
+  let dir: string;
+  let db: Database.Database;
+  let mm: MemoryManager;
+  let options: Parameters<typeof migrateLegacyKeys>[0];
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "legacy-keys-"));
+    mkdirSync(join(dir, "memory"));
+    db = new Database(":memory:");
+    mm = new MemoryManager(db);
+    mm.ensureSchema();
+    options = {
+      sessionsFile: join(dir, "sessions.json"),
+      memoryDir: join(dir, "memory"),
+      db,
+      resolveAccount: (channel, peerId) => ACCOUNTS[`${channel}:${peerId}`] ?? "default",
+    };
+
+    writeFileSync(options.sessionsFile, JSON.stringify({ "telegram:42": "s-42", "discord:7": "s-7" }));
+    writeFileSync(
+      join(dir, "memory", "2026-01-31.md"),
+      [
+        "",
+        "## 09:00:00 [telegram:42]",
+        "**User**: my phone number is 010-1234",
+        "",
+        "## 09:05:00 [discord:7]",
+        "**User**: hello",
+        "",
+        "## 09:10:00 [telegram:default:9]",
+        "**User**: already migrated",
+        "",
+      ].join("\n"),
+    );
+    mm.indexChunk({ id: "c1", sessionKey: "telegram:42", text: "phone number 010-1234", source: "session", timestamp: 1 });
+    mm.indexChunk({ id: "c2", sessionKey: "telegram:-100", text: "group plans", source: "session", timestamp: 1 });
+    mm.indexChunk({ id: "c3", sessionKey: "MEMORY.md", text: "owner notes", source: "memory", timestamp: 1 });
+  });
+
+  afterEach(() => {
+    mm.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("moves sessions, chunks and log entries to the account the conversation ran on", () => {
+    expect(migrateLegacyKeys(options)).toEqual({ sessions: 2, chunks: 2, logEntries: 2 });
+
+    expect(readSessionsFile(options.sessionsFile)).toEqual(
+      new Map([
+        ["telegram:work:42", "s-42"],
+        ["discord:default:7", "s-7"],
+      ]),
+    );
+
+    const log = readFileSync(join(dir, "memory", "2026-01-31.md"), "utf-8");
+    expect(log).toContain("## 09:00:00 [telegram:work:42]");
+    expect(log).toContain("## 09:05:00 [discord:default:7]");
+    expect(log).toContain("## 09:10:00 [telegram:default:9]");
+
+    expect(mm.search("phone", { sessionKey: "telegram:work:42" }).map((hit) => hit.id)).toEqual(["c1"]);
+    expect(mm.search("group", { sessionKey: "telegram:work:-100" }).map((hit) => hit.id)).toEqual(["c2"]);
+    expect(mm.search("owner", { sessionKey: "MEMORY.md" }).map((hit) => hit.id)).toEqual(["c3"]);
+  });
+
+  it("does nothing once sessions.json is current", () => {
+    migrateLegacyKeys(options);
+    mm.indexChunk({ id: "c4", sessionKey: "telegram:42", text: "late chunk", source: "session", timestamp: 1 });
+
+    expect(migrateLegacyKeys(options)).toEqual({ sessions: 0, chunks: 0, logEntries: 0 });
+    expect(mm.search("late", { sessionKey: "telegram:42" }).map((hit) => hit.id)).toEqual(["c4"]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * One-time migration of conversation keys written before keys included the
+ * channel account ("telegram:123" → "telegram:work:123").
+ *
+ * Each legacy conversation moves to the account its stored messages ran on
+ * (the default account when none are left). sessions.json, memory chunks and
+ * daily-log entries move in the same step, so search, retention and
+ * "forget me" keep finding one conversation under one key. sessions.json is
+ * rewritten last: an interrupted migration runs again on the next start.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type Database from "better-sqlite3";
+import { logEntryKey } from "./forget-user.js";
+import {
+  isLegacySessionsFile,
+  readSessionsFile,
+  upgradeLegacyKey,
+  writeSessionsFile,
+  type LegacyAccountResolver,
+} from "./sessions-file.js";
+
+const DAILY_LOG_FILE = /^\d{4}-\d{2}-\d{2}\.md$/;
+
+export type LegacyKeyMigrationOptions = {
+  /** sessions.json written by AgentRunner */
+  sessionsFile: string;
+  /** Daily logs (YYYY-MM-DD.md) */
+  memoryDir: string;
+  /** Database holding the memory tables */
+  db: Database.Database;
+  /** Account a legacy conversation ran on */
+  resolveAccount: LegacyAccountResolver;
+};
+
+export type LegacyKeyMigrationResult = {
+  sessions: number;
+  chunks: number;
+  logEntries: number;
+};
+
+/** Migrate a legacy sessions.json and everything keyed like it. No-op once sessions.json is version 2. */
+export function migrateLegacyKeys(options: LegacyKeyMigrationOptions): LegacyKeyMigrationResult {
+  const result: LegacyKeyMigrationResult = { sessions: 0, chunks: 0, logEntries: 0 };
+  if (!isLegacySessionsFile(options.sessionsFile)) return result;
+
+  // Resolve each conversation once so all three stores agree on its account
+  const resolved = new Map<string, string>();
+  const resolveAccount: LegacyAccountResolver = (channel, peerId) => {
+    const key = `${channel}:${peerId}`;
+    let account = resolved.get(key);
+    if (!account) {
+      account = options.resolveAccount(channel, peerId);
+      resolved.set(key, account);
+    }
+    return account;
+  };
+
+  result.chunks = migrateChunkKeys(options.db, resolveAccount);
+  result.logEntries = migrateDailyLogKeys(options.memoryDir, resolveAccount);
+
+  const sessions = readSessionsFile(options.sessionsFile, resolveAccount);
+  writeSessionsFile(options.sessionsFile, sessions);
+  result.sessions = sessions.size;
+  return result;
+}
+
+function migrateChunkKeys(db: Database.Database, resolveAccount: LegacyAccountResolver): number {
+  const keys = db.prepare("SELECT DISTINCT session_key FROM memory_chunks").all() as Array<{ session_key: string }>;
+  const statements = ["memory_chunks", "memory_fts", "memory_transcripts"].map((table) =>
+    db.prepare(`UPDATE ${table} SET session_key = ? WHERE session_key = ?`),
+  );
+
+  let migrated = 0;
+  db.transaction(() => {
+    for (const { session_key: key } of keys) {
+      const upgraded = upgradeLegacyKey(key, resolveAccount);
+      if (!upgraded) continue;
+      migrated += statements[0].run(upgraded, key).changes;
+      statements[1].run(upgraded, key);
+      statements[2].run(upgraded, key);
+    }
+  })();
+  return migrated;
+}
+
+function migrateDailyLogKeys(memoryDir: string, resolveAccount: LegacyAccountResolver): number {
+  if (!existsSync(memoryDir)) return 0;
+
+  let migrated = 0;
+  for (const file of readdirSync(memoryDir)) {
+    if (!DAILY_LOG_FILE.test(file)) continue;
+    const path = join(memoryDir, file);
+    const content = readFileSync(path, "utf-8");
+
+    let changed = 0;
+    const parts = content.split(/(?=^## )/m).map((part) => {
+      const key = part.startsWith("## ") ? logEntryKey(part) : null;
+      const upgraded = key ? upgradeLegacyKey(key, resolveAccount) : null;
+      if (!key || !upgraded) return part;
+      changed++;
+      return part.replace(`[${key}]`, `[${upgraded}]`);
+    });
+    if (changed > 0) {
+      writeFileSync(path, parts.join(""), "utf-8");
+      migrated += changed;
+    }
+  }
+  return migrated;
+}
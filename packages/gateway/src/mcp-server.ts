@@ -4,6 +4,7 @@ import {
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { IpcClient, isDaemonRunning } from "./daemon-ipc.js";
+import { inlineMediaPaths, type MediaInput } from "./outbound-media.js";
 import { spawn } from "node:child_process";
 import { fileURLToPath } from "node:url";
 import { dirname, join } from "node:path";
@@ -96,7 +97,7 @@ export function createMcpServer() {
           type: "object" as const,
           properties: {
             channel: { type: "string", description: "Channel type: whatsapp, telegram, or discord", enum: ["whatsapp", "telegram", "discord"] },
-            config: { type: "object", description: "Channel-specific configuration. For telegram: { botToken: '...' }. For discord: { botToken: '...' }. For whatsapp: {}." },
+            config: { type: "object", description: "Channel-specific configuration. For telegram: { botToken: '...' } (webhook mode: add mode: 'webhook', webhookUrl, optional webhookSecret). For discord: { botToken: '...' }. For whatsapp: {}." },
             accountId: { type: "string", description: "Account identifier (default: 'default')" },
           },
           required: ["channel"],
@@ -114,9 +115,21 @@ export function createMcpServer() {
           required: ["channel"],
         },
       },
+      {
+        name: "channel_retry",
+        description: "Restart a failed channel immediately instead of waiting for the automatic reconnect backoff.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            channel: { type: "string", description: "Channel to retry", enum: ["whatsapp", "telegram", "discord"] },
+            accountId: { type: "string", description: "Specific account ID (optional)" },
+          },
+          required: ["channel"],
+        },
+      },
       {
         name: "channel_status",
-        description: "Get the status of all connected channels or a specific channel. Shows connection state, last activity, errors.",
+        description: "Get the status of all channels or a specific channel, one entry per account. Shows connection state, last activity, errors.",
         inputSchema: {
           type: "object" as const,
           properties: {
@@ -126,17 +139,34 @@ export function createMcpServer() {
       },
       {
         name: "send_message",
-        description: "Send a message to a specific recipient on a connected channel.",
+        description: "Send a message to a specific recipient on a connected channel. Attach images, documents, audio or video via media.",
         inputSchema: {
           type: "object" as const,
           properties: {
             channel: { type: "string", description: "Channel to send through", enum: ["whatsapp", "telegram", "discord"] },
             to: { type: "string", description: "Recipient identifier (phone number, chat ID, channel ID)" },
-            text: { type: "string", description: "Message text to send" },
+            text: { type: "string", description: "Message text to send (optional when media is attached)" },
+            media: {
+              type: "array",
+              description: "Attachments to upload (optional)",
+              items: {
+                type: "object",
+                properties: {
+                  type: { type: "string", enum: ["image", "video", "audio", "document"], description: "Kind of attachment" },
+                  path: { type: "string", description: "Absolute path to a local file" },
+                  base64: { type: "string", description: "Base64 file content or data: URL (alternative to path)" },
+                  url: { type: "string", description: "Public URL of the file (alternative to path)" },
+                  mimeType: { type: "string", description: "MIME type (guessed from the file name if omitted)" },
+                  fileName: { type: "string", description: "File name shown to the recipient" },
+                  caption: { type: "string", description: "Caption for this attachment" },
+                },
+                required: ["type"],
+              },
+            },
             replyToId: { type: "string", description: "Message ID to reply to (optional)" },
             accountId: { type: "string", description: "Account ID to use (optional)" },
           },
-          required: ["channel", "to", "text"],
+          required: ["channel", "to"],
         },
       },
       {
@@ -165,12 +195,14 @@ export function createMcpServer() {
       },
       {
         name: "configure_channel",
-        description: "Update configuration for a connected channel (e.g., allowlist, auto-reply settings). Set autoReply=true to enable automatic Claude responses for this channel.",
+        description: "Update configuration for a connected channel (e.g., allowlist, auto-reply settings). Set autoReply=true to enable automatic Claude responses for this channel. groupPolicy controls when the bot answers in group chats: 'always' (default), 'mention' (@-mentioned or replied to), 'reply' (replies to the bot only) or 'keyword' (message contains one of groupTriggers). Pass chatId to set groupPolicy/groupTriggers for a single group chat.",
         inputSchema: {
           type: "object" as const,
           properties: {
             channel: { type: "string", description: "Channel to configure", enum: ["whatsapp", "telegram", "discord"] },
-            config: { type: "object", description: "Configuration key-value pairs. Set autoReply: true to enable auto-response, allowFrom: ['user1','user2'] to restrict." },
+            config: { type: "object", description: "Configuration key-value pairs. Set autoReply: true to enable auto-response, allowFrom: ['user1','user2'] to restrict, groupPolicy: 'keyword' with groupTriggers: ['claude'] to answer group messages containing 'claude'. agent: { model, maxTurns, maxBudgetPerMessage } overrides the agent settings for the channel; chats / users map chat or user IDs to the same overrides." },
+            accountId: { type: "string", description: "Configure only this account (optional, defaults apply to all accounts if omitted)" },
+            chatId: { type: "string", description: "Apply groupPolicy/groupTriggers to this group chat only (optional)" },
           },
           required: ["channel", "config"],
         },
@@ -193,13 +225,14 @@ export function createMcpServer() {
       },
       {
         name: "memory_search",
-        description: "Search past conversation memories using full-text search. Returns relevant snippets from previous conversations ranked by relevance.",
+        description: "Search past conversation memories. Hybrid mode (default) blends keyword matches, semantic similarity and recency, so paraphrased questions still find relevant snippets.",
         inputSchema: {
           type: "object" as const,
           properties: {
-            query: { type: "string", description: "Search query - keywords to find in past conversations" },
+            query: { type: "string", description: "Search query - keywords or a natural-language question about past conversations" },
             maxResults: { type: "number", description: "Maximum number of results to return (default: 10)" },
-            sessionKey: { type: "string", description: "Filter by session key, e.g. 'telegram:12345' (optional)" },
+            sessionKey: { type: "string", description: "Filter by session key, e.g. 'telegram:default:12345' (optional)" },
+            mode: { type: "string", enum: ["hybrid", "keyword", "vector"], description: "hybrid (default), keyword = exact terms only, vector = semantic similarity only" },
           },
           required: ["query"],
         },
@@ -209,6 +242,81 @@ export function createMcpServer() {
         description: "Get statistics about the memory index - total indexed chunks and distinct sessions.",
         inputSchema: { type: "object" as const, properties: {} },
       },
+      {
+        name: "memory_forget",
+        description: "Delete memories: one chunk by id (from memory_search results), the keyword matches of a query, or every memory of a session key. Returns the number of chunks deleted.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            id: { type: "string", description: "Chunk id from memory_search" },
+            query: { type: "string", description: "Delete chunks matching these keywords (within sessionKey if given)" },
+            sessionKey: { type: "string", description: "Session key, e.g. 'telegram:default:12345'. Alone, deletes all of its memories" },
+            maxResults: { type: "number", description: "Most chunks a query may delete (default: 10)" },
+          },
+        },
+      },
+      {
+        name: "memory_update",
+        description: "Replace the text of a memory chunk (e.g. to correct an outdated fact). Keeps its session and timestamp.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            id: { type: "string", description: "Chunk id from memory_search" },
+            text: { type: "string", description: "New text of the chunk" },
+          },
+          required: ["id", "text"],
+        },
+      },
+      {
+        name: "persona_history",
+        description: "List saved revisions of the persona files (SOUL.md, IDENTITY.md, USER.md, AGENTS.md, MEMORY.md), newest first.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            file: { type: "string", description: "Only revisions of this file, e.g. 'SOUL.md' (optional)" },
+            limit: { type: "number", description: "Maximum number of revisions (default: 20)" },
+          },
+        },
+      },
+      {
+        name: "persona_diff",
+        description: "Show what changed in a persona file between two revisions. Defaults: the previous revision vs the current file.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            file: { type: "string", description: "File name, e.g. 'SOUL.md'" },
+            from: { type: "number", description: "Older revision id (default: the revision before 'to')" },
+            to: { type: "number", description: "Newer revision id (default: the current file)" },
+          },
+          required: ["file"],
+        },
+      },
+      {
+        name: "persona_rollback",
+        description: "Restore a persona file to an earlier revision from persona_history. The current version stays in the history.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            file: { type: "string", description: "File name, e.g. 'SOUL.md'" },
+            revision: { type: "number", description: "Revision id to restore" },
+          },
+          required: ["file", "revision"],
+        },
+      },
+      {
+        name: "cost_report",
+        description: "Report agent run costs from the cost ledger: total and per group (user, channel, model, day or conversation) for a period. Defaults to the current month (UTC), grouped by user.",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            since: { type: "string", description: "Start of the period, ISO date/time (e.g. '2026-01-01') or epoch ms (optional)" },
+            until: { type: "string", description: "End of the period, exclusive (optional, defaults to now)" },
+            groupBy: { type: "string", enum: ["user", "channel", "model", "day", "conversation"], description: "How to group the costs (default: user)" },
+            channel: { type: "string", description: "Only runs on this channel (optional)" },
+            userId: { type: "string", description: "Only runs triggered by this user ID (optional)" },
+          },
+        },
+      },
     ],
   }));
 
@@ -250,6 +358,14 @@ export function createMcpServer() {
             }),
           );
 
+        case "channel_retry":
+          return jsonResult(
+            await callDaemon("channel.retry", {
+              channel: params.channel,
+              accountId: params.accountId,
+            }),
+          );
+
         case "channel_status":
           return jsonResult(await callDaemon("channel.status", { channel: params.channel }));
 
@@ -259,6 +375,8 @@ export function createMcpServer() {
               channel: params.channel,
               to: params.to,
               text: params.text,
+              // The daemon only reads files in its data dir; local files travel as base64
+              media: Array.isArray(params.media) ? inlineMediaPaths(params.media as MediaInput[]) : params.media,
               replyToId: params.replyToId,
               accountId: params.accountId,
             }),
@@ -287,6 +405,8 @@ export function createMcpServer() {
             await callDaemon("channel.configure", {
               channel: params.channel,
               config: params.config,
+              accountId: params.accountId,
+              chatId: params.chatId,
             }),
           );
 
@@ -306,12 +426,50 @@ export function createMcpServer() {
               query: params.query,
               maxResults: params.maxResults,
               sessionKey: params.sessionKey,
+              mode: params.mode,
             }),
           );
 
         case "memory_stats":
           return jsonResult(await callDaemon("memory.stats"));
 
+        case "memory_forget":
+          return jsonResult(
+            await callDaemon("memory.forget", {
+              id: params.id,
+              query: params.query,
+              sessionKey: params.sessionKey,
+              maxResults: params.maxResults,
+            }),
+          );
+
+        case "memory_update":
+          return jsonResult(await callDaemon("memory.update", { id: params.id, text: params.text }));
+
+        case "persona_history":
+          return jsonResult(await callDaemon("persona.history", { file: params.file, limit: params.limit }));
+
+        case "persona_diff":
+          return jsonResult(
+            await callDaemon("persona.diff", { file: params.file, from: params.from, to: params.to }),
+          );
+
+        case "persona_rollback":
+          return jsonResult(
+            await callDaemon("persona.rollback", { file: params.file, revision: params.revision }),
+          );
+
+        case "cost_report":
+          return jsonResult(
+            await callDaemon("cost.report", {
+              since: params.since,
+              until: params.until,
+              groupBy: params.groupBy,
+              channel: params.channel,
+              userId: params.userId,
+            }),
+          );
+
         default:
           return {
             content: [{ type: "text" as const, text: JSON.stringify({ error: `Unknown tool: ${name}` }) }],
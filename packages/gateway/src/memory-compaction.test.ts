@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  archiveFileName,
+  buildCompactionPrompt,
+  droppedFraction,
+  exceedsBudget,
+  MemoryCompactor,
+  type MemoryCompactionConfig,
+} from "./memory-compaction.js";
+
+const config: MemoryCompactionConfig = {
+  enabled: true,
+  maxLines: 10,
+  maxChars: 10_000,
+  model: "test-model",
+  intervalMinutes: 60,
+};
+
+const longMemory = Array.from({ length: 20 }, (_, i) => `- fact ${i}`).join("\n");
+
+describe("exceedsBudget", () => {
+  it("checks both line and character limits", () => {
+    expect(exceedsBudget("a\nb", { maxLines: 2, maxChars: 100 })).toBe(false);
+    expect(exceedsBudget("a\nb\nc", { maxLines: 2, maxChars: 100 })).toBe(true);
+    expect(exceedsBudget("x".repeat(101), { maxLines: 2, maxChars: 100 })).toBe(true);
+  });
+});
+
+describe("buildCompactionPrompt", () => {
+  it("asks for a shorter target and includes the file", () => {
+    const prompt = buildCompactionPrompt("- likes tea", 200);
+    expect(prompt).toContain("about 150 lines");
+    expect(prompt.endsWith("- likes tea")).toBe(true);
+  });
+});
+
+describe("archiveFileName", () => {
+  it("builds a filesystem-safe timestamped name", () => {
+    expect(archiveFileName(new Date("2026-01-31T09:15:00Z"))).toBe("MEMORY-2026-01-31T09-15-00.md");
+  });
+});
+
+describe("droppedFraction", () => {
+  it("measures the share of previous lines missing from the next version", () => {
+    const previous = "# Facts\n- likes tea\n- lives in Seoul\n- has a cat";
+    expect(droppedFraction(previous, `${previous}\n- new fact`)).toBe(0);
+    expect(droppedFraction(previous, "# Facts\n- likes tea")).toBe(0.5);
+    expect(droppedFraction(previous, "")).toBe(1);
+  });
+
+  it("ignores indentation and blank lines", () => {
+    expect(droppedFraction("  - likes tea\n\n", "- likes tea")).toBe(0);
+    expect(droppedFraction("\n\n", "anything")).toBe(0);
+  });
+});
+
+describe("MemoryCompactor", () => {
+  let dataDir: string;
+  let memPath: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-compaction-test-"));
+    memPath = path.join(dataDir, "MEMORY.md");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("leaves a file within budget alone", async () => {
+    fs.writeFileSync(memPath, "- fact");
+    let called = false;
+    const compactor = new MemoryCompactor({
+      dataDir,
+      config,
+      summarize: async () => {
+        called = true;
+        return "";
+      },
+    });
+
+    expect(await compactor.maybeCompact()).toBeNull();
+    expect(called).toBe(false);
+  });
+
+  it("archives the previous version and writes the summary", async () => {
+    fs.writeFileSync(memPath, longMemory);
+    const prompts: string[] = [];
+    const compactor = new MemoryCompactor({
+      dataDir,
+      config,
+      summarize: async (prompt, model) => {
+        prompts.push(`${model}:${prompt}`);
+        return "```markdown\n## Facts\n- facts 0-19\n```";
+      },
+    });
+
+    const archivePath = await compactor.maybeCompact(new Date("2026-01-31T09:15:00Z"));
+
+    expect(archivePath).toBe(path.join(dataDir, "memory", "archive", "MEMORY-2026-01-31T09-15-00.md"));
+    expect(fs.readFileSync(archivePath!, "utf-8")).toBe(longMemory);
+    expect(fs.readFileSync(memPath, "utf-8")).toBe("## Facts\n- facts 0-19\n");
+    expect(prompts[0].startsWith("test-model:")).toBe(true);
+  });
+
+  it("keeps the file when the summary is empty or not shorter", async () => {
+    fs.writeFileSync(memPath, longMemory);
+    const compactor = new MemoryCompactor({ dataDir, config, summarize: async () => `${longMemory}\n- more` });
+
+    expect(await compactor.maybeCompact()).toBeNull();
+    expect(fs.readFileSync(memPath, "utf-8")).toBe(longMemory);
+    expect(fs.existsSync(path.join(dataDir, "memory", "archive"))).toBe(false);
+  });
+
+  it("does not overwrite a file changed during summarisation", async () => {
+    fs.writeFileSync(memPath, longMemory);
+    const compactor = new MemoryCompactor({
+      dataDir,
+      config,
+      summarize: async () => {
+        fs.writeFileSync(memPath, `${longMemory}\n- written meanwhile`);
+        return "- short";
+      },
+    });
+
+    expect(await compactor.maybeCompact()).toBeNull();
+    expect(fs.readFileSync(memPath, "utf-8")).toContain("written meanwhile");
+  });
+});
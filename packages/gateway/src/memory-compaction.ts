@@ -0,0 +1,184 @@
+/**
+ * MemoryCompactor - Keeps MEMORY.md within its prompt budget.
+ *
+ * The system prompt only carries the first 200 lines of MEMORY.md, and the
+ * agent appends to it freely. When the file grows past the budget, a
+ * dedicated summarisation query() consolidates it by topic; the previous
+ * version is archived to memory/archive/ first, so nothing is lost for good.
+ */
+
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { PersonaHistory } from "./persona-history.js";
+
+export type MemoryCompactionConfig = {
+  enabled: boolean;
+  /** Compact once MEMORY.md has more lines than this */
+  maxLines: number;
+  /** ...or more characters than this */
+  maxChars: number;
+  /** Model used for the summarisation run */
+  model: string;
+  /** How often the file is checked */
+  intervalMinutes: number;
+};
+
+export type MemoryCompactorOptions = {
+  dataDir: string;
+  config: MemoryCompactionConfig;
+  /** Record the compacted file as a persona revision (written directly otherwise) */
+  history?: PersonaHistory;
+  /** Override for tests; defaults to a tool-less query() run */
+  summarize?: (prompt: string, model: string) => Promise<string>;
+};
+
+/** Lines shorter than this are ignored when measuring dropped content */
+const MIN_COMPARED_LINE_CHARS = 3;
+
+const SUMMARIZE_SYSTEM_PROMPT =
+  "You consolidate a personal assistant's long-term memory file. Reply with the new file content only: markdown, no preamble, no code fences.";
+
+export function exceedsBudget(content: string, config: Pick<MemoryCompactionConfig, "maxLines" | "maxChars">): boolean {
+  return content.split("\n").length > config.maxLines || content.length > config.maxChars;
+}
+
+export function buildCompactionPrompt(content: string, maxLines: number): string {
+  return [
+    `Rewrite this MEMORY.md so it fits in about ${Math.floor(maxLines * 0.75)} lines.`,
+    "- Group facts under '## Topic' headings (people, preferences, projects, decisions, ...).",
+    "- Merge duplicates and keep only the latest version of facts that changed.",
+    "- Keep names, dates, numbers and explicit user requests exactly; drop chatter and finished one-off tasks.",
+    "- Write in the language the facts were recorded in.",
+    "",
+    "Current MEMORY.md:",
+    "",
+    content,
+  ].join("\n");
+}
+
+/** Archive file name for a MEMORY.md snapshot, e.g. MEMORY-2026-01-31T09-15-00.md */
+export function archiveFileName(now: Date = new Date()): string {
+  return `MEMORY-${now.toISOString().slice(0, 19).replace(/:/g, "-")}.md`;
+}
+
+/**
+ * Fraction (0–1) of the previous content's lines that no longer appear in
+ * the next version. Used to stop write_persona from silently wiping a file.
+ */
+export function droppedFraction(previous: string, next: string): number {
+  const lines = (text: string) =>
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .filter((line) => line.length >= MIN_COMPARED_LINE_CHARS);
+
+  const before = lines(previous);
+  if (before.length === 0) return 0;
+  const after = new Set(lines(next));
+  return before.filter((line) => !after.has(line)).length / before.length;
+}
+
+/** Strip a code fence the model wrapped the file in despite instructions */
+function unwrapFence(text: string): string {
+  const match = text.trim().match(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/);
+  return (match ? match[1] : text).trim();
+}
+
+async function summarizeWithQuery(prompt: string, model: string): Promise<string> {
+  const q = query({
+    prompt,
+    options: {
+      model,
+      systemPrompt: SUMMARIZE_SYSTEM_PROMPT,
+      tools: [],
+      maxTurns: 1,
+      persistSession: false,
+    },
+  });
+
+  for await (const msg of q) {
+    if (msg.type === "result") {
+      if (msg.subtype !== "success") throw new Error(`summarisation ended with ${msg.subtype}`);
+      return msg.result;
+    }
+  }
+  throw new Error("summarisation returned no result");
+}
+
+export class MemoryCompactor {
+  private dataDir: string;
+  private config: MemoryCompactionConfig;
+  private history: PersonaHistory | null;
+  private summarize: (prompt: string, model: string) => Promise<string>;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(options: MemoryCompactorOptions) {
+    this.dataDir = options.dataDir;
+    this.config = options.config;
+    this.history = options.history ?? null;
+    this.summarize = options.summarize ?? summarizeWithQuery;
+  }
+
+  start(): void {
+    if (this.timer || !this.config.enabled) return;
+    const check = () => {
+      this.maybeCompact().catch((err) => {
+        console.warn(`[memory-compaction] Compaction failed:`, err);
+      });
+    };
+    check();
+    this.timer = setInterval(check, this.config.intervalMinutes * 60_000);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Compact MEMORY.md if it is over budget. Returns the archive path when the
+   * file was rewritten, null when nothing changed.
+   */
+  async maybeCompact(now: Date = new Date()): Promise<string | null> {
+    if (this.running) return null;
+    const memPath = join(this.dataDir, "MEMORY.md");
+    if (!existsSync(memPath)) return null;
+
+    const content = readFileSync(memPath, "utf-8");
+    if (!exceedsBudget(content, this.config)) return null;
+
+    this.running = true;
+    try {
+      const compacted = unwrapFence(await this.summarize(buildCompactionPrompt(content, this.config.maxLines), this.config.model));
+      if (!compacted || compacted.length >= content.length) {
+        console.warn(`[memory-compaction] Summary was empty or not shorter; keeping MEMORY.md`);
+        return null;
+      }
+
+      // The agent may have written meanwhile; don't overwrite a newer file
+      if (readFileSync(memPath, "utf-8") !== content) return null;
+
+      const archiveDir = join(this.dataDir, "memory", "archive");
+      mkdirSync(archiveDir, { recursive: true });
+      const archivePath = join(archiveDir, archiveFileName(now));
+      writeFileSync(archivePath, content, "utf-8");
+      if (this.history) {
+        this.history.write("MEMORY.md", compacted + "\n", "compaction");
+      } else {
+        writeFileSync(memPath, compacted + "\n", "utf-8");
+      }
+
+      console.log(
+        `[memory-compaction] MEMORY.md compacted: ${content.split("\n").length} → ${compacted.split("\n").length} lines (archived to ${archivePath})`,
+      );
+      return archivePath;
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { MemoryManager } from "./memory-manager.js";
+import { chunkByHeading, dailyLogChunks, MemoryFileIndexer } from "./memory-files.js";
+
+describe("chunkByHeading", () => {
+  it("splits at headings and skips empty sections", () => {
+    const content = "Intro line\n\n# Work\n- ships on Fridays\n\n## Empty\n\n## Family\n- sister lives in Busan\n";
+    expect(chunkByHeading(content)).toEqual([
+      "Intro line",
+      "# Work\n- ships on Fridays",
+      "## Family\n- sister lives in Busan",
+    ]);
+  });
+
+  it("ignores heading-like lines inside code fences", () => {
+    const content = "## Setup\n```bash\n# install deps\npnpm install\n```";
+    expect(chunkByHeading(content)).toEqual([content]);
+  });
+
+  it("repeats the heading on continuation chunks of long sections", () => {
+    const body = Array.from({ length: 40 }, (_, i) => `- fact number ${i} about the project`).join("\n");
+    const chunks = chunkByHeading(`## Project\n${body}`, 300);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("## Project\n")).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(300);
+    }
+  });
+});
+
+describe("dailyLogChunks", () => {
+  it("creates one chunk per entry timestamped from date and time", () => {
+    const content = "\n## 09:15:00 [telegram:default:1]\n**User**: hi\n**Result**: success\n\n## 21:00:30 [discord:default:2]\n**User**: bye\n";
+    const chunks = dailyLogChunks("2026-03-01", content, 0);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].text).toContain("**User**: hi");
+    expect(chunks[0].timestamp).toBe(Date.parse("2026-03-01T09:15:00Z"));
+    expect(chunks[1].timestamp).toBe(Date.parse("2026-03-01T21:00:30Z"));
+  });
+});
+
+describe("MemoryFileIndexer", () => {
+  let dataDir: string;
+  let db: Database.Database;
+  let mm: MemoryManager;
+  let indexer: MemoryFileIndexer;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-files-test-"));
+    fs.mkdirSync(path.join(dataDir, "memory"));
+    db = new Database(":memory:");
+    mm = new MemoryManager(db);
+    indexer = new MemoryFileIndexer(mm, { dataDir });
+  });
+
+  afterEach(() => {
+    indexer.stop();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("indexes MEMORY.md beyond the prompt cutoff and daily logs as source memory", () => {
+    const filler = Array.from({ length: 250 }, (_, i) => `- note ${i}`).join("\n");
+    fs.writeFileSync(path.join(dataDir, "MEMORY.md"), `# Notes\n${filler}\n\n# Travel\n- passport expires in March\n`);
+    fs.writeFileSync(path.join(dataDir, "memory", "2026-03-01.md"), "\n## 09:00:00 [telegram:default:1]\n**User**: dentist appointment on Tuesday\n");
+    fs.writeFileSync(path.join(dataDir, "memory", "notes.txt"), "dentist");
+
+    expect(indexer.indexAll()).toBeGreaterThan(2);
+
+    const [passport] = mm.search("passport");
+    expect(passport).toMatchObject({ sessionKey: "MEMORY.md", source: "memory" });
+    const dentist = mm.search("dentist");
+    expect(dentist.map((r) => r.sessionKey)).toEqual(["memory/2026-03-01.md"]);
+  });
+
+  it("deletes expired daily logs together with their index rows", () => {
+    const memDir = path.join(dataDir, "memory");
+    fs.writeFileSync(path.join(memDir, "2026-03-01.md"), "\n## 09:00:00 [telegram:default:1]\n**User**: dentist appointment\n");
+    fs.writeFileSync(path.join(memDir, "2026-03-09.md"), "\n## 09:00:00 [telegram:default:1]\n**User**: dentist follow-up\n");
+    indexer.indexAll();
+
+    const now = Date.parse("2026-03-10T12:00:00Z");
+    expect(indexer.expireDailyLogs(7, now)).toBe(1);
+
+    expect(fs.existsSync(path.join(memDir, "2026-03-01.md"))).toBe(false);
+    expect(mm.search("dentist").map((r) => r.sessionKey)).toEqual(["memory/2026-03-09.md"]);
+    expect(db.prepare("SELECT path FROM memory_files WHERE path LIKE 'memory/%'").all()).toEqual([{ path: "memory/2026-03-09.md" }]);
+    expect(indexer.expireDailyLogs(0, now)).toBe(0);
+  });
+
+  it("skips unchanged files and replaces chunks of edited ones", () => {
+    const file = path.join(dataDir, "USER.md");
+    fs.writeFileSync(file, "# User\n- favourite drink: green tea\n");
+    expect(indexer.indexFile("USER.md")).toBe(1);
+    expect(indexer.indexFile("USER.md")).toBe(0);
+
+    fs.writeFileSync(file, "# User\n- favourite drink: coffee\n");
+    expect(indexer.indexFile("USER.md")).toBe(1);
+    expect(mm.search("green tea")).toEqual([]);
+    expect(mm.search("coffee")).toHaveLength(1);
+  });
+
+  it("drops the chunks of a deleted file", () => {
+    const file = path.join(dataDir, "SOUL.md");
+    fs.writeFileSync(file, "# Tone\n- playful and concise\n");
+    indexer.indexFile("SOUL.md");
+
+    fs.rmSync(file);
+    indexer.indexFile("SOUL.md");
+    expect(mm.search("playful")).toEqual([]);
+    expect(mm.getStats().totalChunks).toBe(0);
+  });
+});
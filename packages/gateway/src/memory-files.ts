@@ -0,0 +1,207 @@
+/**
+ * MemoryFileIndexer - Keeps MEMORY.md, the persona files and the daily logs
+ * searchable through memory_search.
+ *
+ * Only the first 200 lines of MEMORY.md reach the system prompt and daily
+ * logs are never loaded at all, so both are indexed as source "memory":
+ * persona files are split at their headings, daily logs into one chunk per
+ * "## HH:MM:SS [key]" entry. A file watcher re-indexes a file shortly after
+ * it changes; unchanged files are skipped by content hash.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, statSync, unlinkSync, watch, type FSWatcher } from "node:fs";
+import { join } from "node:path";
+import { chunkMarkdown } from "@open-claude-code/adapter-core";
+import type { MemoryManager } from "./memory-manager.js";
+
+/** Files in the data dir indexed by heading */
+export const INDEXED_PERSONA_FILES = ["MEMORY.md", "SOUL.md", "IDENTITY.md", "USER.md", "AGENTS.md"] as const;
+
+/** Longest indexed chunk; longer sections are split */
+const MAX_FILE_CHUNK_CHARS = 1500;
+/** Wait for writes to settle before re-indexing */
+const DEFAULT_DEBOUNCE_MS = 500;
+
+const DAILY_LOG_FILE = /^(\d{4}-\d{2}-\d{2})\.md$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HEADING = /^#{1,6}\s/;
+const FENCE = /^\s*(```|~~~)/;
+
+export type FileChunk = { text: string; timestamp: number };
+
+/**
+ * Split markdown into one chunk per heading section (headings inside code
+ * fences don't count). Oversized sections are split further, repeating the
+ * heading at the top of each continuation.
+ */
+export function chunkByHeading(content: string, maxChars: number = MAX_FILE_CHUNK_CHARS): string[] {
+  const sections: string[][] = [[]];
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    if (FENCE.test(line)) inFence = !inFence;
+    if (!inFence && HEADING.test(line)) sections.push([]);
+    sections[sections.length - 1].push(line);
+  }
+
+  const chunks: string[] = [];
+  for (const lines of sections) {
+    const section = lines.join("\n").trim();
+    // A heading with nothing under it is not worth a chunk
+    if (!section || (HEADING.test(section) && !section.includes("\n"))) continue;
+    if (section.length <= maxChars) {
+      chunks.push(section);
+      continue;
+    }
+
+    const heading = HEADING.test(section) ? section.slice(0, section.indexOf("\n")) : "";
+    const pieces = chunkMarkdown(section, heading ? maxChars - heading.length - 1 : maxChars);
+    pieces.forEach((piece, index) => chunks.push(index === 0 || !heading ? piece : `${heading}\n${piece}`));
+  }
+  return chunks;
+}
+
+/** Daily log entries as chunks, timestamped from the file date and entry time (UTC) */
+export function dailyLogChunks(date: string, content: string, fallbackTimestamp: number): FileChunk[] {
+  return chunkByHeading(content).map((text) => {
+    const time = text.match(/^## (\d{2}:\d{2}:\d{2})/)?.[1];
+    const timestamp = time ? Date.parse(`${date}T${time}Z`) : NaN;
+    return { text, timestamp: Number.isNaN(timestamp) ? fallbackTimestamp : timestamp };
+  });
+}
+
+export type MemoryFileIndexerOptions = {
+  /** Gateway data dir (persona files; daily logs under memory/) */
+  dataDir: string;
+  debounceMs?: number;
+};
+
+export class MemoryFileIndexer {
+  private memoryManager: MemoryManager;
+  private dataDir: string;
+  private memoryDir: string;
+  private debounceMs: number;
+  private watchers: FSWatcher[] = [];
+  private pending = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(memoryManager: MemoryManager, options: MemoryFileIndexerOptions) {
+    this.memoryManager = memoryManager;
+    this.dataDir = options.dataDir;
+    this.memoryDir = join(options.dataDir, "memory");
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  }
+
+  start(): void {
+    if (this.watchers.length > 0) return;
+    this.indexAll();
+
+    this.watch(this.dataDir, (file) =>
+      (INDEXED_PERSONA_FILES as readonly string[]).includes(file) ? file : null,
+    );
+    this.watch(this.memoryDir, (file) => (DAILY_LOG_FILE.test(file) ? `memory/${file}` : null));
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+    for (const timer of this.pending.values()) clearTimeout(timer);
+    this.pending.clear();
+  }
+
+  /**
+   * Delete daily logs whose day ended more than `days` ago (memory
+   * retention), together with their index rows and chunks, so nothing of
+   * them stays searchable. Returns the number of files deleted.
+   */
+  expireDailyLogs(days: number, now: number = Date.now()): number {
+    if (days <= 0 || !existsSync(this.memoryDir)) return 0;
+
+    let expired = 0;
+    for (const file of readdirSync(this.memoryDir)) {
+      const date = file.match(DAILY_LOG_FILE)?.[1];
+      if (!date || Date.parse(`${date}T00:00:00Z`) + DAY_MS > now - days * DAY_MS) continue;
+
+      const key = `memory/${file}`;
+      try {
+        unlinkSync(join(this.memoryDir, file));
+      } catch (err) {
+        console.warn(`[memory-files] Failed to delete expired ${key}:`, err);
+        continue;
+      }
+      const timer = this.pending.get(key);
+      if (timer) clearTimeout(timer);
+      this.pending.delete(key);
+      this.memoryManager.removeFile(key);
+      expired++;
+    }
+    return expired;
+  }
+
+  /** Index every persona file and daily log. Returns chunks written. */
+  indexAll(): number {
+    let indexed = 0;
+    for (const file of INDEXED_PERSONA_FILES) {
+      indexed += this.indexFile(file);
+    }
+    if (existsSync(this.memoryDir)) {
+      for (const file of readdirSync(this.memoryDir)) {
+        if (DAILY_LOG_FILE.test(file)) indexed += this.indexFile(`memory/${file}`);
+      }
+    }
+
+    if (indexed > 0) {
+      console.log(`[memory-files] Indexed ${indexed} chunk(s)`);
+    }
+    return indexed;
+  }
+
+  /** (Re-)index one file by its key relative to the data dir, e.g. "MEMORY.md" or "memory/2026-01-31.md" */
+  indexFile(key: string): number {
+    const path = join(this.dataDir, key);
+    try {
+      if (!existsSync(path)) {
+        this.memoryManager.removeFile(key);
+        return 0;
+      }
+
+      const content = readFileSync(path, "utf-8");
+      const hash = createHash("sha256").update(content).digest("hex");
+      const mtime = statSync(path).mtimeMs;
+      const date = key.match(/^memory\/(\d{4}-\d{2}-\d{2})\.md$/)?.[1];
+      const chunks = date
+        ? dailyLogChunks(date, content, mtime)
+        : chunkByHeading(content).map((text) => ({ text, timestamp: mtime }));
+
+      return this.memoryManager.indexFile(key, hash, chunks);
+    } catch (err) {
+      console.warn(`[memory-files] Failed to index ${key}:`, err);
+      return 0;
+    }
+  }
+
+  private watch(dir: string, toKey: (file: string) => string | null): void {
+    if (!existsSync(dir)) return;
+    try {
+      const watcher = watch(dir, (_event, file) => {
+        const key = file ? toKey(file.toString()) : null;
+        if (key) this.schedule(key);
+      });
+      watcher.unref();
+      this.watchers.push(watcher);
+    } catch (err) {
+      console.warn(`[memory-files] Cannot watch ${dir}:`, err);
+    }
+  }
+
+  private schedule(key: string): void {
+    const existing = this.pending.get(key);
+    if (existing) clearTimeout(existing);
+
+    const timer = setTimeout(() => {
+      this.pending.delete(key);
+      this.indexFile(key);
+    }, this.debounceMs);
+    timer.unref();
+    this.pending.set(key, timer);
+  }
+}
@@ -418,6 +418,20 @@ describe("MemoryManager", () => {
       expect(results.length).toBeGreaterThan(0);
       expect(results[0].snippet).toContain("TypeScript");
     });
+
+    it("keeps a single FTS row per chunk id", () => {
+      for (let i = 0; i < 3; i++) {
+        mm.indexChunk({
+          id: "dedup2",
+          sessionKey: "test:user",
+          text: "retried answer about Kubernetes",
+          source: "session",
+          timestamp: 1000 + i,
+        });
+      }
+
+      expect(mm.search("Kubernetes")).toHaveLength(1);
+    });
   });
 
   // ---------- Test 12: indexSession with missing file ----------
@@ -477,6 +491,75 @@ describe("MemoryManager", () => {
     });
   });
 
+  // ---------- Test 12b: incremental transcript indexing ----------
+  describe("indexSession incremental", () => {
+    let tmpDir: string;
+    let transcriptPath: string;
+
+    const line = (event: unknown) => JSON.stringify(event) + "\n";
+    const prompt = (text: string) => line({ type: "user", message: { role: "user", content: text } });
+    const reply = (text: string) =>
+      line({ type: "assistant", message: { role: "assistant", content: [{ type: "text", text }] } });
+    const chunkTexts = () =>
+      (db.prepare("SELECT text FROM memory_chunks ORDER BY text").all() as Array<{ text: string }>).map((r) => r.text);
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "memory-test-"));
+      transcriptPath = path.join(tmpDir, "sdk-session.jsonl");
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("indexes only appended lines and updates the growing last turn", () => {
+      fs.writeFileSync(transcriptPath, prompt("first question") + reply("first answer"));
+      expect(mm.indexSession("telegram:default:1", transcriptPath)).toBe(1);
+
+      // Nothing new: the file is not parsed again
+      expect(mm.indexSession("telegram:default:1", transcriptPath)).toBe(0);
+
+      // The last turn grows, then a new turn starts
+      fs.appendFileSync(transcriptPath, reply("more detail") + prompt("second question"));
+      mm.indexSession("telegram:default:1", transcriptPath);
+
+      expect(chunkTexts()).toEqual([
+        "User: first question\nAssistant: first answer\nAssistant: more detail",
+        "User: second question",
+      ]);
+    });
+
+    it("waits for a partially written line", () => {
+      fs.writeFileSync(transcriptPath, prompt("question") + '{"type":"assistant"');
+      mm.indexSession("k", transcriptPath);
+      expect(chunkTexts()).toEqual(["User: question"]);
+
+      fs.appendFileSync(transcriptPath, ',"message":{"content":[{"type":"text","text":"answer"}]}}\n');
+      mm.indexSession("k", transcriptPath);
+      expect(chunkTexts()).toEqual(["User: question\nAssistant: answer"]);
+    });
+
+    it("starts over when the transcript is replaced by a shorter file", () => {
+      fs.writeFileSync(transcriptPath, prompt("a long first question") + reply("a long first answer") + prompt("next"));
+      mm.indexSession("k", transcriptPath);
+
+      fs.writeFileSync(transcriptPath, prompt("new"));
+      mm.indexSession("k", transcriptPath);
+      expect(chunkTexts()).toEqual(["User: new"]);
+    });
+
+    it("drops the chunks a rewritten turn no longer produces", () => {
+      const longAnswer = Array.from({ length: 8 }, (_, i) => `paragraph ${i} ${"x".repeat(400)}`).join("\n\n");
+      fs.writeFileSync(transcriptPath, prompt("question") + reply(longAnswer));
+      expect(mm.indexSession("k", transcriptPath)).toBeGreaterThan(1);
+
+      fs.writeFileSync(transcriptPath, prompt("question") + reply("short"));
+      mm.indexSession("k", transcriptPath);
+      expect(chunkTexts()).toEqual(["User: question\nAssistant: short"]);
+      expect(mm.search("paragraph")).toEqual([]);
+    });
+  });
+
   // ---------- Test 13: shared DB scenario ----------
   describe("shared database", () => {
     it("coexists with other tables in the same database", () => {
@@ -517,6 +600,7 @@ describe("MemoryManager", () => {
       expect(results.length).toBe(1);
 
       const result = results[0];
+      expect(result).toHaveProperty("id", "struct1");
       expect(result).toHaveProperty("sessionKey", "telegram:42");
       expect(result).toHaveProperty("snippet");
       expect(result).toHaveProperty("score");
@@ -525,4 +609,270 @@ describe("MemoryManager", () => {
       expect(typeof result.score).toBe("number");
     });
   });
+
+  // ---------- Test 15: CJK search ----------
+  describe("CJK search", () => {
+    beforeEach(() => {
+      mm.indexChunk({
+        id: "ko",
+        sessionKey: "telegram:default:1",
+        text: "내일 오후 3시 회의 일정은 2층 회의실에서 진행합니다",
+        source: "session",
+        timestamp: 1000,
+      });
+      mm.indexChunk({
+        id: "ja",
+        sessionKey: "telegram:default:2",
+        text: "明日の会議の予定をカレンダーに追加しました",
+        source: "session",
+        timestamp: 2000,
+      });
+      mm.indexChunk({
+        id: "mixed",
+        sessionKey: "telegram:default:3",
+        text: "GitHub Actions로 배포 파이프라인을 구성했어요",
+        source: "session",
+        timestamp: 3000,
+      });
+    });
+
+    it("matches Korean words with particles attached", () => {
+      const results = mm.search("회의 일정");
+      expect(results).toHaveLength(1);
+      expect(results[0].sessionKey).toBe("telegram:default:1");
+
+      expect(mm.search("회의실")).toHaveLength(1);
+    });
+
+    it("AND-joins multiple Korean terms", () => {
+      expect(mm.search("회의실 진행")).toHaveLength(1);
+      expect(mm.search("회의실 배포")).toEqual([]);
+    });
+
+    it("matches unspaced Japanese text", () => {
+      const results = mm.search("会議の予定");
+      expect(results).toHaveLength(1);
+      expect(results[0].sessionKey).toBe("telegram:default:2");
+
+      expect(mm.search("カレンダー")).toHaveLength(1);
+    });
+
+    it("matches mixed-script queries", () => {
+      const results = mm.search("GitHub 배포");
+      expect(results).toHaveLength(1);
+      expect(results[0].sessionKey).toBe("telegram:default:3");
+
+      expect(mm.search("Actions로")).toHaveLength(1);
+    });
+
+    it("matches a single CJK character as a prefix", () => {
+      expect(mm.search("배").map((r) => r.sessionKey)).toEqual(["telegram:default:3"]);
+    });
+
+    it("returns the original text as the snippet", () => {
+      const [result] = mm.search("파이프라인");
+      expect(result.snippet).toBe("GitHub Actions로 배포 파이프라인을 구성했어요");
+    });
+  });
+
+  // ---------- Test 16: FTS migration ----------
+  describe("FTS migration", () => {
+    it("rebuilds a legacy unsegmented index so CJK text becomes searchable", () => {
+      const legacyDb = new Database(":memory:");
+      legacyDb.exec(`
+        CREATE TABLE memory_chunks (
+          id TEXT PRIMARY KEY,
+          session_key TEXT NOT NULL,
+          text TEXT NOT NULL,
+          source TEXT NOT NULL DEFAULT 'session',
+          timestamp INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+        CREATE VIRTUAL TABLE memory_fts USING fts5(
+          text,
+          id UNINDEXED,
+          session_key UNINDEXED,
+          source UNINDEXED
+        );
+      `);
+      legacyDb
+        .prepare("INSERT INTO memory_chunks VALUES (?, ?, ?, ?, ?, ?)")
+        .run("old", "telegram:1", "회의는 내일입니다", "session", 1000, 1000);
+      legacyDb
+        .prepare("INSERT INTO memory_fts VALUES (?, ?, ?, ?)")
+        .run("회의는 내일입니다", "old", "telegram:1", "session");
+
+      const legacyMm = new MemoryManager(legacyDb);
+      const results = legacyMm.search("회의");
+
+      expect(results).toHaveLength(1);
+      expect(results[0].snippet).toBe("회의는 내일입니다");
+      const ftsRows = legacyDb.prepare("SELECT COUNT(*) as count FROM memory_fts").get() as { count: number };
+      expect(ftsRows.count).toBe(1);
+    });
+  });
+
+  // ---------- Test 17: vector and hybrid search ----------
+  describe("vector and hybrid search", () => {
+    beforeEach(() => {
+      mm.indexChunk({
+        id: "deploy",
+        sessionKey: "telegram:default:1",
+        text: "We deployed the application to production with Docker containers",
+        source: "session",
+        timestamp: Date.now(),
+      });
+      mm.indexChunk({
+        id: "db",
+        sessionKey: "telegram:default:1",
+        text: "Set up a PostgreSQL database with proper indexing",
+        source: "session",
+        timestamp: Date.now(),
+      });
+    });
+
+    it("stores an embedding for every indexed chunk", () => {
+      const row = db
+        .prepare("SELECT embedding, embedding_model FROM memory_chunks WHERE id = ?")
+        .get("deploy") as { embedding: Buffer; embedding_model: string };
+
+      expect(row.embedding.byteLength).toBe(256 * 4);
+      expect(row.embedding_model).toBe("hashing-256");
+    });
+
+    it("finds paraphrased queries that keyword mode misses", () => {
+      const query = "how did we deploy the containerized app";
+      expect(mm.search(query)).toEqual([]);
+
+      const results = mm.search(query, { mode: "vector" });
+      expect(results.length).toBeGreaterThan(0);
+      expect(results[0].snippet).toContain("Docker containers");
+    });
+
+    it("ranks keyword and vector matches together in hybrid mode", () => {
+      const results = mm.search("PostgreSQL indexes", { mode: "hybrid" });
+
+      expect(results[0].snippet).toContain("PostgreSQL");
+      for (const result of results) {
+        expect(result.score).toBeGreaterThan(0);
+        expect(result.score).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it("filters hybrid results by sessionKey", () => {
+      mm.indexChunk({
+        id: "other",
+        sessionKey: "discord:default:2",
+        text: "Docker containers in production",
+        source: "session",
+        timestamp: Date.now(),
+      });
+
+      const results = mm.search("Docker production", { mode: "hybrid", sessionKey: "discord:default:2" });
+      expect(results.map((r) => r.sessionKey)).toEqual(["discord:default:2"]);
+    });
+
+    it("falls back to keyword search without an embedder", () => {
+      const plainDb = new Database(":memory:");
+      const plain = new MemoryManager(plainDb, { embedder: null });
+      plain.indexChunk({
+        id: "x",
+        sessionKey: "test:user",
+        text: "Docker containers",
+        source: "session",
+        timestamp: 1000,
+      });
+
+      expect(plain.search("Docker", { mode: "vector" })).toHaveLength(1);
+      expect(plain.search("deploying the containerized app", { mode: "hybrid" })).toEqual([]);
+    });
+
+    it("backfills embeddings for chunks indexed before the column existed", () => {
+      const legacyDb = new Database(":memory:");
+      new MemoryManager(legacyDb, { embedder: null }).indexChunk({
+        id: "old",
+        sessionKey: "test:user",
+        text: "Docker containers in production",
+        source: "session",
+        timestamp: 1000,
+      });
+
+      const upgraded = new MemoryManager(legacyDb);
+      expect(upgraded.search("containerized production deploy", { mode: "vector" })).toHaveLength(1);
+    });
+  });
+
+  // ---------- Test 18: forget, update and retention ----------
+  describe("forget, update and retention", () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const now = 1_700_000_000_000;
+
+    beforeEach(() => {
+      const chunks: MemoryChunk[] = [
+        { id: "a1", sessionKey: "telegram:default:1", text: "My address is 12 Baker Street", source: "session", timestamp: now - 40 * DAY },
+        { id: "a2", sessionKey: "telegram:default:1", text: "I like green tea", source: "session", timestamp: now - 1 * DAY },
+        { id: "b1", sessionKey: "telegram:default:group", text: "Alice said the Baker Street office opens at nine", source: "session", timestamp: now - 40 * DAY },
+        { id: "m1", sessionKey: "MEMORY.md", text: "Office address: Baker Street", source: "memory", timestamp: now - 400 * DAY },
+      ];
+      for (const chunk of chunks) mm.indexChunk(chunk);
+    });
+
+    const ids = () =>
+      (db.prepare("SELECT id FROM memory_chunks ORDER BY id").all() as Array<{ id: string }>).map((r) => r.id);
+
+    it("forgets a chunk by id and removes it from search", () => {
+      expect(mm.forget({ id: "a1" })).toBe(1);
+      expect(ids()).toEqual(["a2", "b1", "m1"]);
+      expect(mm.search("Baker", { sessionKey: "telegram:default:1" })).toEqual([]);
+      expect(mm.forget({ id: "a1" })).toBe(0);
+    });
+
+    it("ignores an id outside the given session", () => {
+      expect(mm.forget({ id: "a1", sessionKey: "telegram:default:group" })).toBe(0);
+      expect(ids()).toContain("a1");
+    });
+
+    it("forgets query matches, optionally within a session", () => {
+      expect(mm.forget({ query: "Baker Street", sessionKey: "telegram:default:group" })).toBe(1);
+      expect(ids()).toEqual(["a1", "a2", "m1"]);
+
+      expect(mm.forget({ query: "Baker Street" })).toBe(2);
+      expect(ids()).toEqual(["a2"]);
+    });
+
+    it("forgets every chunk of a session", () => {
+      expect(mm.forget({ sessionKey: "telegram:default:1" })).toBe(2);
+      expect(ids()).toEqual(["b1", "m1"]);
+      expect(db.prepare("SELECT COUNT(*) AS n FROM memory_fts").get()).toEqual({ n: 2 });
+    });
+
+    it("requires a selector", () => {
+      expect(mm.forget({})).toBe(0);
+      expect(ids()).toHaveLength(4);
+    });
+
+    it("forgets chunks quoting given texts within a key prefix", () => {
+      expect(mm.forgetContaining("telegram:default:", ["the Baker Street office"])).toBe(1);
+      expect(ids()).toEqual(["a1", "a2", "m1"]);
+      expect(mm.forgetContaining("discord:default:", ["green tea"])).toBe(0);
+    });
+
+    it("updates a chunk's text and index in place", () => {
+      expect(mm.updateChunk("a2", "I switched from green tea to coffee")).toBe(true);
+
+      const results = mm.search("coffee");
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ id: "a2", sessionKey: "telegram:default:1", timestamp: now - DAY });
+      expect(mm.search("coffee", { mode: "vector" })[0].id).toBe("a2");
+      expect(mm.updateChunk("missing", "text")).toBe(false);
+    });
+
+    it("applies retention per source", () => {
+      expect(mm.applyRetention({ session: 30, memory: 0 }, now)).toBe(2);
+      expect(ids()).toEqual(["a2", "m1"]);
+
+      expect(mm.applyRetention({ memory: 365 }, now)).toBe(1);
+      expect(ids()).toEqual(["a2"]);
+    });
+  });
 });
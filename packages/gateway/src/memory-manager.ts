@@ -1,8 +1,36 @@
 import Database from "better-sqlite3";
 import { createHash } from "node:crypto";
 import * as fs from "node:fs";
+import { buildFtsQuery, segmentForIndex } from "./memory-tokenizer.js";
+import { parseTranscript } from "./transcript-parser.js";
+import { buildTurnChunks } from "./turn-memory.js";
+import {
+  bufferToVector,
+  cosineSimilarity,
+  createHashingEmbedder,
+  vectorToBuffer,
+  type EmbeddingProvider,
+} from "./embeddings.js";
+import {
+  DEFAULT_HYBRID_WEIGHTS,
+  rankHybrid,
+  type HybridWeights,
+  type MemorySearchMode,
+  type RankCandidate,
+} from "./memory-ranking.js";
+
+/** Bump when the memory_fts layout or segmentation changes; the index is rebuilt */
+const FTS_SCHEMA_VERSION = 2;
+
+/** Vector hits below this cosine similarity are treated as unrelated */
+const MIN_VECTOR_SIMILARITY = 0.15;
+
+/** Keyword/vector candidates fetched per requested result before hybrid ranking */
+const HYBRID_CANDIDATE_FACTOR = 4;
 
 export interface MemorySearchResult {
+  /** Chunk ID (for memory_update / memory_forget) */
+  id: string;
   sessionKey: string;
   snippet: string;
   score: number;
@@ -16,20 +44,53 @@ export interface MemoryChunk {
   text: string;
   source: "session" | "memory";
   timestamp: number;
+  /** Transcript the chunk was indexed from and the byte offset of its turn */
+  origin?: { path: string; offset: number };
+}
+
+export interface MemorySearchOptions {
+  maxResults?: number;
+  minScore?: number;
+  sessionKey?: string;
+  /** keyword = FTS5 only (default), vector = embeddings only, hybrid = both plus recency */
+  mode?: MemorySearchMode;
 }
 
+/** What to forget: a chunk ID, a query match, or everything of a session */
+export interface MemoryForgetTarget {
+  id?: string;
+  /** Delete keyword matches (within sessionKey when given) */
+  query?: string;
+  /** Without id/query: every chunk of the session */
+  sessionKey?: string;
+  /** Most chunks a query may delete (default 10) */
+  maxResults?: number;
+}
+
+/** Days to keep chunks per source; 0 or missing keeps them forever */
+export type MemoryRetentionPolicy = Partial<Record<MemoryChunk["source"], number>>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 export class MemoryManager {
   private db: Database.Database;
   private schemaReady = false;
+  private embedder: EmbeddingProvider | null;
+  private hybridWeights: HybridWeights;
 
   constructor(
     db: Database.Database,
-    _options?: {
+    options?: {
       maxChunkSize?: number;
       ftsEnabled?: boolean;
+      /** Embedding provider for vector/hybrid search (null disables embeddings) */
+      embedder?: EmbeddingProvider | null;
+      hybridWeights?: HybridWeights;
     }
   ) {
     this.db = db;
+    this.embedder = options?.embedder === undefined ? createHashingEmbedder() : options.embedder;
+    this.hybridWeights = options?.hybridWeights ?? DEFAULT_HYBRID_WEIGHTS;
   }
 
   ensureSchema(): void {
@@ -49,29 +110,143 @@ export class MemoryManager {
       CREATE INDEX IF NOT EXISTS idx_memory_chunks_timestamp ON memory_chunks(timestamp);
     `);
 
-    // FTS5 virtual table - CREATE VIRTUAL TABLE IF NOT EXISTS is supported
     this.db.exec(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS memory_fts USING fts5(
-        text,
-        id UNINDEXED,
-        session_key UNINDEXED,
-        source UNINDEXED
+      CREATE TABLE IF NOT EXISTS memory_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+
+      -- Read position per session transcript (incremental indexing)
+      CREATE TABLE IF NOT EXISTS memory_transcripts (
+        path TEXT PRIMARY KEY,
+        session_key TEXT NOT NULL,
+        offset INTEGER NOT NULL,
+        size INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      -- Content hash per indexed file (MEMORY.md, persona files, daily logs)
+      CREATE TABLE IF NOT EXISTS memory_files (
+        path TEXT PRIMARY KEY,
+        hash TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
       );
     `);
 
+    this.migrateFts();
+    this.migrateEmbeddings();
+    this.migrateOrigins();
+
     this.schemaReady = true;
   }
 
+  /** Add the embedding columns and (re-)embed chunks missing a vector from the current provider */
+  /** Transcript chunks remember where they came from so re-read turns replace them */
+  private migrateOrigins(): void {
+    const columns = this.db.prepare("PRAGMA table_info(memory_chunks)").all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === "origin")) {
+      this.db.exec(`
+        ALTER TABLE memory_chunks ADD COLUMN origin TEXT;
+        ALTER TABLE memory_chunks ADD COLUMN origin_offset INTEGER;
+      `);
+    }
+    this.db.exec("CREATE INDEX IF NOT EXISTS idx_memory_chunks_origin ON memory_chunks(origin, origin_offset)");
+  }
+
+  private migrateEmbeddings(): void {
+    const columns = this.db.prepare("PRAGMA table_info(memory_chunks)").all() as Array<{ name: string }>;
+    if (!columns.some((c) => c.name === "embedding")) {
+      this.db.exec(`
+        ALTER TABLE memory_chunks ADD COLUMN embedding BLOB;
+        ALTER TABLE memory_chunks ADD COLUMN embedding_model TEXT;
+      `);
+    }
+
+    const embedder = this.embedder;
+    if (!embedder) return;
+
+    const stale = this.db
+      .prepare("SELECT id, text FROM memory_chunks WHERE embedding_model IS NULL OR embedding_model != ?")
+      .all(embedder.id) as Array<{ id: string; text: string }>;
+    if (stale.length === 0) return;
+
+    const update = this.db.prepare(
+      "UPDATE memory_chunks SET embedding = ?, embedding_model = ? WHERE id = ?"
+    );
+    this.db.transaction(() => {
+      for (const chunk of stale) {
+        update.run(vectorToBuffer(embedder.embed(chunk.text)), embedder.id, chunk.id);
+      }
+    })();
+    console.log(`[memory] Embedded ${stale.length} chunk(s) with ${embedder.id}`);
+  }
+
+  /**
+   * Create memory_fts, rebuilding it from memory_chunks when it predates
+   * the current segmentation (v1 indexed raw text, so CJK never matched).
+   */
+  private migrateFts(): void {
+    const row = this.db
+      .prepare("SELECT value FROM memory_meta WHERE key = 'fts_version'")
+      .get() as { value: string } | undefined;
+    const version = row ? Number(row.value) : 1;
+    if (version >= FTS_SCHEMA_VERSION && this.hasFtsTable()) return;
+
+    const rebuild = this.db.transaction(() => {
+      this.db.exec(`
+        DROP TABLE IF EXISTS memory_fts;
+        CREATE VIRTUAL TABLE memory_fts USING fts5(
+          text,
+          id UNINDEXED,
+          session_key UNINDEXED,
+          source UNINDEXED,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+      `);
+
+      const chunks = this.db
+        .prepare("SELECT id, session_key, text, source FROM memory_chunks")
+        .all() as Array<{ id: string; session_key: string; text: string; source: string }>;
+      const insertFts = this.db.prepare(
+        "INSERT INTO memory_fts (text, id, session_key, source) VALUES (?, ?, ?, ?)"
+      );
+      for (const chunk of chunks) {
+        insertFts.run(segmentForIndex(chunk.text), chunk.id, chunk.session_key, chunk.source);
+      }
+
+      this.db
+        .prepare("INSERT OR REPLACE INTO memory_meta (key, value) VALUES ('fts_version', ?)")
+        .run(String(FTS_SCHEMA_VERSION));
+
+      if (chunks.length > 0) {
+        console.log(`[memory] Rebuilt FTS index for ${chunks.length} chunk(s)`);
+      }
+    });
+
+    rebuild();
+  }
+
+  private hasFtsTable(): boolean {
+    return !!this.db
+      .prepare("SELECT 1 FROM sqlite_master WHERE name = 'memory_fts'")
+      .get();
+  }
+
   indexChunk(chunk: MemoryChunk): void {
     this.ensureSchema();
 
     const insertChunk = this.db.prepare(`
-      INSERT OR REPLACE INTO memory_chunks (id, session_key, text, source, timestamp, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT OR REPLACE INTO memory_chunks
+        (id, session_key, text, source, timestamp, created_at, embedding, embedding_model, origin, origin_offset)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const embedding = this.embedder ? vectorToBuffer(this.embedder.embed(chunk.text)) : null;
+
+    // FTS5 has no primary key, so drop the previous row for this id explicitly
+    const deleteFts = this.db.prepare("DELETE FROM memory_fts WHERE id = ?");
     const insertFts = this.db.prepare(`
-      INSERT OR REPLACE INTO memory_fts (text, id, session_key, source)
+      INSERT INTO memory_fts (text, id, session_key, source)
       VALUES (?, ?, ?, ?)
     `);
 
@@ -82,22 +257,20 @@ export class MemoryManager {
         chunk.text,
         chunk.source,
         chunk.timestamp,
-        Date.now()
+        Date.now(),
+        embedding,
+        this.embedder?.id ?? null,
+        chunk.origin?.path ?? null,
+        chunk.origin?.offset ?? null
       );
-      insertFts.run(chunk.text, chunk.id, chunk.sessionKey, chunk.source);
+      deleteFts.run(chunk.id);
+      insertFts.run(segmentForIndex(chunk.text), chunk.id, chunk.sessionKey, chunk.source);
     });
 
     txn();
   }
 
-  search(
-    query: string,
-    options?: {
-      maxResults?: number;
-      minScore?: number;
-      sessionKey?: string;
-    }
-  ): MemorySearchResult[] {
+  search(query: string, options?: MemorySearchOptions): MemorySearchResult[] {
     this.ensureSchema();
 
     if (!query || query.trim().length === 0) {
@@ -105,7 +278,32 @@ export class MemoryManager {
     }
 
     const maxResults = options?.maxResults ?? 10;
-    const ftsQuery = this.buildFtsQuery(query);
+    const mode = this.embedder ? options?.mode ?? "keyword" : "keyword";
+
+    let results: MemorySearchResult[];
+    if (mode === "keyword") {
+      results = this.keywordSearch(query, maxResults, options?.sessionKey).map((row) =>
+        toSearchResult(row, 1 / (1 + Math.abs(row.rank)))
+      );
+    } else if (mode === "vector") {
+      results = this.vectorSearch(query, options?.sessionKey)
+        .slice(0, maxResults)
+        .map((row) => toSearchResult(row, row.similarity));
+    } else {
+      results = this.hybridSearch(query, maxResults, options?.sessionKey);
+    }
+
+    const minScore = options?.minScore;
+    return minScore !== undefined ? results.filter((r) => r.score >= minScore) : results;
+  }
+
+  /** FTS5 matches, best BM25 rank first */
+  private keywordSearch(
+    query: string,
+    limit: number,
+    sessionKey?: string,
+  ): Array<Omit<MemorySearchResult, "score"> & { rank: number }> {
+    const ftsQuery = buildFtsQuery(query);
 
     if (!ftsQuery) {
       return [];
@@ -114,10 +312,10 @@ export class MemoryManager {
     try {
       let rows: Array<Record<string, unknown>>;
 
-      if (options?.sessionKey) {
+      if (sessionKey) {
         rows = this.db
           .prepare(
-            `SELECT f.text, f.id, f.session_key, f.source, f.rank,
+            `SELECT c.text, f.id, f.session_key, f.source, f.rank,
                     c.timestamp
              FROM memory_fts f
              JOIN memory_chunks c ON c.id = f.id
@@ -126,13 +324,13 @@ export class MemoryManager {
              ORDER BY f.rank
              LIMIT ?`
           )
-          .all(ftsQuery, options.sessionKey, maxResults) as Array<
+          .all(ftsQuery, sessionKey, limit) as Array<
           Record<string, unknown>
         >;
       } else {
         rows = this.db
           .prepare(
-            `SELECT f.text, f.id, f.session_key, f.source, f.rank,
+            `SELECT c.text, f.id, f.session_key, f.source, f.rank,
                     c.timestamp
              FROM memory_fts f
              JOIN memory_chunks c ON c.id = f.id
@@ -140,13 +338,14 @@ export class MemoryManager {
              ORDER BY f.rank
              LIMIT ?`
           )
-          .all(ftsQuery, maxResults) as Array<Record<string, unknown>>;
+          .all(ftsQuery, limit) as Array<Record<string, unknown>>;
       }
 
       return rows.map((row) => ({
+        id: row.id as string,
         sessionKey: row.session_key as string,
         snippet: row.text as string,
-        score: 1 / (1 + Math.abs(row.rank as number)),
+        rank: row.rank as number,
         timestamp: row.timestamp as number,
         source: row.source as "session" | "memory",
       }));
@@ -156,101 +355,284 @@ export class MemoryManager {
     }
   }
 
-  indexSession(sessionId: string, transcriptPath: string): void {
+  /**
+   * Chunks similar to the query, most similar first. Brute-force scan over
+   * every stored vector — fine for a personal memory of a few thousand chunks.
+   */
+  private vectorSearch(
+    query: string,
+    sessionKey?: string,
+  ): Array<Omit<MemorySearchResult, "score"> & { similarity: number }> {
+    if (!this.embedder) return [];
+    const queryVector = this.embedder.embed(query);
+
+    const rows = (
+      sessionKey
+        ? this.db
+            .prepare(
+              `SELECT id, session_key, text, source, timestamp, embedding FROM memory_chunks
+               WHERE embedding IS NOT NULL AND session_key = ?`
+            )
+            .all(sessionKey)
+        : this.db
+            .prepare(
+              `SELECT id, session_key, text, source, timestamp, embedding FROM memory_chunks
+               WHERE embedding IS NOT NULL`
+            )
+            .all()
+    ) as Array<Record<string, unknown>>;
+
+    return rows
+      .map((row) => ({
+        id: row.id as string,
+        sessionKey: row.session_key as string,
+        snippet: row.text as string,
+        timestamp: row.timestamp as number,
+        source: row.source as "session" | "memory",
+        similarity: cosineSimilarity(queryVector, bufferToVector(row.embedding as Buffer)),
+      }))
+      .filter((row) => row.similarity >= MIN_VECTOR_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /** Union of keyword and vector candidates, re-ranked by BM25 + similarity + recency */
+  private hybridSearch(query: string, maxResults: number, sessionKey?: string): MemorySearchResult[] {
+    const limit = maxResults * HYBRID_CANDIDATE_FACTOR;
+    const keywordHits = this.keywordSearch(query, limit, sessionKey);
+    const vectorHits = this.vectorSearch(query, sessionKey);
+    const similarity = new Map(vectorHits.map((hit) => [hit.id, hit.similarity]));
+
+    const rows = new Map<string, Omit<MemorySearchResult, "score">>();
+    const candidates: RankCandidate[] = [];
+    for (const hit of keywordHits) {
+      rows.set(hit.id, hit);
+      candidates.push({ id: hit.id, bm25: hit.rank, similarity: similarity.get(hit.id), timestamp: hit.timestamp });
+    }
+    for (const hit of vectorHits.slice(0, limit)) {
+      if (rows.has(hit.id)) continue;
+      rows.set(hit.id, hit);
+      candidates.push({ id: hit.id, similarity: hit.similarity, timestamp: hit.timestamp });
+    }
+
+    return rankHybrid(candidates, this.hybridWeights)
+      .slice(0, maxResults)
+      .map(({ id, score }) => toSearchResult(rows.get(id)!, score));
+  }
+
+  // ─── Forget / Update / Retention ───────────────────────────────────────────
+
+  /** Delete chunks by ID, query match or session. Returns the number deleted. */
+  forget(target: MemoryForgetTarget): number {
     this.ensureSchema();
 
-    if (!fs.existsSync(transcriptPath)) {
-      return;
+    let ids: string[];
+    if (target.id) {
+      const row = this.db
+        .prepare("SELECT session_key FROM memory_chunks WHERE id = ?")
+        .get(target.id) as { session_key: string } | undefined;
+      ids = row && (!target.sessionKey || row.session_key === target.sessionKey) ? [target.id] : [];
+    } else if (target.query) {
+      ids = this.keywordSearch(target.query, target.maxResults ?? 10, target.sessionKey).map((hit) => hit.id);
+    } else if (target.sessionKey) {
+      ids = this.selectIds("SELECT id FROM memory_chunks WHERE session_key = ?", target.sessionKey);
+    } else {
+      return 0;
     }
 
-    const content = fs.readFileSync(transcriptPath, "utf-8");
-    const lines = content.split("\n").filter((l) => l.trim().length > 0);
+    return this.deleteChunks(ids);
+  }
 
-    const events: Array<{
-      type: string;
-      timestamp?: string;
-      message?: { role: string; content: string };
-    }> = [];
+  /**
+   * Delete chunks of sessions starting with keyPrefix whose text contains
+   * any of the given strings (e.g. one member's messages in a shared group).
+   */
+  forgetContaining(keyPrefix: string, texts: string[]): number {
+    this.ensureSchema();
 
-    for (const line of lines) {
-      try {
-        events.push(JSON.parse(line));
-      } catch {
-        // Skip malformed lines
+    const select = this.db.prepare(
+      "SELECT id FROM memory_chunks WHERE substr(session_key, 1, ?) = ? AND instr(text, ?) > 0"
+    );
+    const ids = new Set<string>();
+    for (const text of texts) {
+      if (!text) continue;
+      for (const row of select.all(keyPrefix.length, keyPrefix, text) as Array<{ id: string }>) {
+        ids.add(row.id);
       }
     }
+    return this.deleteChunks([...ids]);
+  }
+
+  /** Replace a chunk's text, keeping its session, source and timestamp. False when the ID is unknown. */
+  updateChunk(id: string, text: string): boolean {
+    this.ensureSchema();
+
+    const row = this.db
+      .prepare("SELECT session_key, source, timestamp, origin, origin_offset FROM memory_chunks WHERE id = ?")
+      .get(id) as
+      | {
+          session_key: string;
+          source: MemoryChunk["source"];
+          timestamp: number;
+          origin: string | null;
+          origin_offset: number | null;
+        }
+      | undefined;
+    if (!row) return false;
+
+    this.indexChunk({
+      id,
+      sessionKey: row.session_key,
+      text,
+      source: row.source,
+      timestamp: row.timestamp,
+      origin: row.origin !== null ? { path: row.origin, offset: row.origin_offset ?? 0 } : undefined,
+    });
+    return true;
+  }
+
+  /** Delete chunks older than the policy allows for their source. Returns the number deleted. */
+  applyRetention(policy: MemoryRetentionPolicy, now: number = Date.now()): number {
+    this.ensureSchema();
 
-    // Extract session key from header event or use sessionId
-    let sessionKey = sessionId;
-    const headerEvent = events.find((e) => e.type === "session");
-    if (headerEvent && "sessionKey" in headerEvent) {
-      sessionKey = (headerEvent as Record<string, unknown>).sessionKey as string;
+    let deleted = 0;
+    for (const [source, days] of Object.entries(policy)) {
+      if (!days || days <= 0) continue;
+      const ids = this.selectIds(
+        "SELECT id FROM memory_chunks WHERE source = ? AND timestamp < ?",
+        source,
+        now - days * DAY_MS,
+      );
+      deleted += this.deleteChunks(ids);
     }
+    return deleted;
+  }
 
-    // Collect message events
-    const messages = events.filter(
-      (e) => e.type === "message" && e.message?.content
-    );
+  private selectIds(sql: string, ...params: unknown[]): string[] {
+    return (this.db.prepare(sql).all(...params) as Array<{ id: string }>).map((row) => row.id);
+  }
 
-    // Chunk by user+assistant pairs
-    const chunks: Array<{ text: string; timestamp: number }> = [];
-    let i = 0;
-    while (i < messages.length) {
-      const msg = messages[i];
-      if (msg.message?.role === "user") {
-        const userText = msg.message.content;
-        const userTimestamp = msg.timestamp
-          ? new Date(msg.timestamp).getTime()
-          : Date.now();
-
-        // Look for following assistant message
-        if (
-          i + 1 < messages.length &&
-          messages[i + 1].message?.role === "assistant"
-        ) {
-          const assistantText = messages[i + 1].message!.content;
-          chunks.push({
-            text: `User: ${userText}\nAssistant: ${assistantText}`,
-            timestamp: userTimestamp,
-          });
-          i += 2;
-        } else {
-          // Lone user message
-          chunks.push({
-            text: `User: ${userText}`,
-            timestamp: userTimestamp,
+  private deleteChunks(ids: string[]): number {
+    if (ids.length === 0) return 0;
+
+    const deleteChunk = this.db.prepare("DELETE FROM memory_chunks WHERE id = ?");
+    const deleteFts = this.db.prepare("DELETE FROM memory_fts WHERE id = ?");
+    let deleted = 0;
+    this.db.transaction(() => {
+      for (const id of ids) {
+        deleted += deleteChunk.run(id).changes;
+        deleteFts.run(id);
+      }
+    })();
+    return deleted;
+  }
+
+  /**
+   * Index new turns of a session transcript (Agent SDK JSONL; see
+   * transcript-parser.ts). Reading resumes from the byte offset stored in
+   * memory_transcripts. The last turn is re-read on the next call because
+   * it may still be growing. Chunks of every re-read turn (all of them when
+   * the file was replaced) are deleted before the new set is written, in one
+   * transaction, so a turn that now yields fewer chunks leaves nothing stale
+   * behind. Returns the number of chunks written.
+   */
+  indexSession(sessionKey: string, transcriptPath: string): number {
+    this.ensureSchema();
+
+    if (!fs.existsSync(transcriptPath)) {
+      return 0;
+    }
+
+    const size = fs.statSync(transcriptPath).size;
+    const state = this.db
+      .prepare("SELECT offset, size FROM memory_transcripts WHERE path = ?")
+      .get(transcriptPath) as { offset: number; size: number } | undefined;
+    if (state && state.size === size) return 0;
+
+    // A file smaller than what we consumed was replaced: start over
+    const start = state && size >= state.size ? state.offset : 0;
+    const buffer = Buffer.alloc(size - start);
+    const fd = fs.openSync(transcriptPath, "r");
+    try {
+      fs.readSync(fd, buffer, 0, buffer.length, start);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // Only complete lines; a partially written last line is read next time
+    const end = buffer.lastIndexOf(0x0a) + 1;
+    const { turns, sessionKey: headerKey } = parseTranscript(buffer.subarray(0, end).toString("utf-8"));
+    const key = headerKey ?? sessionKey;
+
+    let indexed = 0;
+    this.db.transaction(() => {
+      this.deleteChunks(
+        this.selectIds("SELECT id FROM memory_chunks WHERE origin = ? AND origin_offset >= ?", transcriptPath, start),
+      );
+
+      for (const { turn, timestamp, offset } of turns) {
+        for (const chunk of buildTurnChunks(key, turn, "unknown")) {
+          this.indexChunk({
+            id: chunk.id,
+            sessionKey: key,
+            text: chunk.text,
+            source: "session",
+            timestamp,
+            origin: { path: transcriptPath, offset: start + offset },
           });
-          i += 1;
+          indexed++;
         }
-      } else if (msg.message?.role === "assistant") {
-        // Lone assistant message
-        chunks.push({
-          text: `Assistant: ${msg.message.content}`,
-          timestamp: msg.timestamp
-            ? new Date(msg.timestamp).getTime()
-            : Date.now(),
-        });
-        i += 1;
-      } else {
-        i += 1;
       }
-    }
 
-    // Index each chunk
-    for (const chunk of chunks) {
-      const id = createHash("sha256")
-        .update(chunk.text + sessionKey + chunk.timestamp)
-        .digest("hex")
-        .slice(0, 16);
-
-      this.indexChunk({
-        id,
-        sessionKey,
-        text: chunk.text,
-        source: "session",
-        timestamp: chunk.timestamp,
+      const lastTurn = turns[turns.length - 1];
+      const nextOffset = start + (lastTurn ? lastTurn.offset : end);
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO memory_transcripts (path, session_key, offset, size, updated_at)
+           VALUES (?, ?, ?, ?, ?)`
+        )
+        .run(transcriptPath, key, nextOffset, start + end, Date.now());
+    })();
+
+    return indexed;
+  }
+
+  /**
+   * Replace the chunks indexed from a file (source "memory", session key =
+   * the file's key, e.g. "MEMORY.md"). Skipped when the content hash matches
+   * the last indexed version. Returns the number of chunks written.
+   */
+  indexFile(key: string, hash: string, chunks: Array<{ text: string; timestamp: number }>): number {
+    this.ensureSchema();
+
+    const state = this.db
+      .prepare("SELECT hash FROM memory_files WHERE path = ?")
+      .get(key) as { hash: string } | undefined;
+    if (state?.hash === hash) return 0;
+
+    this.db.transaction(() => {
+      this.forget({ sessionKey: key });
+      chunks.forEach((chunk, index) => {
+        this.indexChunk({
+          id: createHash("sha256").update(`${key}\n${index}`).digest("hex").slice(0, 16),
+          sessionKey: key,
+          text: chunk.text,
+          source: "memory",
+          timestamp: chunk.timestamp,
+        });
       });
-    }
+      this.db
+        .prepare("INSERT OR REPLACE INTO memory_files (path, hash, updated_at) VALUES (?, ?, ?)")
+        .run(key, hash, Date.now());
+    })();
+
+    return chunks.length;
+  }
+
+  /** Drop the chunks of a deleted file. Returns the number deleted. */
+  removeFile(key: string): number {
+    this.ensureSchema();
+    this.db.prepare("DELETE FROM memory_files WHERE path = ?").run(key);
+    return this.forget({ sessionKey: key });
   }
 
   getStats(): { totalChunks: number; totalSessions: number } {
@@ -275,19 +657,15 @@ export class MemoryManager {
   close(): void {
     // db lifecycle is managed externally; nothing to do here
   }
+}
 
-  private buildFtsQuery(query: string): string | null {
-    // Tokenize: split on whitespace, remove empty, strip non-alphanumeric edges
-    const tokens = query
-      .split(/\s+/)
-      .map((t) => t.replace(/[^\w]/g, ""))
-      .filter((t) => t.length > 0);
-
-    if (tokens.length === 0) {
-      return null;
-    }
-
-    // AND-join quoted tokens for precise matching
-    return tokens.map((t) => `"${t}"`).join(" AND ");
-  }
+function toSearchResult(row: Omit<MemorySearchResult, "score">, score: number): MemorySearchResult {
+  return {
+    id: row.id,
+    sessionKey: row.sessionKey,
+    snippet: row.snippet,
+    score,
+    timestamp: row.timestamp,
+    source: row.source,
+  };
 }
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_HYBRID_WEIGHTS, rankHybrid } from "./memory-ranking.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = 100 * DAY;
+
+describe("rankHybrid", () => {
+  it("orders candidates by the blended score", () => {
+    const ranked = rankHybrid(
+      [
+        { id: "vector-only", similarity: 0.4, timestamp: now },
+        { id: "both", bm25: -4, similarity: 0.6, timestamp: now },
+        { id: "keyword-only", bm25: -2, timestamp: now },
+      ],
+      DEFAULT_HYBRID_WEIGHTS,
+      now,
+    );
+
+    expect(ranked.map((r) => r.id)).toEqual(["both", "keyword-only", "vector-only"]);
+    for (const { score } of ranked) {
+      expect(score).toBeGreaterThan(0);
+      expect(score).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("breaks ties with recency", () => {
+    const ranked = rankHybrid(
+      [
+        { id: "old", similarity: 0.5, timestamp: now - 60 * DAY },
+        { id: "new", similarity: 0.5, timestamp: now - DAY },
+      ],
+      DEFAULT_HYBRID_WEIGHTS,
+      now,
+    );
+
+    expect(ranked[0].id).toBe("new");
+  });
+
+  it("halves the recency score every half-life", () => {
+    const weights = { text: 0, vector: 0, recency: 1, recencyHalfLifeDays: 10 };
+    const [fresh] = rankHybrid([{ id: "a", timestamp: now }], weights, now);
+    const [aged] = rankHybrid([{ id: "a", timestamp: now - 10 * DAY }], weights, now);
+
+    expect(fresh.score).toBeCloseTo(1);
+    expect(aged.score).toBeCloseTo(0.5);
+  });
+
+  it("ignores negative similarity", () => {
+    const weights = { text: 0, vector: 1, recency: 0, recencyHalfLifeDays: 30 };
+    const [ranked] = rankHybrid([{ id: "a", similarity: -0.3, timestamp: now }], weights, now);
+    expect(ranked.score).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Hybrid ranking for memory search: blends the FTS5 BM25 rank, embedding
+ * similarity and recency into one 0–1 score.
+ */
+
+export type MemorySearchMode = "keyword" | "vector" | "hybrid";
+
+export interface HybridWeights {
+  /** Weight of the normalized BM25 score */
+  text: number;
+  /** Weight of the cosine similarity */
+  vector: number;
+  /** Weight of the recency decay */
+  recency: number;
+  /** Age at which the recency score halves */
+  recencyHalfLifeDays: number;
+}
+
+export const DEFAULT_HYBRID_WEIGHTS: HybridWeights = {
+  text: 0.55,
+  vector: 0.35,
+  recency: 0.1,
+  recencyHalfLifeDays: 30,
+};
+
+export interface RankCandidate {
+  id: string;
+  /** FTS5 rank (negative BM25, lower is better); undefined when not a keyword hit */
+  bm25?: number;
+  /** Cosine similarity to the query embedding */
+  similarity?: number;
+  timestamp: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Score candidates, best first */
+export function rankHybrid(
+  candidates: RankCandidate[],
+  weights: HybridWeights = DEFAULT_HYBRID_WEIGHTS,
+  now: number = Date.now(),
+): Array<{ id: string; score: number }> {
+  // BM25 is unbounded, so scale by the best hit in this result set
+  const best = Math.min(0, ...candidates.map((c) => c.bm25 ?? 0));
+  const total = weights.text + weights.vector + weights.recency || 1;
+
+  return candidates
+    .map((candidate) => {
+      const text = candidate.bm25 !== undefined && best < 0 ? candidate.bm25 / best : 0;
+      const vector = Math.max(0, candidate.similarity ?? 0);
+      const ageDays = Math.max(0, now - candidate.timestamp) / DAY_MS;
+      const recency = 0.5 ** (ageDays / weights.recencyHalfLifeDays);
+      const score = (weights.text * text + weights.vector * vector + weights.recency * recency) / total;
+      return { id: candidate.id, score };
+    })
+    .sort((a, b) => b.score - a.score);
+}
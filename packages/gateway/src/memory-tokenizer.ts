@@ -0,0 +1,70 @@
+/**
+ * CJK-aware text segmentation for the memory FTS5 index.
+ *
+ * FTS5's unicode61 tokenizer splits on whitespace/punctuation only, so an
+ * unspaced Japanese sentence or a Korean word with a particle attached
+ * ("회의는") becomes one opaque token that a query for "회의" never matches.
+ * Runs of Hangul, Kana and Han are therefore indexed as overlapping bigrams
+ * (the same approach as Lucene's CJKAnalyzer), and queries are turned into
+ * bigram phrases so any substring of two or more characters matches.
+ */
+
+/** Hangul, Hiragana, Katakana (incl. the ー prolonged sound mark) and Han */
+const CJK_RUN = /[\p{Script=Hangul}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}ー]+/gu;
+
+/** Characters kept in non-CJK query terms (anything else is FTS5 syntax risk) */
+const NON_WORD = /[^\p{L}\p{N}_]/gu;
+
+/** Overlapping bigrams of one CJK run ("회의실" → ["회의", "의실"]) */
+function bigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length < 2) return chars;
+  const grams: string[] = [];
+  for (let i = 0; i < chars.length - 1; i++) {
+    grams.push(chars[i] + chars[i + 1]);
+  }
+  return grams;
+}
+
+/** Text as stored in the FTS table: CJK runs replaced by space-separated bigrams */
+export function segmentForIndex(text: string): string {
+  return text.replace(CJK_RUN, (run) => ` ${bigrams(run).join(" ")} `);
+}
+
+/** Split a query term into CJK runs and the text between them */
+function splitScripts(term: string): Array<{ cjk: boolean; value: string }> {
+  const parts: Array<{ cjk: boolean; value: string }> = [];
+  let last = 0;
+  for (const match of term.matchAll(CJK_RUN)) {
+    const index = match.index ?? 0;
+    if (index > last) parts.push({ cjk: false, value: term.slice(last, index) });
+    parts.push({ cjk: true, value: match[0] });
+    last = index + match[0].length;
+  }
+  if (last < term.length) parts.push({ cjk: false, value: term.slice(last) });
+  return parts;
+}
+
+/**
+ * Build an FTS5 MATCH expression: every term must match (AND).
+ * CJK runs become bigram phrases; a lone CJK character becomes a prefix
+ * query so it still finds the bigrams that start with it.
+ */
+export function buildFtsQuery(query: string): string | null {
+  const clauses: string[] = [];
+
+  for (const term of query.split(/\s+/)) {
+    for (const part of splitScripts(term)) {
+      if (part.cjk) {
+        const grams = bigrams(part.value);
+        const isSingle = grams.length === 1 && Array.from(grams[0]).length === 1;
+        clauses.push(isSingle ? `"${grams[0]}"*` : `"${grams.join(" ")}"`);
+      } else {
+        const word = part.value.replace(NON_WORD, "");
+        if (word.length > 0) clauses.push(`"${word}"`);
+      }
+    }
+  }
+
+  return clauses.length > 0 ? clauses.join(" AND ") : null;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ChannelAdapter } from "@open-claude-code/adapter-core";
+import { MessageRouter } from "./message-router.js";
+import { MessageStore } from "./message-store.js";
+import type { ChannelManager } from "./channel-manager.js";
+
+vi.mock("./config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./config.js")>()),
+  ensureDataDir: () => {},
+}));
+
+describe("MessageRouter.edit", () => {
+  let store: MessageStore;
+  let router: MessageRouter;
+  let editResult: boolean;
+
+  beforeEach(() => {
+    editResult = true;
+    const adapter = {
+      capabilities: { edit: true },
+      send: async () => ({ success: true, messageId: "100", timestamp: 1000 }),
+      editMessage: async () => ({ success: editResult, timestamp: 2000 }),
+    } as unknown as ChannelAdapter;
+    const channelManager = {
+      getRuntime: () => ({ adapter, status: { connected: true } }),
+    } as unknown as ChannelManager;
+
+    store = new MessageStore(":memory:");
+    router = new MessageRouter(channelManager, store);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it("updates the stored text of an edited message", async () => {
+    await router.send("telegram", { to: "chat-1", text: "…" });
+    await router.edit("telegram", "chat-1", "100", "Final reply");
+
+    expect(store.listMessages({ channel: "telegram" }).map((m) => m.text)).toEqual(["Final reply"]);
+  });
+
+  it("keeps the stored text when the edit fails", async () => {
+    editResult = false;
+    await router.send("telegram", { to: "chat-1", text: "…" });
+    await router.edit("telegram", "chat-1", "100", "Final reply");
+
+    expect(store.listMessages({ channel: "telegram" }).map((m) => m.text)).toEqual(["…"]);
+  });
+});
@@ -71,6 +71,54 @@ export class MessageRouter {
     }
   }
 
+  // Edit a previously sent message (channels with the edit capability)
+  async edit(
+    channelId: ChannelId,
+    chatId: string,
+    messageId: string,
+    text: string,
+    accountId: string = "default",
+  ): Promise<SendResult> {
+    const runtime = this.channelManager.getRuntime(channelId, accountId);
+
+    if (!runtime || !runtime.status.connected) {
+      return {
+        success: false,
+        error: `Channel ${channelId} (account: ${accountId}) is not connected`,
+        timestamp: Date.now(),
+      };
+    }
+
+    if (!runtime.adapter.capabilities.edit) {
+      return {
+        success: false,
+        error: `Channel ${channelId} does not support editing messages`,
+        timestamp: Date.now(),
+      };
+    }
+
+    try {
+      const result = await runtime.adapter.editMessage(chatId, messageId, text);
+      // Keep history in step with what the user sees (live-edit placeholders)
+      if (result.success) {
+        this.store.updateMessageText(channelId, accountId, messageId, text);
+      }
+      return result;
+    } catch (err) {
+      return {
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+        timestamp: Date.now(),
+      };
+    }
+  }
+
+  // Whether a running channel can edit sent messages
+  supportsEdit(channelId: ChannelId, accountId: string = "default"): boolean {
+    const runtime = this.channelManager.getRuntime(channelId, accountId);
+    return runtime?.adapter.capabilities.edit ?? false;
+  }
+
   // List messages with filtering
   listMessages(filter: {
     channel?: string;
@@ -84,6 +84,15 @@ export class MessageStore {
         updated_at INTEGER NOT NULL
       );
     `);
+
+    // Supervisor columns (added after the initial schema)
+    const channelColumns = this.db.prepare("PRAGMA table_info(channels)").all() as Array<{ name: string }>;
+    if (!channelColumns.some((c) => c.name === "reconnect_attempts")) {
+      this.db.exec(`
+        ALTER TABLE channels ADD COLUMN reconnect_attempts INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE channels ADD COLUMN next_reconnect_at INTEGER;
+      `);
+    }
   }
 
   storeMessage(msg: ChannelMessage): void {
@@ -116,7 +125,8 @@ export class MessageStore {
       msg.to?.name ?? null,
       msg.chatType,
       msg.text ?? null,
-      msg.media ? JSON.stringify(msg.media) : null,
+      // Raw buffers are not persisted; only the media metadata is kept
+      msg.media ? JSON.stringify(msg.media.map(({ buffer: _buffer, ...media }) => media)) : null,
       msg.replyToId ?? null,
       msg.threadId ?? null,
       msg.timestamp,
@@ -207,6 +217,13 @@ export class MessageStore {
     }));
   }
 
+  /** Replace the text of a message we sent, after it was edited on the platform */
+  updateMessageText(channel: string, accountId: string, messageId: string, text: string): void {
+    this.db
+      .prepare("UPDATE messages SET text = ? WHERE id = ? AND channel = ? AND account_id = ? AND from_id = '_self'")
+      .run(text, messageId, channel, accountId);
+  }
+
   markRead(messageIds: string[]): void {
     const stmt = this.db.prepare("UPDATE messages SET read = 1 WHERE id = ?");
     const transaction = this.db.transaction((ids: string[]) => {
@@ -225,8 +242,8 @@ export class MessageStore {
         `INSERT OR REPLACE INTO channels (
           id, channel, account_id, name, enabled, configured, connected, running,
           last_connected_at, last_disconnected_at, last_message_at, last_error,
-          last_start_at, last_stop_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          last_start_at, last_stop_at, reconnect_attempts, next_reconnect_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       )
       .run(
         key,
@@ -243,6 +260,8 @@ export class MessageStore {
         snapshot.lastError ?? null,
         snapshot.lastStartAt ?? null,
         snapshot.lastStopAt ?? null,
+        snapshot.reconnectAttempts ?? 0,
+        snapshot.nextReconnectAt ?? null,
         Date.now(),
       );
   }
@@ -266,9 +285,44 @@ export class MessageStore {
       lastError: row.last_error as string | null,
       lastStartAt: row.last_start_at as number | null,
       lastStopAt: row.last_stop_at as number | null,
+      reconnectAttempts: row.reconnect_attempts as number,
+      nextReconnectAt: row.next_reconnect_at as number | null,
     }));
   }
 
+  /**
+   * Delete everything a user sent on one channel account plus the replies
+   * sent to them in DMs (privacy "forget me" requests). Returns the deleted
+   * messages the user sent.
+   */
+  deleteUserMessages(channel: string, accountId: string, userId: string): StoredMessage[] {
+    const sent = this.db
+      .prepare("SELECT * FROM messages WHERE channel = ? AND account_id = ? AND from_id = ?")
+      .all(channel, accountId, userId) as Array<Record<string, unknown>>;
+
+    this.db
+      .prepare(
+        `DELETE FROM messages
+         WHERE channel = ? AND account_id = ?
+           AND (from_id = ? OR (from_id = '_self' AND to_id = ?))`,
+      )
+      .run(channel, accountId, userId, userId);
+
+    return sent.map(rowToMessage);
+  }
+
+  /** Account of the latest stored message in a conversation (DM peer or group ID) */
+  getConversationAccount(channel: string, peerId: string): string | null {
+    const row = this.db
+      .prepare(
+        `SELECT account_id FROM messages
+         WHERE channel = ? AND (from_id = ? OR to_id = ?)
+         ORDER BY timestamp DESC LIMIT 1`,
+      )
+      .get(channel, peerId, peerId) as { account_id: string } | undefined;
+    return row?.account_id ?? null;
+  }
+
   /** Expose the underlying database for shared use (e.g., MemoryManager FTS tables) */
   getDb(): Database.Database {
     return this.db;
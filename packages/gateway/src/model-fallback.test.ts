@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import type { SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+import { buildModelChain, classifyAgentError, describeResultFailure } from "./model-fallback.js";
+
+function result(overrides: Record<string, unknown>): SDKResultMessage {
+  return { type: "result", subtype: "success", is_error: false, result: "", errors: [], ...overrides } as unknown as SDKResultMessage;
+}
+
+describe("classifyAgentError", () => {
+  it("treats overload, rate limits, 5xx and network errors as transient", () => {
+    expect(classifyAgentError(new Error("API Error: 529 {\"type\":\"overloaded_error\"}"))).toBe("transient");
+    expect(classifyAgentError("API Error: 429 Too Many Requests")).toBe("transient");
+    expect(classifyAgentError(["API Error: 503 Service Unavailable"])).toBe("transient");
+    expect(classifyAgentError(new Error("fetch failed: ECONNRESET"))).toBe("transient");
+    expect(classifyAgentError("rate_limit")).toBe("transient");
+    expect(classifyAgentError("server_error")).toBe("transient");
+  });
+
+  it("treats an unavailable model as transient so the next model is tried", () => {
+    expect(classifyAgentError("API Error: 404 not_found_error model: claude-old")).toBe("transient");
+  });
+
+  it("treats auth, billing, invalid requests and unknown errors as permanent", () => {
+    expect(classifyAgentError("authentication_failed")).toBe("permanent");
+    expect(classifyAgentError("billing_error")).toBe("permanent");
+    expect(classifyAgentError(new Error("API Error: 401 invalid x-api-key"))).toBe("permanent");
+    expect(classifyAgentError("API Error: 400 prompt is too long")).toBe("permanent");
+    expect(classifyAgentError(new Error("Cannot read properties of undefined"))).toBe("permanent");
+    expect(classifyAgentError(undefined)).toBe("permanent");
+  });
+
+  it("recognizes a session that cannot be resumed", () => {
+    expect(classifyAgentError(new Error("No conversation found with session ID: abc"))).toBe("session");
+  });
+});
+
+describe("describeResultFailure", () => {
+  it("returns the error list of error_during_execution", () => {
+    expect(describeResultFailure(result({ subtype: "error_during_execution", errors: ["overloaded"] }))).toEqual(["overloaded"]);
+  });
+
+  it("returns the API error text of an is_error success result", () => {
+    expect(describeResultFailure(result({ is_error: true, result: "API Error: 529" }))).toBe("API Error: 529");
+  });
+
+  it("prefers a specific assistant error code", () => {
+    expect(describeResultFailure(result({ is_error: true, result: "API Error" }), "rate_limit")).toBe("rate_limit");
+    expect(describeResultFailure(result({ is_error: true, result: "API Error" }), "unknown")).toBe("API Error");
+  });
+
+  it("returns null for answered turns and guardrail exits", () => {
+    expect(describeResultFailure(result({}))).toBeNull();
+    expect(describeResultFailure(result({ subtype: "error_max_turns" }))).toBeNull();
+    expect(describeResultFailure(result({ subtype: "error_max_budget_usd" }))).toBeNull();
+  });
+});
+
+describe("buildModelChain", () => {
+  it("puts the primary model first and drops duplicates and blanks", () => {
+    expect(buildModelChain("claude-opus-4-1", ["claude-sonnet-4-5", " ", "claude-opus-4-1", "claude-haiku-4-5"])).toEqual([
+      "claude-opus-4-1",
+      "claude-sonnet-4-5",
+      "claude-haiku-4-5",
+    ]);
+    expect(buildModelChain("claude-sonnet-4-5")).toEqual(["claude-sonnet-4-5"]);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Model fallback for agent runs: when query() throws or ends with an API
+ * error before anything reached the user, the AgentRunner retries with the
+ * next model of gateway.agentRunner.fallbackModels.
+ *
+ * Errors are classified from the SDK's assistant error code, the result's
+ * error list or the thrown message:
+ *
+ *   transient — overload (529), rate limits (429), 5xx, network, model unavailable → next model
+ *   session   — the saved session can't be resumed → same model, fresh session
+ *   permanent — auth, billing, invalid request, anything unknown → give up
+ */
+
+import type { SDKAssistantMessageError, SDKResultMessage } from "@anthropic-ai/claude-agent-sdk";
+
+export type AgentErrorKind = "transient" | "session" | "permanent";
+
+/** SDK assistant error codes that another attempt (or model) may get past */
+const TRANSIENT_ERROR_CODES: ReadonlySet<SDKAssistantMessageError> = new Set(["rate_limit", "server_error"]);
+
+/** Checked first: a resume failure says nothing about the model */
+const SESSION_PATTERNS = [/no conversation found/i, /session .*not found/i, /failed to resume/i];
+
+/** Checked before transient patterns so "401 ... timeout" is not retried */
+const PERMANENT_PATTERNS = [
+  /\b40[013]\b/,
+  /authentication|unauthori[sz]ed|invalid.?api.?key|permission/i,
+  /billing|credit balance/i,
+  /invalid_request|prompt is too long/i,
+];
+
+const TRANSIENT_PATTERNS = [
+  /\b(429|5\d\d)\b/,
+  /overloaded|rate.?limit|too many requests/i,
+  /internal server error|service unavailable|bad gateway|gateway timeout|api_error/i,
+  /timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|fetch failed|network/i,
+  /model.*(not found|not available|unavailable|does not exist)|not_found_error/i,
+];
+
+/** Message text of a thrown value, result error list or SDK error code */
+function errorText(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`;
+  if (Array.isArray(error)) return error.map(String).join("\n");
+  return String(error ?? "");
+}
+
+/** Classify a failed run from what the SDK reported */
+export function classifyAgentError(error: unknown): AgentErrorKind {
+  if (typeof error === "string" && TRANSIENT_ERROR_CODES.has(error as SDKAssistantMessageError)) {
+    return "transient";
+  }
+
+  const text = errorText(error);
+  if (!text) return "permanent";
+  if (SESSION_PATTERNS.some((pattern) => pattern.test(text))) return "session";
+  if (PERMANENT_PATTERNS.some((pattern) => pattern.test(text))) return "permanent";
+  if (TRANSIENT_PATTERNS.some((pattern) => pattern.test(text))) return "transient";
+  return "permanent";
+}
+
+/**
+ * What went wrong in a run, or null when its result is not an API failure.
+ * error_during_execution carries an error list; API errors that end a turn
+ * arrive as a "success" result with is_error set and the message as result
+ * text. The assistant message's error code, when specific, is preferred.
+ */
+export function describeResultFailure(
+  result: SDKResultMessage,
+  apiError?: SDKAssistantMessageError,
+): string | string[] | null {
+  if (result.subtype === "error_during_execution") {
+    return apiError && apiError !== "unknown" ? apiError : result.errors;
+  }
+  if (result.subtype === "success" && result.is_error) {
+    return apiError && apiError !== "unknown" ? apiError : result.result;
+  }
+  return null;
+}
+
+/** Models to try in order: the conversation's model, then the fallbacks (deduplicated) */
+export function buildModelChain(primary: string, fallbacks: readonly string[] = []): string[] {
+  const chain: string[] = [];
+  for (const model of [primary, ...fallbacks]) {
+    const trimmed = model.trim();
+    if (trimmed && !chain.includes(trimmed)) chain.push(trimmed);
+  }
+  return chain;
+}
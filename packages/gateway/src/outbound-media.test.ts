@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { resolveOutboundMedia, guessMimeType, inlineMediaPaths } from "./outbound-media.js";
+
+describe("resolveOutboundMedia", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "media-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it("reads a local file into a buffer with name and mime type", () => {
+    const filePath = path.join(tmpDir, "chart.png");
+    fs.writeFileSync(filePath, Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    const [media] = resolveOutboundMedia([{ type: "image", path: filePath, caption: "Q3 sales" }]);
+
+    expect(media.type).toBe("image");
+    expect(media.buffer).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    expect(media.fileName).toBe("chart.png");
+    expect(media.mimeType).toBe("image/png");
+    expect(media.caption).toBe("Q3 sales");
+  });
+
+  it("throws for a missing file", () => {
+    expect(() =>
+      resolveOutboundMedia([{ type: "document", path: path.join(tmpDir, "missing.pdf") }]),
+    ).toThrow();
+  });
+
+  it("decodes raw base64 content", () => {
+    const base64 = Buffer.from("hello report").toString("base64");
+
+    const [media] = resolveOutboundMedia([
+      { type: "document", base64, fileName: "report.txt" },
+    ]);
+
+    expect(media.buffer?.toString()).toBe("hello report");
+    expect(media.mimeType).toBe("text/plain");
+    expect(media.fileName).toBe("report.txt");
+  });
+
+  it("takes the mime type from a data URL", () => {
+    const base64 = `data:image/jpeg;base64,${Buffer.from("jpeg-bytes").toString("base64")}`;
+
+    const [media] = resolveOutboundMedia([{ type: "image", base64 }]);
+
+    expect(media.buffer?.toString()).toBe("jpeg-bytes");
+    expect(media.mimeType).toBe("image/jpeg");
+    expect(media.fileName).toBe("image.jpg");
+  });
+
+  it("passes remote URLs through without downloading", () => {
+    const [media] = resolveOutboundMedia([{ type: "image", url: "https://example.com/a.png" }]);
+
+    expect(media.url).toBe("https://example.com/a.png");
+    expect(media.buffer).toBeUndefined();
+  });
+
+  it("rejects descriptors without any content source", () => {
+    expect(() => resolveOutboundMedia([{ type: "audio" }])).toThrow(/path, base64 content or url/);
+  });
+});
+
+describe("guessMimeType", () => {
+  it("maps common extensions case-insensitively", () => {
+    expect(guessMimeType("photo.JPG")).toBe("image/jpeg");
+    expect(guessMimeType("notes.pdf")).toBe("application/pdf");
+    expect(guessMimeType("voice.ogg")).toBe("audio/ogg");
+  });
+
+  it("returns undefined for unknown extensions", () => {
+    expect(guessMimeType("archive.xyz")).toBeUndefined();
+  });
+});
+
+describe("resolveOutboundMedia allowedRoots", () => {
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "media-root-"));
+    outside = fs.mkdtempSync(path.join(os.tmpdir(), "media-outside-"));
+    fs.writeFileSync(path.join(outside, "id_rsa"), "secret");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  it("reads files inside an allowed root", () => {
+    fs.mkdirSync(path.join(root, "attachments"));
+    const filePath = path.join(root, "attachments", "photo.png");
+    fs.writeFileSync(filePath, "png");
+
+    const [media] = resolveOutboundMedia([{ type: "image", path: filePath }], { allowedRoots: [root] });
+    expect(media.buffer?.toString()).toBe("png");
+  });
+
+  it("rejects a path outside the allowed roots", () => {
+    expect(() =>
+      resolveOutboundMedia([{ type: "document", path: path.join(outside, "id_rsa") }], { allowedRoots: [root] }),
+    ).toThrow("outside the allowed directories");
+  });
+
+  it("rejects traversal and symlinks that escape the root", () => {
+    const traversal = path.join(root, "..", path.basename(outside), "id_rsa");
+    fs.symlinkSync(path.join(outside, "id_rsa"), path.join(root, "link"));
+
+    expect(() => resolveOutboundMedia([{ type: "document", path: traversal }], { allowedRoots: [root] })).toThrow(
+      "outside the allowed directories",
+    );
+    expect(() =>
+      resolveOutboundMedia([{ type: "document", path: path.join(root, "link") }], { allowedRoots: [root] }),
+    ).toThrow("outside the allowed directories");
+  });
+});
+
+describe("inlineMediaPaths", () => {
+  it("replaces a local path with base64 content", () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "media-inline-"));
+    const filePath = path.join(tmpDir, "notes.txt");
+    fs.writeFileSync(filePath, "hello");
+
+    const [input] = inlineMediaPaths([{ type: "document", path: filePath, caption: "notes" }]);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+
+    expect(input).toEqual({
+      type: "document",
+      caption: "notes",
+      base64: Buffer.from("hello").toString("base64"),
+      fileName: "notes.txt",
+      mimeType: "text/plain",
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Outbound media resolution for send_message.
+ *
+ * Tools accept attachments as a local file path, a base64 payload (optionally
+ * a data: URL) or a remote URL. Paths and base64 are read into buffers here so
+ * adapters only have to upload bytes or pass a URL through.
+ *
+ * The daemon only reads paths inside allowed roots (the data dir): its HTTP
+ * API and IPC socket must not become a way to upload arbitrary local files.
+ * The stdio MCP server runs as the user's own client and inlines files it
+ * was asked to attach as base64 instead.
+ */
+
+import { readFileSync, realpathSync, statSync } from "node:fs";
+import { basename, extname, isAbsolute, relative } from "node:path";
+import type { MessageMedia } from "@open-claude-code/adapter-core";
+
+export type MediaInput = {
+  type: MessageMedia["type"];
+  /** Absolute path to a local file */
+  path?: string;
+  /** Base64 file content, raw or as a data: URL */
+  base64?: string;
+  /** Remote URL the platform can fetch itself */
+  url?: string;
+  mimeType?: string;
+  fileName?: string;
+  caption?: string;
+};
+
+export type ResolveMediaOptions = {
+  /** Directories local paths must resolve into (after symlinks); omitted = any path */
+  allowedRoots?: string[];
+};
+
+/** Largest upload we accept (Telegram Bot API caps uploads at 50 MB) */
+const MAX_MEDIA_BYTES = 50 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".ogg": "audio/ogg",
+  ".oga": "audio/ogg",
+  ".wav": "audio/wav",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".json": "application/json",
+  ".csv": "text/csv",
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".html": "text/html",
+};
+
+const DATA_URL_RE = /^data:([^;,]+)?(?:;[^,]*)?;base64,/;
+
+export function guessMimeType(fileName: string): string | undefined {
+  return MIME_TYPES[extname(fileName).toLowerCase()];
+}
+
+/** File extension (with dot) for a known MIME type, or "" */
+export function extensionFor(mimeType: string | undefined): string {
+  if (!mimeType) return "";
+  const match = Object.entries(MIME_TYPES).find(([, mime]) => mime === mimeType);
+  return match ? match[0] : "";
+}
+
+/** Whether a real path lies inside one of the roots (compared after resolving symlinks) */
+function isInsideRoots(realPath: string, roots: string[]): boolean {
+  return roots.some((root) => {
+    let realRoot: string;
+    try {
+      realRoot = realpathSync(root);
+    } catch {
+      return false;
+    }
+    const rel = relative(realRoot, realPath);
+    return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+  });
+}
+
+/**
+ * Turn tool-provided media descriptors into MessageMedia with buffers.
+ * Throws on missing files, paths outside the allowed roots, empty
+ * descriptors or oversized payloads.
+ */
+export function resolveOutboundMedia(inputs: MediaInput[], options: ResolveMediaOptions = {}): MessageMedia[] {
+  return inputs.map((input, index) => {
+    const base = {
+      type: input.type,
+      caption: input.caption,
+    };
+
+    if (input.path) {
+      const filePath = realpathSync(input.path);
+      if (options.allowedRoots && !isInsideRoots(filePath, options.allowedRoots)) {
+        throw new Error(`Media #${index + 1} path is outside the allowed directories; send it as base64 or url instead`);
+      }
+      const size = statSync(filePath).size;
+      if (size > MAX_MEDIA_BYTES) {
+        throw new Error(`Media #${index + 1} is too large (${size} bytes, max ${MAX_MEDIA_BYTES})`);
+      }
+      const fileName = input.fileName ?? basename(input.path);
+      return {
+        ...base,
+        buffer: readFileSync(filePath),
+        fileName,
+        mimeType: input.mimeType ?? guessMimeType(fileName),
+      };
+    }
+
+    if (input.base64) {
+      const dataUrl = input.base64.match(DATA_URL_RE);
+      const payload = dataUrl ? input.base64.slice(dataUrl[0].length) : input.base64;
+      const buffer = Buffer.from(payload, "base64");
+      if (buffer.length === 0) {
+        throw new Error(`Media #${index + 1} has empty base64 content`);
+      }
+      if (buffer.length > MAX_MEDIA_BYTES) {
+        throw new Error(`Media #${index + 1} is too large (${buffer.length} bytes, max ${MAX_MEDIA_BYTES})`);
+      }
+      const mimeType = input.mimeType ?? dataUrl?.[1] ?? (input.fileName ? guessMimeType(input.fileName) : undefined);
+      return {
+        ...base,
+        buffer,
+        mimeType,
+        fileName: input.fileName ?? `${input.type}${extensionFor(mimeType)}`,
+      };
+    }
+
+    if (input.url) {
+      return {
+        ...base,
+        url: input.url,
+        mimeType: input.mimeType,
+        fileName: input.fileName,
+      };
+    }
+
+    throw new Error(`Media #${index + 1} needs a path, base64 content or url`);
+  });
+}
+
+/**
+ * Replace local paths with base64 content, for clients that read files on
+ * the user's behalf (stdio MCP server) before handing media to the daemon.
+ */
+export function inlineMediaPaths(inputs: MediaInput[]): MediaInput[] {
+  return inputs.map(({ path, ...input }, index) => {
+    if (!path) return input;
+    const size = statSync(path).size;
+    if (size > MAX_MEDIA_BYTES) {
+      throw new Error(`Media #${index + 1} is too large (${size} bytes, max ${MAX_MEDIA_BYTES})`);
+    }
+    const fileName = input.fileName ?? basename(path);
+    return {
+      ...input,
+      base64: readFileSync(path).toString("base64"),
+      fileName,
+      mimeType: input.mimeType ?? guessMimeType(fileName),
+    };
+  });
+}
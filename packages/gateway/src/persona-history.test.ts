@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { diffLines, PersonaHistory } from "./persona-history.js";
+
+describe("diffLines", () => {
+  it("returns an empty string for identical texts", () => {
+    expect(diffLines("a\nb", "a\nb")).toBe("");
+  });
+
+  it("marks removed and added lines with surrounding context", () => {
+    expect(diffLines("a\nb\nc", "a\nB\nc")).toBe("  a\n- b\n+ B\n  c");
+  });
+
+  it("separates distant changes into hunks", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9"].join("\n");
+    const after = ["one", "2", "3", "4", "5", "6", "7", "8", "nine"].join("\n");
+
+    expect(diffLines(before, after, 1).split("\n")).toEqual(["- 1", "+ one", "  2", "@@", "  8", "- 9", "+ nine"]);
+  });
+});
+
+describe("PersonaHistory", () => {
+  let dataDir: string;
+  let history: PersonaHistory;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "persona-history-test-"));
+    history = new PersonaHistory(new Database(":memory:"), dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const readFile = (file: string) => fs.readFileSync(path.join(dataDir, file), "utf-8");
+
+  it("records every write and writes the file", () => {
+    history.write("SOUL.md", "calm", "agent");
+    history.write("SOUL.md", "playful", "agent");
+
+    expect(readFile("SOUL.md")).toBe("playful");
+    expect(history.list("SOUL.md").map((r) => r.source)).toEqual(["agent", "agent"]);
+  });
+
+  it("keeps the pre-existing file and outside edits as revisions", () => {
+    fs.writeFileSync(path.join(dataDir, "USER.md"), "name: Minji");
+    history.write("USER.md", "name: Minji\nlikes tea", "agent");
+    fs.writeFileSync(path.join(dataDir, "USER.md"), "edited by hand");
+    history.write("USER.md", "agent again", "agent");
+
+    const revisions = history.list("USER.md");
+    expect(revisions.map((r) => r.source)).toEqual(["agent", "external", "agent", "initial"]);
+    expect(history.get(revisions[3].id)?.content).toBe("name: Minji");
+  });
+
+  it("skips writes that change nothing", () => {
+    history.write("SOUL.md", "calm", "agent");
+    const again = history.write("SOUL.md", "calm", "agent");
+
+    expect(history.list("SOUL.md")).toHaveLength(1);
+    expect(again.content).toBe("calm");
+  });
+
+  it("diffs against the previous revision by default", () => {
+    history.write("SOUL.md", "tone: calm\nemoji: no", "agent");
+    history.write("SOUL.md", "tone: playful\nemoji: no", "agent");
+
+    expect(history.diff("SOUL.md")).toBe("- tone: calm\n+ tone: playful\n  emoji: no");
+  });
+
+  it("diffs two given revisions", () => {
+    const first = history.write("SOUL.md", "v1", "agent");
+    const second = history.write("SOUL.md", "v2", "agent");
+    history.write("SOUL.md", "v3", "agent");
+
+    expect(history.diff("SOUL.md", first.id, second.id)).toBe("- v1\n+ v2");
+    expect(() => history.diff("IDENTITY.md", first.id)).toThrow("not found");
+  });
+
+  it("rolls back to an earlier revision as a new revision", () => {
+    const good = history.write("SOUL.md", "kind and curious", "agent");
+    history.write("SOUL.md", "", "agent");
+
+    const restored = history.rollback("SOUL.md", good.id);
+
+    expect(readFile("SOUL.md")).toBe("kind and curious");
+    expect(restored.source).toBe("rollback");
+    expect(history.list("SOUL.md")).toHaveLength(3);
+  });
+
+  it("lists revisions of all files newest first", () => {
+    history.write("SOUL.md", "a", "agent");
+    history.write("MEMORY.md", "b", "compaction");
+
+    expect(history.list().map((r) => r.file)).toEqual(["MEMORY.md", "SOUL.md"]);
+    expect(history.list(undefined, 1)).toHaveLength(1);
+  });
+
+  it("purges a directory with the revisions of its files", () => {
+    history.write("personas/telegram/users/42/USER.md", "likes tea", "agent");
+    history.write("personas/telegram/users/420/USER.md", "likes coffee", "agent");
+
+    expect(history.purge("personas/telegram/users/42")).toBe(1);
+    expect(fs.existsSync(path.join(dataDir, "personas/telegram/users/42"))).toBe(false);
+    expect(history.list().map((r) => r.file)).toEqual(["personas/telegram/users/420/USER.md"]);
+  });
+
+  it("refuses paths outside the data dir", () => {
+    expect(() => history.write("../escape.md", "x", "agent")).toThrow("Invalid persona file path");
+    expect(() => history.read("/etc/passwd")).toThrow("Invalid persona file path");
+  });
+});
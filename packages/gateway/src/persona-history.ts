@@ -0,0 +1,273 @@
+/**
+ * PersonaHistory - Revision history for the persona files.
+ *
+ * Every write to SOUL.md / IDENTITY.md / USER.md / AGENTS.md / MEMORY.md
+ * goes through write(), which stores the new content as a revision in
+ * SQLite (shared gateway DB) before replacing the file. Edits made outside
+ * the gateway are picked up as "external" revisions on the next write, so
+ * any version the agent ever overwrote can be inspected, diffed and restored.
+ */
+
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, isAbsolute, join } from "node:path";
+
+/** Who wrote a revision */
+export type PersonaRevisionSource = "initial" | "external" | "agent" | "compaction" | "rollback" | "manual";
+
+export type PersonaRevisionSummary = {
+  id: number;
+  /** File path relative to the data dir, e.g. "SOUL.md" */
+  file: string;
+  source: PersonaRevisionSource;
+  lines: number;
+  createdAt: number;
+};
+
+export type PersonaRevision = PersonaRevisionSummary & { content: string };
+
+/** Unchanged lines shown around each change in a diff */
+const DIFF_CONTEXT_LINES = 2;
+/** Longer files are diffed line-by-line without LCS alignment */
+const MAX_LCS_CELLS = 4_000_000;
+
+// ─── Diff ───────────────────────────────────────────────────────────────────
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+function diffOps(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [...a.map((line) => ({ kind: "-" as const, line })), ...b.map((line) => ({ kind: "+" as const, line }))];
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ kind: "-", line: a[i++] });
+    } else {
+      ops.push({ kind: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: "-", line: a[i++] });
+  while (j < b.length) ops.push({ kind: "+", line: b[j++] });
+  return ops;
+}
+
+/**
+ * Line diff in unified style ("-" removed, "+" added, "  " context, "@@"
+ * between hunks). Returns "" when the texts are identical.
+ */
+export function diffLines(before: string, after: string, context: number = DIFF_CONTEXT_LINES): string {
+  const ops = diffOps(before.split("\n"), after.split("\n"));
+  const changed = ops.map((op) => op.kind !== " ");
+  if (!changed.includes(true)) return "";
+
+  const out: string[] = [];
+  let lastShown = -1;
+  ops.forEach((op, index) => {
+    const near = changed.slice(Math.max(0, index - context), index + context + 1).includes(true);
+    if (!near) return;
+    if (lastShown !== -1 && index > lastShown + 1) out.push("@@");
+    out.push(`${op.kind === " " ? " " : op.kind} ${op.line}`);
+    lastShown = index;
+  });
+  return out.join("\n");
+}
+
+// ─── PersonaHistory ─────────────────────────────────────────────────────────
+
+export class PersonaHistory {
+  private db: Database.Database;
+  private dataDir: string;
+  private schemaReady = false;
+
+  constructor(db: Database.Database, dataDir: string) {
+    this.db = db;
+    this.dataDir = dataDir;
+  }
+
+  ensureSchema(): void {
+    if (this.schemaReady) return;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS persona_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        file TEXT NOT NULL,
+        content TEXT NOT NULL,
+        source TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_persona_revisions_file ON persona_revisions(file, id);
+    `);
+
+    this.schemaReady = true;
+  }
+
+  /** Current content of a persona file, or null when it doesn't exist */
+  read(file: string): string | null {
+    const path = this.resolve(file);
+    return existsSync(path) ? readFileSync(path, "utf-8") : null;
+  }
+
+  /**
+   * Record content as a new revision and write it to the file. Returns the
+   * revision (the latest one, unchanged, when the content is identical).
+   */
+  write(file: string, content: string, source: PersonaRevisionSource): PersonaRevision {
+    this.ensureSchema();
+
+    const current = this.read(file);
+    let latest = this.latest(file);
+
+    // Keep whatever is on disk now, so this write can be undone
+    if (current !== null && current !== latest?.content) {
+      latest = this.insert(file, current, latest ? "external" : "initial");
+    }
+    if (latest && latest.content === content && current === content) return latest;
+
+    const revision = this.insert(file, content, source);
+    const path = this.resolve(file);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content, "utf-8");
+    return revision;
+  }
+
+  /** Newest revisions first, optionally for one file */
+  list(file?: string, limit: number = 20): PersonaRevisionSummary[] {
+    this.ensureSchema();
+
+    const columns = "id, file, source, length(content) - length(replace(content, char(10), '')) + 1 AS lines, created_at";
+    const rows = (
+      file
+        ? this.db
+            .prepare(`SELECT ${columns} FROM persona_revisions WHERE file = ? ORDER BY id DESC LIMIT ?`)
+            .all(file, limit)
+        : this.db.prepare(`SELECT ${columns} FROM persona_revisions ORDER BY id DESC LIMIT ?`).all(limit)
+    ) as Array<Record<string, unknown>>;
+
+    return rows.map((row) => ({
+      id: row.id as number,
+      file: row.file as string,
+      source: row.source as PersonaRevisionSource,
+      lines: row.lines as number,
+      createdAt: row.created_at as number,
+    }));
+  }
+
+  get(id: number): PersonaRevision | null {
+    this.ensureSchema();
+    const row = this.db.prepare("SELECT * FROM persona_revisions WHERE id = ?").get(id) as
+      | Record<string, unknown>
+      | undefined;
+    return row ? rowToRevision(row) : null;
+  }
+
+  /**
+   * Diff between two revisions of a file. `from` defaults to the revision
+   * before `to`; `to` defaults to the current file content.
+   */
+  diff(file: string, from?: number, to?: number): string {
+    this.ensureSchema();
+
+    const target = to !== undefined ? this.revisionOf(file, to) : null;
+    const after = target ? target.content : (this.read(file) ?? "");
+
+    let before: string;
+    if (from !== undefined) {
+      before = this.revisionOf(file, from).content;
+    } else {
+      // Previous revision: the one before `to`, or before the current content
+      const previous = this.db
+        .prepare(
+          `SELECT * FROM persona_revisions WHERE file = ? AND id < ? AND content != ? ORDER BY id DESC LIMIT 1`,
+        )
+        .get(file, target ? target.id : Number.MAX_SAFE_INTEGER, after) as Record<string, unknown> | undefined;
+      before = previous ? (previous.content as string) : "";
+    }
+
+    return diffLines(before, after);
+  }
+
+  /** Restore a file to an earlier revision (recorded as a new "rollback" revision) */
+  rollback(file: string, id: number): PersonaRevision {
+    const revision = this.revisionOf(file, id);
+    return this.write(file, revision.content, "rollback");
+  }
+
+  /**
+   * Delete a persona directory (e.g. a user's overlay) together with the
+   * revisions of every file in it. Returns the number of revisions deleted.
+   */
+  purge(dir: string): number {
+    this.ensureSchema();
+    rmSync(this.resolve(dir), { recursive: true, force: true });
+    return this.db
+      .prepare("DELETE FROM persona_revisions WHERE substr(file, 1, ?) = ?")
+      .run(dir.length + 1, `${dir}/`).changes;
+  }
+
+  /** Absolute path of a persona file; refuses paths outside the data dir */
+  private resolve(file: string): string {
+    if (!file || isAbsolute(file) || file.split(/[\\/]/).includes("..")) {
+      throw new Error(`Invalid persona file path: ${file}`);
+    }
+    return join(this.dataDir, file);
+  }
+
+  private revisionOf(file: string, id: number): PersonaRevision {
+    const revision = this.get(id);
+    if (!revision || revision.file !== file) {
+      throw new Error(`Revision ${id} of ${file} not found`);
+    }
+    return revision;
+  }
+
+  private latest(file: string): PersonaRevision | null {
+    const row = this.db
+      .prepare("SELECT * FROM persona_revisions WHERE file = ? ORDER BY id DESC LIMIT 1")
+      .get(file) as Record<string, unknown> | undefined;
+    return row ? rowToRevision(row) : null;
+  }
+
+  private insert(file: string, content: string, source: PersonaRevisionSource): PersonaRevision {
+    const createdAt = Date.now();
+    const result = this.db
+      .prepare("INSERT INTO persona_revisions (file, content, source, created_at) VALUES (?, ?, ?, ?)")
+      .run(file, content, source, createdAt);
+    return {
+      id: Number(result.lastInsertRowid),
+      file,
+      source,
+      lines: content.split("\n").length,
+      createdAt,
+      content,
+    };
+  }
+}
+
+function rowToRevision(row: Record<string, unknown>): PersonaRevision {
+  const content = row.content as string;
+  return {
+    id: row.id as number,
+    file: row.file as string,
+    source: row.source as PersonaRevisionSource,
+    lines: content.split("\n").length,
+    createdAt: row.created_at as number,
+    content,
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { personaLayers, personaScopeDir, scopedPersonaPath } from "./persona-scope.js";
+
+describe("scopedPersonaPath", () => {
+  const target = { channel: "telegram", chatId: "-100123", userId: "42" };
+
+  it("places each scope under personas/", () => {
+    expect(scopedPersonaPath("USER.md", "global", target)).toBe("USER.md");
+    expect(scopedPersonaPath("USER.md", "channel", target)).toBe("personas/telegram/USER.md");
+    expect(scopedPersonaPath("USER.md", "chat", target)).toBe("personas/telegram/-100123/USER.md");
+    expect(scopedPersonaPath("USER.md", "user", target)).toBe("personas/telegram/users/42/USER.md");
+  });
+
+  it("requires the IDs a scope needs", () => {
+    expect(() => scopedPersonaPath("USER.md", "channel", {})).toThrow("channel is required");
+    expect(() => scopedPersonaPath("USER.md", "chat", { channel: "telegram" })).toThrow("chatId is required");
+    expect(() => scopedPersonaPath("USER.md", "user", { channel: "telegram" })).toThrow("userId is required");
+  });
+
+  it("keeps IDs within one path segment", () => {
+    expect(personaScopeDir("user", { channel: "whatsapp", userId: "8210@s.whatsapp.net" })).toBe(
+      "personas/whatsapp/users/8210@s.whatsapp.net",
+    );
+    expect(personaScopeDir("chat", { channel: "telegram", chatId: "../x" })).toBe("personas/telegram/.._x");
+    expect(personaScopeDir("chat", { channel: "telegram", chatId: ".." })).toBe("personas/telegram/_");
+  });
+});
+
+describe("personaLayers", () => {
+  it("orders layers from global to user", () => {
+    expect(personaLayers("SOUL.md", { channel: "discord", chatId: "g1", userId: "u1" })).toEqual([
+      { scope: "global", path: "SOUL.md" },
+      { scope: "channel", path: "personas/discord/SOUL.md" },
+      { scope: "chat", path: "personas/discord/g1/SOUL.md" },
+      { scope: "user", path: "personas/discord/users/u1/SOUL.md" },
+    ]);
+  });
+
+  it("only includes layers the target identifies", () => {
+    expect(personaLayers("SOUL.md", {}).map((l) => l.scope)).toEqual(["global"]);
+    expect(personaLayers("SOUL.md", { channel: "discord", userId: "u1" }).map((l) => l.scope)).toEqual([
+      "global",
+      "channel",
+      "user",
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Persona overlays: besides the global persona files in the data dir, each
+ * channel, chat and user can have its own SOUL.md / IDENTITY.md / USER.md /
+ * AGENTS.md under personas/:
+ *
+ *   USER.md                                   global
+ *   personas/telegram/USER.md                 channel
+ *   personas/telegram/<chatId>/USER.md        chat
+ *   personas/telegram/users/<userId>/USER.md  user
+ *
+ * The system prompt stacks the layers that exist from global to user, so a
+ * group chat and each person in it can carry their own facts.
+ */
+
+export const PERSONA_SCOPES = ["global", "channel", "chat", "user"] as const;
+export type PersonaScope = (typeof PERSONA_SCOPES)[number];
+
+/** Identifies the conversation a scoped persona file belongs to */
+export type PersonaTarget = {
+  channel?: string;
+  chatId?: string;
+  userId?: string;
+};
+
+export type PersonaLayer = {
+  scope: PersonaScope;
+  /** Path relative to the data dir */
+  path: string;
+};
+
+const PERSONAS_DIR = "personas";
+
+/** Make a channel/chat/user ID safe to use as one path segment */
+function segment(id: string): string {
+  const safe = id.replace(/[^\w@.-]/g, "_");
+  return safe === "." || safe === ".." ? "_" : safe;
+}
+
+/** Directory of a scope relative to the data dir ("" for global) */
+export function personaScopeDir(scope: PersonaScope, target: PersonaTarget): string {
+  if (scope === "global") return "";
+
+  if (!target.channel) throw new Error(`channel is required for ${scope} scope`);
+  const channelDir = `${PERSONAS_DIR}/${segment(target.channel)}`;
+  switch (scope) {
+    case "channel":
+      return channelDir;
+    case "chat":
+      if (!target.chatId) throw new Error("chatId is required for chat scope");
+      return `${channelDir}/${segment(target.chatId)}`;
+    case "user":
+      if (!target.userId) throw new Error("userId is required for user scope");
+      return `${channelDir}/users/${segment(target.userId)}`;
+  }
+}
+
+/** Path of a persona file in a scope, relative to the data dir */
+export function scopedPersonaPath(file: string, scope: PersonaScope, target: PersonaTarget): string {
+  const dir = personaScopeDir(scope, target);
+  return dir ? `${dir}/${file}` : file;
+}
+
+/** Layers of a persona file applying to a conversation, global first */
+export function personaLayers(file: string, target: PersonaTarget): PersonaLayer[] {
+  const layers: PersonaLayer[] = [{ scope: "global", path: file }];
+  if (!target.channel) return layers;
+
+  layers.push({ scope: "channel", path: scopedPersonaPath(file, "channel", target) });
+  if (target.chatId) layers.push({ scope: "chat", path: scopedPersonaPath(file, "chat", target) });
+  if (target.userId) layers.push({ scope: "user", path: scopedPersonaPath(file, "user", target) });
+  return layers;
+}
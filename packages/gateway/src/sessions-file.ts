@@ -0,0 +1,53 @@
+/**
+ * sessions.json — conversation key → Agent SDK session ID, written by
+ * AgentRunner and read by the transcript indexer.
+ *
+ * Version 2: { "version": 2, "sessions": { "telegram:default:123": "<id>" } }
+ * Version 1 (legacy): a flat { "telegram:123": "<id>" } map from before
+ * keys included the account. The gateway migrates it on startup
+ * (legacy-keys.ts); until then its keys are read as the default account.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+const SESSIONS_FILE_VERSION = 2;
+
+/** Account a legacy "channel:peer" key is read as */
+export type LegacyAccountResolver = (channel: string, peerId: string) => string;
+
+/** "telegram:123" → "telegram:<account>:123"; null if the key isn't a legacy conversation key */
+export function upgradeLegacyKey(key: string, resolveAccount: LegacyAccountResolver): string | null {
+  const match = key.match(/^([^:/]+):([^:/]+)$/);
+  if (!match) return null;
+  const [, channel, peerId] = match;
+  return `${channel}:${resolveAccount(channel, peerId)}:${peerId}`;
+}
+
+export function isLegacySessionsFile(path: string): boolean {
+  if (!existsSync(path)) return false;
+  const data = JSON.parse(readFileSync(path, "utf-8")) as Record<string, unknown>;
+  return data.version !== SESSIONS_FILE_VERSION;
+}
+
+export function readSessionsFile(
+  path: string,
+  resolveAccount: LegacyAccountResolver = () => "default",
+): Map<string, string> {
+  const sessions = new Map<string, string>();
+  if (!existsSync(path)) return sessions;
+
+  const data = JSON.parse(readFileSync(path, "utf-8")) as Record<string, unknown>;
+  const legacy = data.version !== SESSIONS_FILE_VERSION;
+  const entries = legacy ? data : (data.sessions as Record<string, unknown>) ?? {};
+  for (const [key, sessionId] of Object.entries(entries)) {
+    if (typeof sessionId === "string") {
+      sessions.set(legacy ? upgradeLegacyKey(key, resolveAccount) ?? key : key, sessionId);
+    }
+  }
+  return sessions;
+}
+
+export function writeSessionsFile(path: string, sessions: Map<string, string>): void {
+  const data = { version: SESSIONS_FILE_VERSION, sessions: Object.fromEntries(sessions) };
+  writeFileSync(path, JSON.stringify(data, null, 2), "utf-8");
+}
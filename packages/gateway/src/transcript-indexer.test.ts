@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { MemoryManager } from "./memory-manager.js";
+import { encodeProjectDir, TranscriptIndexer } from "./transcript-indexer.js";
+
+describe("encodeProjectDir", () => {
+  it("replaces every non-alphanumeric character with a dash", () => {
+    expect(encodeProjectDir("/home/me/.openclaudecode/agent-sessions")).toBe("-home-me--openclaudecode-agent-sessions");
+  });
+});
+
+describe("TranscriptIndexer", () => {
+  let tmpDir: string;
+  let projectsDir: string;
+  let sessionsFile: string;
+  let mm: MemoryManager;
+  const cwd = "/data/agent-sessions";
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "transcripts-test-"));
+    projectsDir = path.join(tmpDir, "projects");
+    sessionsFile = path.join(tmpDir, "sessions.json");
+    mm = new MemoryManager(new Database(":memory:"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeTranscript(dir: string, sessionId: string, text: string): void {
+    fs.mkdirSync(path.join(projectsDir, dir), { recursive: true });
+    const events = [
+      { type: "user", message: { role: "user", content: text } },
+      { type: "assistant", message: { content: [{ type: "text", text: "noted" }] } },
+    ];
+    fs.writeFileSync(path.join(projectsDir, dir, `${sessionId}.jsonl`), events.map((e) => JSON.stringify(e)).join("\n") + "\n");
+  }
+
+  it("indexes transcripts of the sessions tracked in sessions.json", () => {
+    fs.writeFileSync(sessionsFile, JSON.stringify({ version: 2, sessions: { "telegram:default:1": "s1" } }));
+    writeTranscript(encodeProjectDir(cwd), "s1", "remember the launch date");
+    writeTranscript(encodeProjectDir(cwd), "untracked", "not tracked");
+
+    const indexer = new TranscriptIndexer(mm, { sessionsFile, cwd, projectsDir });
+    expect(indexer.indexAll()).toBe(1);
+
+    const [result] = mm.search("launch date");
+    expect(result.sessionKey).toBe("telegram:default:1");
+    expect(mm.search("tracked")).toEqual([]);
+
+    // Second pass finds nothing new
+    expect(indexer.indexAll()).toBe(0);
+  });
+
+  it("reads legacy sessions.json keys as the default account", () => {
+    fs.writeFileSync(sessionsFile, JSON.stringify({ "discord:9": "s2" }));
+    writeTranscript("some-other-project", "s2", "legacy session text");
+
+    const indexer = new TranscriptIndexer(mm, { sessionsFile, cwd, projectsDir });
+    indexer.indexAll();
+
+    expect(mm.search("legacy")[0].sessionKey).toBe("discord:default:9");
+  });
+
+  it("does nothing without a sessions file", () => {
+    const indexer = new TranscriptIndexer(mm, { sessionsFile, cwd, projectsDir });
+    expect(indexer.indexAll()).toBe(0);
+  });
+});
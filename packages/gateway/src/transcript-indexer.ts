@@ -0,0 +1,111 @@
+/**
+ * TranscriptIndexer - Background indexing of Agent SDK session transcripts.
+ *
+ * The SDK writes every session to ~/.claude/projects/<encoded cwd>/<id>.jsonl
+ * (CLAUDE_CONFIG_DIR overrides ~/.claude). On each tick the indexer reads
+ * sessions.json, locates the transcript of every tracked session and lets
+ * MemoryManager.indexSession pick up lines appended since the last tick.
+ */
+
+import { existsSync, readdirSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { MemoryManager } from "./memory-manager.js";
+import { readSessionsFile } from "./sessions-file.js";
+
+const DEFAULT_INTERVAL_MS = 60_000;
+
+/** Project directory name the SDK derives from a cwd (non-alphanumerics become "-") */
+export function encodeProjectDir(cwd: string): string {
+  return cwd.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+function getClaudeConfigDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR ?? join(homedir(), ".claude");
+}
+
+/** Transcript path for a session: the cwd's project dir first, then any project dir */
+export function findSessionTranscript(
+  sessionId: string,
+  cwd: string,
+  projectsDir: string = join(getClaudeConfigDir(), "projects"),
+): string | null {
+  const fileName = `${sessionId}.jsonl`;
+  const expected = join(projectsDir, encodeProjectDir(cwd), fileName);
+  if (existsSync(expected)) return expected;
+
+  if (!existsSync(projectsDir)) return null;
+  for (const dir of readdirSync(projectsDir)) {
+    const candidate = join(projectsDir, dir, fileName);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+export type TranscriptIndexerOptions = {
+  /** sessions.json written by AgentRunner */
+  sessionsFile: string;
+  /** cwd passed to query() (AgentRunner's agent-sessions dir) */
+  cwd: string;
+  intervalMs?: number;
+  /** Override for tests; defaults to <claude config dir>/projects */
+  projectsDir?: string;
+};
+
+export class TranscriptIndexer {
+  private memoryManager: MemoryManager;
+  private options: TranscriptIndexerOptions;
+  private projectsDir: string;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(memoryManager: MemoryManager, options: TranscriptIndexerOptions) {
+    this.memoryManager = memoryManager;
+    this.options = options;
+    this.projectsDir = options.projectsDir ?? join(getClaudeConfigDir(), "projects");
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.indexAll();
+    this.timer = setInterval(() => this.indexAll(), this.options.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /** Index new transcript lines of every tracked session. Returns chunks written. */
+  indexAll(): number {
+    let sessions: Map<string, string>;
+    try {
+      sessions = readSessionsFile(this.options.sessionsFile);
+    } catch (err) {
+      console.warn(`[transcripts] Failed to read sessions file:`, err);
+      return 0;
+    }
+
+    let indexed = 0;
+    for (const [key, sessionId] of sessions) {
+      const path = this.findTranscript(sessionId);
+      if (!path) continue;
+      try {
+        indexed += this.memoryManager.indexSession(key, path);
+      } catch (err) {
+        console.warn(`[transcripts] Failed to index ${path}:`, err);
+      }
+    }
+
+    if (indexed > 0) {
+      console.log(`[transcripts] Indexed ${indexed} chunk(s) from ${sessions.size} session(s)`);
+    }
+    return indexed;
+  }
+
+  findTranscript(sessionId: string): string | null {
+    return findSessionTranscript(sessionId, this.options.cwd, this.projectsDir);
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { extractMessageSection, parseTranscript } from "./transcript-parser.js";
+
+const PROMPT = [
+  "## Incoming message",
+  "- **Channel**: telegram",
+  "- **From**: Alice (42)",
+  "",
+  "**Message:**",
+  "회의 일정 알려줘",
+  "",
+  'Reply using the send_message tool with channel="telegram" and to="42".',
+].join("\n");
+
+function jsonl(events: unknown[]): string {
+  return events.map((e) => JSON.stringify(e)).join("\n") + "\n";
+}
+
+const sdkEvents = [
+  { type: "system", subtype: "init", session_id: "s1" },
+  { type: "user", uuid: "u1", timestamp: "2026-01-01T00:00:00.000Z", message: { role: "user", content: PROMPT } },
+  {
+    type: "assistant",
+    uuid: "a1",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Let me check." },
+        { type: "tool_use", id: "t1", name: "mcp__gateway__memory_search", input: { query: "회의" } },
+      ],
+    },
+  },
+  {
+    type: "user",
+    uuid: "u2",
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: [{ type: "text", text: "2 results" }] }] },
+  },
+  {
+    type: "assistant",
+    uuid: "a2",
+    message: {
+      role: "assistant",
+      content: [{ type: "tool_use", id: "t2", name: "mcp__gateway__send_message", input: { channel: "telegram", to: "42", text: "내일 3시입니다" } }],
+    },
+  },
+  {
+    type: "user",
+    uuid: "u3",
+    message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t2", content: "{\"success\":true}" }] },
+  },
+];
+
+describe("extractMessageSection", () => {
+  it("returns the user's message from a runner prompt", () => {
+    expect(extractMessageSection(PROMPT)).toBe("회의 일정 알려줘");
+  });
+
+  it("returns other text unchanged", () => {
+    expect(extractMessageSection("  plain prompt ")).toBe("plain prompt");
+  });
+});
+
+describe("parseTranscript", () => {
+  it("groups SDK events into a turn with replies and tool outcomes", () => {
+    const { turns } = parseTranscript(jsonl(sdkEvents));
+
+    expect(turns).toHaveLength(1);
+    const [{ turn, timestamp }] = turns;
+    expect(turn.turnId).toBe(PROMPT);
+    expect(turn.userText).toBe("회의 일정 알려줘");
+    expect(turn.replies).toEqual(["Let me check.", "내일 3시입니다"]);
+    expect(turn.toolOutcomes).toEqual(["memory_search: ok — 2 results"]);
+    expect(timestamp).toBe(Date.parse("2026-01-01T00:00:00.000Z"));
+  });
+
+  it("starts a new turn at each prompt and records byte offsets", () => {
+    const second = { type: "user", uuid: "u4", message: { role: "user", content: "다음 질문" } };
+    const text = jsonl([...sdkEvents, second]);
+    const { turns } = parseTranscript(text);
+
+    expect(turns).toHaveLength(2);
+    expect(turns[1].turn.userText).toBe("다음 질문");
+    // Offsets are in bytes (multibyte text before the second prompt)
+    expect(Buffer.from(text).subarray(turns[1].offset).toString().startsWith(JSON.stringify(second))).toBe(true);
+  });
+
+  it("skips subagent, meta and malformed lines", () => {
+    const text =
+      jsonl([
+        { type: "user", message: { role: "user", content: "question" } },
+        { type: "assistant", isSidechain: true, message: { content: [{ type: "text", text: "subagent chatter" }] } },
+        { type: "user", isMeta: true, message: { role: "user", content: "caveat" } },
+      ]) + "{not json\n";
+
+    const { turns } = parseTranscript(text);
+    expect(turns).toHaveLength(1);
+    expect(turns[0].turn.replies).toEqual([]);
+  });
+
+  it("marks failed tool calls", () => {
+    const { turns } = parseTranscript(
+      jsonl([
+        { type: "user", message: { role: "user", content: "fetch it" } },
+        { type: "assistant", message: { content: [{ type: "tool_use", id: "t", name: "WebFetch", input: {} }] } },
+        { type: "user", message: { content: [{ type: "tool_result", tool_use_id: "t", is_error: true, content: "timeout" }] } },
+      ]),
+    );
+    expect(turns[0].turn.toolOutcomes).toEqual(["WebFetch: failed — timeout"]);
+  });
+
+  it("reads the legacy message format and session header", () => {
+    const { turns, sessionKey } = parseTranscript(
+      jsonl([
+        { type: "session", sessionKey: "telegram:default:7" },
+        { type: "message", message: { role: "user", content: "What is Rust?" } },
+        { type: "message", message: { role: "assistant", content: "A systems language." } },
+      ]),
+    );
+
+    expect(sessionKey).toBe("telegram:default:7");
+    expect(turns[0].turn.userText).toBe("What is Rust?");
+    expect(turns[0].turn.replies).toEqual(["A systems language."]);
+  });
+});
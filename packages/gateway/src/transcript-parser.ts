@@ -0,0 +1,138 @@
+/**
+ * Parser for Agent SDK session transcripts (~/.claude/projects/<cwd>/<id>.jsonl).
+ *
+ * Each line is one event. The ones that matter for memory:
+ *   {"type":"user","message":{"role":"user","content":"## Incoming message ..."},"uuid":"…","timestamp":"…"}
+ *   {"type":"assistant","message":{"content":[{"type":"text",…},{"type":"tool_use","id":"…","name":"…","input":{…}}]}}
+ *   {"type":"user","message":{"content":[{"type":"tool_result","tool_use_id":"…","content":…,"is_error":false}]}}
+ * Subagent events (isSidechain) and meta messages are skipped. The older
+ * {"type":"message"} format with a {"type":"session"} header is still read.
+ *
+ * Events are grouped into TurnLogs (see turn-memory.ts) starting at each
+ * user prompt, so transcript chunks get the same IDs as live-indexed turns.
+ */
+
+import { contentText, createTurnLog, recordReply, recordToolOutcome, type TurnLog } from "./turn-memory.js";
+
+export type TranscriptTurn = {
+  turn: TurnLog;
+  timestamp: number;
+  /** Byte offset of the turn's first line within the parsed text */
+  offset: number;
+};
+
+export type ParsedTranscript = {
+  turns: TranscriptTurn[];
+  /** Session key from a legacy {"type":"session"} header, if present */
+  sessionKey?: string;
+};
+
+type ContentBlock = {
+  type: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: { text?: unknown };
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+};
+
+type TranscriptEvent = {
+  type?: string;
+  isSidechain?: boolean;
+  isMeta?: boolean;
+  uuid?: string;
+  timestamp?: string;
+  sessionKey?: string;
+  message?: { role?: string; content?: string | ContentBlock[] };
+};
+
+const SEND_MESSAGE_TOOL = "mcp__gateway__send_message";
+
+/** The user's own words from an AgentRunner prompt (between "**Message:**" and the reply instruction) */
+export function extractMessageSection(prompt: string): string {
+  const match = prompt.match(/\*\*Message:\*\*\n([\s\S]*?)\n\n(?:Reply |$)/);
+  return (match ? match[1] : prompt).trim();
+}
+
+function parseTimestamp(value: string | undefined): number {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? Date.now() : time;
+}
+
+/** Parse complete JSONL lines into turns; malformed lines are skipped */
+export function parseTranscript(text: string): ParsedTranscript {
+  const turns: TranscriptTurn[] = [];
+  const toolNames = new Map<string, string>(); // tool_use id → name
+  let sessionKey: string | undefined;
+  let offset = 0;
+
+  const startTurn = (turnId: string, userText: string, event: TranscriptEvent, at: number): TranscriptTurn => {
+    const turn = { turn: createTurnLog(turnId, userText), timestamp: parseTimestamp(event.timestamp), offset: at };
+    turns.push(turn);
+    return turn;
+  };
+
+  for (const line of text.split("\n")) {
+    const lineOffset = offset;
+    offset += Buffer.byteLength(line) + 1;
+    if (!line.trim()) continue;
+
+    let event: TranscriptEvent;
+    try {
+      event = JSON.parse(line) as TranscriptEvent;
+    } catch {
+      continue;
+    }
+
+    if (event.type === "session") {
+      if (typeof event.sessionKey === "string") sessionKey = event.sessionKey;
+      continue;
+    }
+    if (event.isSidechain || event.isMeta || !event.message?.content) continue;
+
+    const current: TranscriptTurn | undefined = turns[turns.length - 1];
+    const role = event.type === "message" ? event.message.role : event.type;
+    const content = event.message.content;
+    const blocks = typeof content === "string" ? [] : content;
+
+    if (role === "user") {
+      const toolResults = blocks.filter((b) => b.type === "tool_result");
+      if (toolResults.length === 0) {
+        // A new user prompt starts a turn
+        const prompt = contentText(content);
+        startTurn(prompt || event.uuid || String(lineOffset), extractMessageSection(prompt), event, lineOffset);
+        continue;
+      }
+
+      if (!current) continue;
+      for (const result of toolResults) {
+        const name = toolNames.get(result.tool_use_id ?? "");
+        if (!name || name === SEND_MESSAGE_TOOL) continue;
+        recordToolOutcome(current.turn, name, result.is_error === true, contentText(result.content));
+      }
+    } else if (role === "assistant") {
+      // Assistant output before any prompt (e.g. a resumed session's tail) gets its own turn
+      const turn = current ?? startTurn(event.uuid ?? String(lineOffset), "", event, lineOffset);
+
+      if (typeof content === "string") {
+        recordReply(turn.turn, content);
+        continue;
+      }
+      for (const block of blocks) {
+        if (block.type === "text" && block.text) {
+          recordReply(turn.turn, block.text);
+        } else if (block.type === "tool_use" && block.id && block.name) {
+          toolNames.set(block.id, block.name);
+          // Text sent to the user through send_message is the actual reply
+          if (block.name === SEND_MESSAGE_TOOL && typeof block.input?.text === "string") {
+            recordReply(turn.turn, block.input.text);
+          }
+        }
+      }
+    }
+  }
+
+  return { turns, sessionKey };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildTurnChunks,
+  contentText,
+  createTurnLog,
+  MAX_TURN_CHUNK_CHARS,
+  recordReply,
+  recordToolOutcome,
+} from "./turn-memory.js";
+
+describe("recordReply", () => {
+  it("keeps replies in order and skips exact repeats", () => {
+    const turn = createTurnLog("prompt-1", "hi");
+    recordReply(turn, "Hello!");
+    recordReply(turn, "  Hello!  ");
+    recordReply(turn, "");
+    recordReply(turn, "How can I help?");
+    expect(turn.replies).toEqual(["Hello!", "How can I help?"]);
+  });
+});
+
+describe("recordToolOutcome", () => {
+  it("strips the gateway prefix and truncates the result", () => {
+    const turn = createTurnLog("prompt-1", "remember this");
+    recordToolOutcome(turn, "mcp__gateway__write_persona", false, "Updated\nMEMORY.md");
+    recordToolOutcome(turn, "WebFetch", true, "x".repeat(500));
+
+    expect(turn.toolOutcomes[0]).toBe("write_persona: ok — Updated MEMORY.md");
+    expect(turn.toolOutcomes[1].startsWith("WebFetch: failed — ")).toBe(true);
+    expect(turn.toolOutcomes[1].length).toBeLessThan(200);
+  });
+});
+
+describe("contentText", () => {
+  it("reads string and text-block content", () => {
+    expect(contentText("done")).toBe("done");
+    expect(contentText([{ type: "text", text: "a" }, { type: "image" }, { type: "text", text: "b" }])).toBe("a\nb");
+    expect(contentText(undefined)).toBe("");
+  });
+});
+
+describe("buildTurnChunks", () => {
+  it("indexes the user text, replies and tool outcomes together", () => {
+    const turn = createTurnLog("prompt-1", "What's on my calendar?");
+    recordReply(turn, "You have a meeting at 3pm.");
+    recordToolOutcome(turn, "mcp__gateway__memory_search", false, "1 result");
+
+    const [chunk, ...rest] = buildTurnChunks("telegram:default:1", turn, "success");
+    expect(rest).toEqual([]);
+    expect(chunk.text).toBe(
+      "User: What's on my calendar?\nAssistant: You have a meeting at 3pm.\nTools:\n- memory_search: ok — 1 result",
+    );
+  });
+
+  it("notes unsuccessful outcomes", () => {
+    const turn = createTurnLog("prompt-1", "long task");
+    const [chunk] = buildTurnChunks("k", turn, "error_max_turns");
+    expect(chunk.text).toContain("Outcome: error_max_turns");
+  });
+
+  it("derives stable ids from the key and turn id", () => {
+    const first = createTurnLog("prompt-1", "question");
+    recordReply(first, "answer");
+    const retry = createTurnLog("prompt-1", "question");
+    recordReply(retry, "a different answer");
+
+    expect(buildTurnChunks("k", first, "success")[0].id).toBe(buildTurnChunks("k", retry, "success")[0].id);
+    expect(buildTurnChunks("k", first, "success")[0].id).not.toBe(buildTurnChunks("other", first, "success")[0].id);
+  });
+
+  it("splits long exchanges and repeats the user text as context", () => {
+    const turn = createTurnLog("prompt-1", "Explain the deployment pipeline");
+    for (let i = 0; i < 6; i++) {
+      recordReply(turn, `Step ${i}: ${"details ".repeat(60)}`);
+    }
+
+    const chunks = buildTurnChunks("k", turn, "success");
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(new Set(chunks.map((c) => c.id)).size).toBe(chunks.length);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(MAX_TURN_CHUNK_CHARS);
+      expect(chunk.text.startsWith("User: Explain the deployment pipeline")).toBe(true);
+    }
+  });
+
+  it("returns nothing for an empty turn", () => {
+    expect(buildTurnChunks("k", createTurnLog("", "  "), "success")).toEqual([]);
+  });
+});
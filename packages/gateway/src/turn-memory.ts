@@ -0,0 +1,88 @@
+/**
+ * Per-turn memory records: what the user said, what the agent answered
+ * (send_message texts and top-level assistant text) and what its tools did.
+ *
+ * AgentRunner fills one TurnLog per user turn while query() streams and
+ * indexes it when the turn's result arrives, so the agent can later recall
+ * its own answers and decisions via memory_search — not only user text.
+ * The transcript indexer rebuilds the same logs from SDK session files.
+ */
+
+import { createHash } from "node:crypto";
+import { chunkMarkdown } from "@open-claude-code/adapter-core";
+
+export type TurnLog = {
+  /**
+   * Stable identity of the turn: the exact prompt text sent to the agent
+   * (it carries the message timestamp). Live and transcript indexing derive
+   * the same chunk IDs from it, so a turn is never indexed twice.
+   */
+  turnId: string;
+  /** Formatted user text (including attachment lines) */
+  userText: string;
+  /** Replies sent to the user and top-level assistant text, in order */
+  replies: string[];
+  /** One line per tool call, e.g. "write_persona: ok" */
+  toolOutcomes: string[];
+};
+
+export type TurnChunk = { id: string; text: string };
+
+/** Longest indexed chunk; longer exchanges are split */
+export const MAX_TURN_CHUNK_CHARS = 1500;
+/** User text repeated at the top of continuation chunks for context */
+const CONTEXT_CHARS = 200;
+/** Tool result text kept per outcome line */
+const TOOL_RESULT_CHARS = 160;
+
+export function createTurnLog(turnId: string, userText: string): TurnLog {
+  return { turnId, userText, replies: [], toolOutcomes: [] };
+}
+
+/** Text of user content (string or content blocks; images are skipped) */
+export function contentText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block): block is { type: "text"; text: string } => block?.type === "text" && typeof block.text === "string")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/** Record assistant text, skipping exact repeats (block replies echo the same text) */
+export function recordReply(turn: TurnLog, text: string): void {
+  const trimmed = text.trim();
+  if (trimmed && !turn.replies.includes(trimmed)) {
+    turn.replies.push(trimmed);
+  }
+}
+
+/** Record a tool result as "name: ok — text" / "name: failed — text" */
+export function recordToolOutcome(turn: TurnLog, toolName: string, isError: boolean, resultText: string): void {
+  const name = toolName.replace(/^mcp__gateway__/, "");
+  const detail = resultText.replace(/\s+/g, " ").trim().slice(0, TOOL_RESULT_CHARS);
+  turn.toolOutcomes.push(`${name}: ${isError ? "failed" : "ok"}${detail ? ` — ${detail}` : ""}`);
+}
+
+/**
+ * Split a finished turn into memory chunks. IDs derive from the conversation
+ * key and turn ID, so re-running the same prompt replaces the earlier chunks
+ * instead of indexing them twice.
+ */
+export function buildTurnChunks(key: string, turn: TurnLog, outcome: string): TurnChunk[] {
+  const userText = turn.userText.trim();
+  if (!userText && turn.replies.length === 0) return [];
+
+  const lines = userText ? [`User: ${userText}`] : [];
+  for (const reply of turn.replies) lines.push(`Assistant: ${reply}`);
+  if (turn.toolOutcomes.length > 0) lines.push(`Tools:\n${turn.toolOutcomes.map((t) => `- ${t}`).join("\n")}`);
+  if (outcome !== "success" && outcome !== "unknown") lines.push(`Outcome: ${outcome}`);
+
+  const context = `User: ${userText.slice(0, CONTEXT_CHARS)}${userText.length > CONTEXT_CHARS ? "…" : ""}`;
+  const pieces = chunkMarkdown(lines.join("\n"), MAX_TURN_CHUNK_CHARS - context.length - 1);
+
+  return pieces.map((piece, index) => ({
+    id: createHash("sha256").update(`${key}\n${turn.turnId}\n${index}`).digest("hex").slice(0, 16),
+    text: index === 0 || !userText ? piece : `${context}\n${piece}`,
+  }));
+}